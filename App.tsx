@@ -10,10 +10,14 @@ import HomePage from './pages/HomePage';
 import ProfilePage from './pages/ProfilePage';
 import Chatbot from './components/Chatbot';
 import VoiceAssistant from './components/VoiceAssistant';
-import { User } from './types';
+import { LanguageCode, User } from './types';
+import { setUsageUser } from './services/usageTracker';
+import { setChatThreadsSignIn } from './services/chatThreads';
+import { getResponseLanguage, setResponseLanguage } from './services/language';
 
 // Import new tool pages
 import ImageDetectionPage from './pages/dashboard/ImageDetectionPage';
+import BatchImagePage from './pages/dashboard/BatchImagePage';
 import ArticleAnalysisPage from './pages/dashboard/ArticleAnalysisPage';
 import CallFraudDetectionPage from './pages/dashboard/VoiceDetectionPage';
 import AiVoiceDetectionPage from './pages/dashboard/AiVoiceDetectionPage';
@@ -29,6 +33,7 @@ const App: React.FC = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [authPage, setAuthPage] = useState<'login' | 'register'>('login');
   const [user, setUser] = useState<User | null>(null);
+  const [language, setLanguage] = useState<LanguageCode>(getResponseLanguage);
 
   useEffect(() => {
     // This effect synchronizes the theme with the <html> element's class
@@ -38,9 +43,14 @@ const App: React.FC = () => {
   const toggleDarkMode = useCallback(() => {
     setIsDarkMode(prev => !prev);
   }, []);
+
+  const handleLanguageChange = useCallback((nextLanguage: LanguageCode) => {
+    setResponseLanguage(nextLanguage);
+    setLanguage(nextLanguage);
+  }, []);
   
-  const handleLogin = useCallback((credentials: { email?: string; googleUser?: Partial<User> }) => {
-    const { email, googleUser } = credentials;
+  const handleLogin = useCallback((credentials: { email?: string; password?: string; googleUser?: Partial<User> }) => {
+    const { email, password, googleUser } = credentials;
 
     let finalUser: User;
     
@@ -71,6 +81,8 @@ const App: React.FC = () => {
     }
 
     setUser(finalUser);
+    setUsageUser(finalUser.email);
+    setChatThreadsSignIn(finalUser.email, email ? password : undefined);
     setIsLoggedIn(true);
     setCurrentPage('home');
   }, []);
@@ -79,11 +91,13 @@ const App: React.FC = () => {
   const handleLogout = useCallback(() => {
     setIsLoggedIn(false);
     setUser(null);
+    setUsageUser(null);
+    setChatThreadsSignIn(null);
     setCurrentPage('login');
     setAuthPage('login');
   }, []);
 
-  const handleRegister = useCallback((email: string) => {
+  const handleRegister = useCallback((email: string, password: string) => {
     const nameFromEmail = email.split('@')[0]
                                .replace(/[._-]/g, ' ')
                                .split(' ')
@@ -95,6 +109,8 @@ const App: React.FC = () => {
       email: email,
       profileImageUrl: null,
     });
+    setUsageUser(email);
+    setChatThreadsSignIn(email, password);
     setIsLoggedIn(true);
     setCurrentPage('home');
   }, []);
@@ -124,6 +140,7 @@ const App: React.FC = () => {
         const subpage = currentPage.split('/')[1];
         switch (subpage) {
             case 'image': return <ImageDetectionPage onNavigate={handleNavigation} />;
+            case 'batch': return <BatchImagePage onNavigate={handleNavigation} />;
             case 'article': return <ArticleAnalysisPage onNavigate={handleNavigation} />;
             case 'voice': return <CallFraudDetectionPage onNavigate={handleNavigation} />;
             case 'aivoice': return <AiVoiceDetectionPage onNavigate={handleNavigation} />;
@@ -160,13 +177,15 @@ const App: React.FC = () => {
         toggleDarkMode={toggleDarkMode}
         user={user}
         onLogout={handleLogout}
+        language={language}
+        onLanguageChange={handleLanguageChange}
       />
       <main key={currentPage} className="flex-grow container mx-auto px-4 py-8 animate-fade-in-up">
         {renderPage}
       </main>
       <Footer />
-      {isLoggedIn && <VoiceAssistant />}
-      {isLoggedIn && <Chatbot />}
+      {isLoggedIn && user && <VoiceAssistant key={user.email} userId={user.email} language={language} onNavigate={handleNavigation} />}
+      {isLoggedIn && user && <Chatbot key={user.email} userId={user.email} />}
     </div>
   );
 };
@@ -0,0 +1,34 @@
+import React from 'react';
+import { AnalysisEnvelope } from '../types';
+import { inputLanguageName, LANGUAGES } from '../services/language';
+
+interface AnalysisDetailsProps {
+  envelope: AnalysisEnvelope<unknown>;
+  onReanalyze?: () => void;
+}
+
+// A one-line footer recording which model, prompt and language produced a result, and when.
+// Cached results say so and offer to ask the model again.
+const AnalysisDetails: React.FC<AnalysisDetailsProps> = ({ envelope, onReanalyze }) => (
+  <div className="mt-6 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-400 dark:text-gray-500">
+    {envelope.fromCache && (
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-gray-600 dark:text-gray-300">
+        <span>Cached result from {new Date(envelope.timestamp).toLocaleString()}</span>
+        {onReanalyze && (
+          <button onClick={() => onReanalyze()} className="font-medium text-black dark:text-white underline hover:opacity-80">
+            Re-analyze
+          </button>
+        )}
+      </div>
+    )}
+    <p>
+      Model {envelope.modelId} · Prompt {envelope.promptVersion}
+      {envelope.language && (
+        <> · {LANGUAGES[envelope.language.output].name}{envelope.language.input && envelope.language.input !== envelope.language.output && ` (input in ${inputLanguageName(envelope.language.input)})`}</>
+      )}
+      {' · '}{(envelope.latencyMs / 1000).toFixed(1)}s · {new Date(envelope.timestamp).toLocaleString()}
+    </p>
+  </div>
+);
+
+export default AnalysisDetails;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { AnalysisEnvelope } from '../types';
+
+interface AnalysisFailureCardProps {
+  envelope: AnalysisEnvelope<unknown>;
+  onRetry?: () => void;
+}
+
+const MESSAGES = {
+  error: {
+    title: 'Analysis could not be completed',
+    body: "We couldn't get an answer from the analysis service. This is not a verdict about your content.",
+  },
+  invalid: {
+    title: 'Analysis returned an unreadable result',
+    body: 'The AI responded, but its answer failed our consistency checks, so we are not showing it as a verdict.',
+  },
+  cancelled: {
+    title: 'Analysis cancelled',
+    body: 'The analysis was stopped before it finished, so there is no verdict.',
+  },
+  quota: {
+    title: 'Daily limit reached',
+    body: 'Your allowance for this tool is used up for today, so this content was not analyzed. This is not a verdict about your content.',
+  },
+};
+
+// Shown in place of a result card whenever an analysis ends without a verdict.
+// It deliberately looks nothing like a safe/fraud result.
+const AnalysisFailureCard: React.FC<AnalysisFailureCardProps> = ({ envelope, onRetry }) => {
+  if (envelope.status === 'ok') return null;
+  const { title, body } = MESSAGES[envelope.status];
+  // Trying again will not help until the quota resets
+  const canRetry = envelope.status !== 'quota';
+
+  return (
+    <div role="alert" className="mt-8 animate-fade-in-up p-6 rounded-2xl border-2 border-dashed border-gray-400 dark:border-gray-600 bg-gray-50/80 dark:bg-gray-900/80 backdrop-blur-sm text-center">
+      <div className="mx-auto bg-gray-200 dark:bg-gray-800 rounded-full h-14 w-14 flex items-center justify-center mb-4">
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7 text-gray-600 dark:text-gray-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" /></svg>
+      </div>
+      <h4 className="font-bold text-lg text-black dark:text-white">{title}</h4>
+      <p className="text-sm text-gray-600 dark:text-gray-300 mt-2 max-w-md mx-auto">{body}{canRetry && ' Please try again.'}</p>
+      <p className="text-xs text-gray-400 dark:text-gray-500 mt-3 break-words">Details: {envelope.error}</p>
+      {onRetry && canRetry && (
+        <button onClick={() => onRetry()} className="mt-4 bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 text-sm transition-colors">
+          Try Again
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisFailureCard;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ChatAnalysis, ClaimVerdict } from '../types';
+
+const VERDICT_STYLES: Record<ClaimVerdict, string> = {
+  refuted: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  misleading: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+  unverifiable: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  supported: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+};
+
+const RISK_COLORS: Record<string, string> = {
+  High: 'text-red-500',
+  Medium: 'text-yellow-500',
+  Low: 'text-green-500',
+};
+
+// Only the first few claims fit in the chat window; the article page shows them all
+const MAX_CLAIMS = 3;
+
+const TITLES: Record<ChatAnalysis['tool'], string> = {
+  sms: 'SMS Fraud Check',
+  article: 'Article Check',
+};
+
+// A compact result card for a check the chatbot ran. Like AnalysisFailureCard, a
+// failed check looks nothing like a verdict.
+const ChatAnalysisCard: React.FC<{ analysis: ChatAnalysis }> = ({ analysis }) => {
+  const { envelope } = analysis;
+  return (
+    <div className="w-full mt-2 p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-black dark:text-white">
+      <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">{TITLES[analysis.tool]}</p>
+      {envelope.status !== 'ok' ? (
+        <p role="alert" className="p-2 rounded-md border border-dashed border-gray-400 dark:border-gray-600 text-gray-600 dark:text-gray-300">
+          No verdict: {envelope.error}
+        </p>
+      ) : analysis.tool === 'sms' ? (
+        <>
+          <p className={`font-bold ${analysis.envelope.result?.classification === 'fraud' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+            {analysis.envelope.result?.classification === 'fraud' ? 'Potential Fraud Detected' : 'Message Appears Safe'}
+          </p>
+          <p className="mt-1 text-gray-600 dark:text-gray-300">{analysis.envelope.result?.explanation}</p>
+          {analysis.envelope.result?.classification === 'fraud' && (
+            <p className="mt-2 text-xs">Cybercrime Helpline: <strong>1930</strong></p>
+          )}
+        </>
+      ) : analysis.envelope.result && (
+        <>
+          <div className="flex justify-between gap-2">
+            <span>Risk: <strong className={RISK_COLORS[analysis.envelope.result.riskLevel] ?? 'text-gray-500'}>{analysis.envelope.result.riskLevel}</strong></span>
+            <span>Credibility: <strong>{analysis.envelope.result.credibilityScore} / 100</strong></span>
+          </div>
+          <p className="mt-2 text-gray-600 dark:text-gray-300">{analysis.envelope.result.summary}</p>
+          <ul className="mt-2 space-y-2">
+            {analysis.envelope.result.claims.slice(0, MAX_CLAIMS).map((claim, index) => (
+              <li key={index} className="p-2 bg-gray-100 dark:bg-gray-800 rounded-md">
+                {claim.verdict && (
+                  <span className={`text-xs font-bold px-2 py-0.5 rounded-full capitalize ${VERDICT_STYLES[claim.verdict]}`}>{claim.verdict}</span>
+                )}
+                <p className={claim.verdict ? 'mt-1' : undefined}>{claim.claim}</p>
+                {claim.sources.length > 0 && (
+                  <a href={claim.sources[0].url} target="_blank" rel="noopener noreferrer" className="text-xs underline hover:opacity-80 break-all">
+                    {claim.sources[0].title}
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+          {analysis.envelope.result.claims.length > MAX_CLAIMS && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {analysis.envelope.result.claims.length - MAX_CLAIMS} more claims checked; open Article Analysis for the full report.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChatAnalysisCard;
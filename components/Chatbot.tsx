@@ -1,42 +1,79 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ICONS } from '../constants';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+import { useChatThreads } from '../hooks/useChatThreads';
+import { createChatThread, titleForMessages } from '../services/chatThreads';
 import { getChatbotResponse } from '../services/geminiService';
+import { ChatMessage } from '../types';
+import ChatAnalysisCard from './ChatAnalysisCard';
+import Markdown from './Markdown';
 
-interface Message {
-    text: string;
-    sender: 'user' | 'bot';
-}
+// Shown at the top of every conversation; not saved and never sent to the model
+const GREETING: ChatMessage = {
+    text: "Hi! I'm the support assistant for CodeHustlers. Ask me about the app, or paste a suspicious SMS or article and I'll check it for you.",
+    sender: 'bot',
+};
 
-const Chatbot: React.FC = () => {
+// Rendered with key={userId} so signing in as someone else starts from a clean slate
+const Chatbot: React.FC<{ userId: string }> = ({ userId }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<Message[]>([
-        { text: "Hi! I'm the support assistant for CodeHustlers. How can I help you with the CodeHustlers app today?", sender: 'bot' }
-    ]);
+    const [showThreads, setShowThreads] = useState(false);
+    const { threads, activeThread, selectThread, startNewThread, saveThread, deleteThread } = useChatThreads(userId);
+    // The message being answered, shown until the reply is saved with it
+    const [pendingMessage, setPendingMessage] = useState<ChatMessage | null>(null);
     const [userInput, setUserInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    // The reply so far while it streams in
+    const [streamingText, setStreamingText] = useState('');
+    const { start, cancel } = useCancellableRequest();
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
+    const messages = [GREETING, ...(activeThread?.messages ?? []), ...(pendingMessage ? [pendingMessage] : [])];
+
     const scrollToBottom = () => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     };
 
-    useEffect(scrollToBottom, [messages]);
+    useEffect(scrollToBottom, [messages.length, streamingText, isOpen, showThreads]);
 
     const handleSend = async () => {
         if (userInput.trim() === '' || isLoading) return;
 
-        const newUserMessage: Message = { text: userInput, sender: 'user' };
-        setMessages(prev => [...prev, newUserMessage]);
+        const thread = activeThread ?? createChatThread();
+        const newUserMessage: ChatMessage = { text: userInput, sender: 'user' };
+        setPendingMessage(newUserMessage);
         setUserInput('');
         setIsLoading(true);
 
-        const botResponseText = await getChatbotResponse(userInput);
-        const newBotMessage: Message = { text: botResponseText, sender: 'bot' };
+        const { text, analyses, turns, stopped } = await getChatbotResponse(userInput, thread.turns, {
+            onText: setStreamingText,
+            signal: start(),
+        });
+        const newBotMessage: ChatMessage = { text, sender: 'bot', analyses, ...(stopped ? { stopped } : {}) };
+        const threadMessages = [...thread.messages, newUserMessage, newBotMessage];
 
-        setMessages(prev => [...prev, newBotMessage]);
+        saveThread({
+            ...thread,
+            title: titleForMessages(threadMessages),
+            updatedAt: new Date().toISOString(),
+            messages: threadMessages,
+            turns: [...thread.turns, ...turns],
+        });
+        setPendingMessage(null);
+        setStreamingText('');
         setIsLoading(false);
     };
 
+    const handleNewConversation = () => {
+        startNewThread();
+        setShowThreads(false);
+    };
+
+    const handleSelectThread = (threadId: string) => {
+        selectThread(threadId);
+        setShowThreads(false);
+    };
+
     const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
             handleSend();
@@ -57,19 +94,75 @@ const Chatbot: React.FC = () => {
                     {/* Header */}
                     <div className="flex justify-between items-center p-4 border-b border-gray-200 dark:border-gray-800">
                         <h3 className="font-bold text-black dark:text-white">CodeHustlers Support</h3>
-                        <button onClick={() => setIsOpen(false)} className="text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">&times;</button>
+                        <div className="flex items-center space-x-3">
+                            <button
+                                onClick={() => setShowThreads(!showThreads)}
+                                disabled={isLoading}
+                                className="text-sm text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-50"
+                            >
+                                {showThreads ? 'Back to chat' : `Conversations (${threads.length})`}
+                            </button>
+                            <button
+                                onClick={handleNewConversation}
+                                disabled={isLoading}
+                                className="text-sm text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-50"
+                            >
+                                New
+                            </button>
+                            <button onClick={() => setIsOpen(false)} className="text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">&times;</button>
+                        </div>
                     </div>
 
+                    {showThreads ? (
+                    /* Conversations */
+                    <div className="flex-1 p-4 overflow-y-auto">
+                        {threads.length === 0 ? (
+                            <p className="text-sm text-center text-gray-500 dark:text-gray-400">No saved conversations yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {threads.map(thread => (
+                                    <li key={thread.id} className={`flex items-center justify-between p-3 rounded-lg border ${thread.id === activeThread?.id ? 'border-black dark:border-white' : 'border-gray-200 dark:border-gray-700'}`}>
+                                        <button onClick={() => handleSelectThread(thread.id)} className="flex-1 text-left min-w-0">
+                                            <p className="font-semibold text-black dark:text-white truncate">{thread.title}</p>
+                                            <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(thread.updatedAt).toLocaleString()}</p>
+                                        </button>
+                                        <button
+                                            onClick={() => deleteThread(thread.id)}
+                                            className="ml-2 text-xs text-red-500 hover:underline"
+                                            aria-label={`Delete conversation ${thread.title}`}
+                                        >
+                                            Delete
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    ) : (
+                    <>
                     {/* Messages */}
                     <div className="flex-1 p-4 overflow-y-auto">
                         {messages.map((msg, index) => (
-                            <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'} mb-3`}>
-                                <div className={`px-4 py-2 rounded-lg max-w-xs ${msg.sender === 'user' ? 'bg-black text-white dark:bg-white dark:text-black' : 'bg-gray-200 text-black dark:bg-gray-800 dark:text-white'}`}>
-                                    {msg.text}
-                                </div>
+                            <div key={index} className={`flex flex-col ${msg.sender === 'user' ? 'items-end' : 'items-start'} mb-3`}>
+                                {(msg.text || !msg.stopped) && (
+                                    <div className={`px-4 py-2 rounded-lg max-w-xs break-words ${msg.sender === 'user' ? 'bg-black text-white dark:bg-white dark:text-black' : 'bg-gray-200 text-black dark:bg-gray-800 dark:text-white'}`}>
+                                        {msg.sender === 'bot' ? <Markdown text={msg.text} /> : msg.text}
+                                    </div>
+                                )}
+                                {msg.analyses?.map((analysis, analysisIndex) => (
+                                    <ChatAnalysisCard key={analysisIndex} analysis={analysis} />
+                                ))}
+                                {msg.stopped && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Stopped</p>}
                             </div>
                         ))}
-                        {isLoading && (
+                        {isLoading && streamingText && (
+                            <div className="flex justify-start mb-3">
+                                <div className="px-4 py-2 rounded-lg max-w-xs break-words bg-gray-200 text-black dark:bg-gray-800 dark:text-white">
+                                    <Markdown text={streamingText} />
+                                </div>
+                            </div>
+                        )}
+                        {isLoading && !streamingText && (
                             <div className="flex justify-start mb-3">
                                 <div className="px-4 py-3 rounded-lg bg-gray-200 dark:bg-gray-800 text-black dark:text-white">
                                     <svg className="animate-spin h-5 w-5 text-black dark:text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -90,15 +183,23 @@ const Chatbot: React.FC = () => {
                                 value={userInput}
                                 onChange={(e) => setUserInput(e.target.value)}
                                 onKeyPress={handleKeyPress}
-                                placeholder="Ask a question..."
+                                placeholder="Ask a question or paste a message..."
                                 className="w-full bg-gray-100 dark:bg-gray-800 p-2 rounded-md border border-gray-300 dark:border-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white"
                                 disabled={isLoading}
                             />
-                            <button onClick={handleSend} disabled={isLoading} className="bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50">
-                                Send
-                            </button>
+                            {isLoading ? (
+                                <button onClick={cancel} className="bg-red-600 text-white font-bold py-2 px-4 rounded-md hover:bg-red-700">
+                                    Stop
+                                </button>
+                            ) : (
+                                <button onClick={handleSend} className="bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 disabled:opacity-50">
+                                    Send
+                                </button>
+                            )}
                         </div>
                     </div>
+                    </>
+                    )}
                 </div>
             )}
         </>
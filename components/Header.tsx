@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import type { Page, User } from '../types';
+import type { LanguageCode, Page, User } from '../types';
 import { NAV_LINKS, ICONS } from '../constants';
+import { LANGUAGE_CODES, LANGUAGES } from '../services/language';
 
 interface HeaderProps {
   isLoggedIn: boolean;
@@ -9,9 +10,11 @@ interface HeaderProps {
   toggleDarkMode: () => void;
   user: User | null;
   onLogout: () => void;
+  language: LanguageCode;
+  onLanguageChange: (language: LanguageCode) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ isLoggedIn, onNavigate, isDarkMode, toggleDarkMode, user, onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ isLoggedIn, onNavigate, isDarkMode, toggleDarkMode, user, onLogout, language, onLanguageChange }) => {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -57,6 +60,19 @@ const Header: React.FC<HeaderProps> = ({ isLoggedIn, onNavigate, isDarkMode, tog
                 ))}
                 </div>
             </div>
+            <label className="flex items-center">
+              <span className="sr-only">Answer language</span>
+              <select
+                value={language}
+                onChange={(e) => onLanguageChange(e.target.value as LanguageCode)}
+                title="Language for results and answers"
+                className="p-1.5 bg-transparent text-sm font-medium text-gray-700 dark:text-gray-200 rounded-md border border-gray-300 dark:border-gray-700 hover:bg-gray-200 dark:hover:bg-gray-800 focus:outline-none dark:[color-scheme:dark]"
+              >
+                {LANGUAGE_CODES.map(code => (
+                  <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>
+                ))}
+              </select>
+            </label>
             <button
               onClick={toggleDarkMode}
               className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white hover:bg-gray-200 dark:hover:bg-gray-800 focus:outline-none"
@@ -0,0 +1,95 @@
+import React from 'react';
+import { FindingSeverity, ImageFinding, ImageFindingCategory } from '../types';
+
+interface ImageFindingsProps {
+  explanation: string;
+  findings: ImageFinding[];
+  selected: number | null;
+  onSelect: (index: number) => void;
+}
+
+const CATEGORY_LABELS: Record<ImageFindingCategory, string> = {
+  hands: 'Hands',
+  face: 'Face',
+  background: 'Background',
+  'line-art': 'Line art',
+  lighting: 'Lighting',
+  text: 'Text',
+  layout: 'Layout',
+};
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  high: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+  low: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+type Segment = { text: string; finding: number | null };
+
+// Splits the explanation so the sentence each finding quotes can be linked to it.
+// Quotes that are not found, or overlap an earlier one, are left unlinked.
+const linkExcerpts = (explanation: string, findings: ImageFinding[]): Segment[] => {
+  const lower = explanation.toLowerCase();
+  const ranges = findings
+    .map((finding, index) => {
+      const excerpt = finding.excerpt?.replace(/[.\s]+$/, '').toLowerCase();
+      const start = excerpt ? lower.indexOf(excerpt) : -1;
+      return { start, end: start + (excerpt?.length ?? 0), finding: index };
+    })
+    .filter(range => range.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: Segment[] = [];
+  let position = 0;
+  for (const range of ranges) {
+    if (range.start < position) continue;
+    segments.push({ text: explanation.slice(position, range.start), finding: null });
+    segments.push({ text: explanation.slice(range.start, range.end), finding: range.finding });
+    position = range.end;
+  }
+  segments.push({ text: explanation.slice(position), finding: null });
+  return segments.filter(segment => segment.text);
+};
+
+// The model's explanation with each located flaw linked to its box on the
+// preview: selecting a flaw here highlights its box, and the other way round.
+const ImageFindings: React.FC<ImageFindingsProps> = ({ explanation, findings, selected, onSelect }) => (
+  <>
+    <p className="text-sm text-gray-600 dark:text-gray-300">
+      {linkExcerpts(explanation, findings).map((segment, index) =>
+        segment.finding === null ? (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ) : (
+          <button
+            key={index}
+            onClick={() => onSelect(segment.finding!)}
+            className={`inline text-left underline decoration-dotted underline-offset-2 rounded ${selected === segment.finding ? 'bg-yellow-200 dark:bg-yellow-700/60 text-black dark:text-white' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+          >
+            {segment.text}
+            <sup className="ml-0.5 font-semibold">{segment.finding + 1}</sup>
+          </button>
+        ),
+      )}
+    </p>
+    {findings.length > 0 && (
+      <ol className="mt-3 space-y-2">
+        {findings.map((finding, index) => (
+          <li key={index} id={`image-finding-${index}`}>
+            <button
+              onClick={() => onSelect(index)}
+              aria-pressed={selected === index}
+              className={`w-full text-left p-2 rounded-lg border text-sm transition ${selected === index ? 'border-black dark:border-white' : 'border-gray-200 dark:border-gray-700 hover:border-gray-400 dark:hover:border-gray-500'}`}
+            >
+              <span className="font-semibold mr-2">{index + 1}.</span>
+              <span className="font-medium mr-2">{CATEGORY_LABELS[finding.category]}</span>
+              <span className={`inline-block mr-2 px-2 py-0.5 rounded-full text-xs font-semibold ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+              <span className="text-gray-600 dark:text-gray-300">{finding.description}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    )}
+  </>
+);
+
+export default ImageFindings;
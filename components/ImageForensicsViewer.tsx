@@ -0,0 +1,143 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computeForensicOverlay, ForensicOverlay } from '../services/imageForensics';
+import { FindingSeverity, ForensicView, ImageFinding } from '../types';
+
+interface ImageForensicsViewerProps {
+  imageUrl: string;
+  // Flaws the model located, drawn as numbered boxes
+  findings?: ImageFinding[];
+  selectedFinding?: number | null;
+  onSelectFinding?: (index: number) => void;
+}
+
+const VIEWS: { view: ForensicView; label: string; help: string }[] = [
+  {
+    view: 'ela',
+    label: 'Error levels',
+    help: 'Bright areas changed more when the image was saved again as a JPEG. A patch much brighter than similar surroundings may have been pasted in or edited. Edges and fine texture are always brighter.',
+  },
+  {
+    view: 'noise',
+    label: 'Noise',
+    help: 'Shows the fine grain left after smoothing. A camera leaves an even grain, so a patch much smoother or grainier than its surroundings may come from somewhere else.',
+  },
+  {
+    view: 'copy-move',
+    label: 'Copy-move',
+    help: 'Highlights blocks of pixels that appear again elsewhere in the image, as left by cloning one part of an image over another.',
+  },
+];
+
+const BOX_COLORS: Record<FindingSeverity, string> = {
+  high: 'border-red-500 bg-red-500',
+  medium: 'border-yellow-400 bg-yellow-400',
+  low: 'border-gray-300 bg-gray-300',
+};
+
+// The uploaded image with forensic heatmaps that can be laid over it, and the
+// boxes of any flaws the model found. Each map is computed in the browser the
+// first time it is shown. Rendered with key={imageUrl}, so a new image starts
+// without maps.
+const ImageForensicsViewer: React.FC<ImageForensicsViewerProps> = ({ imageUrl, findings = [], selectedFinding = null, onSelectFinding }) => {
+  const [view, setView] = useState<ForensicView | null>(null);
+  const [overlays, setOverlays] = useState<Partial<Record<ForensicView, ForensicOverlay>>>({});
+  const [computing, setComputing] = useState<ForensicView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [opacity, setOpacity] = useState(0.7);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const overlay = view ? overlays[view] : undefined;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !overlay) return;
+    const { width, height, data } = overlay.pixels;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0);
+  }, [overlay]);
+
+  const toggleView = async (next: ForensicView) => {
+    setError(null);
+    if (view === next) {
+      setView(null);
+      return;
+    }
+    setView(next);
+    if (overlays[next]) return;
+    setComputing(next);
+    try {
+      const computed = await computeForensicOverlay(imageUrl, next);
+      setOverlays(current => ({ ...current, [next]: computed }));
+    } catch (err) {
+      console.error(`Failed to compute the ${next} view:`, err);
+      setError("This view couldn't be computed for this image.");
+      setView(current => (current === next ? null : current));
+    } finally {
+      setComputing(current => (current === next ? null : current));
+    }
+  };
+
+  const help = VIEWS.find(option => option.view === view)?.help;
+
+  return (
+    <div className="w-full flex flex-col items-center">
+      <div className="relative inline-block">
+        <img src={imageUrl} alt="Preview" className="block max-h-96 rounded-md" />
+        {overlay && (
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full rounded-md pointer-events-none"
+            style={{ opacity }}
+            aria-label={`${VIEWS.find(option => option.view === view)?.label} overlay`}
+          />
+        )}
+        {findings.map((finding, index) => (
+          <button
+            key={index}
+            onClick={() => onSelectFinding?.(index)}
+            aria-label={`Finding ${index + 1}: ${finding.description}`}
+            aria-pressed={selectedFinding === index}
+            className={`absolute border-2 rounded-sm transition ${BOX_COLORS[finding.severity]} ${selectedFinding === index ? 'bg-opacity-30 ring-2 ring-white' : 'bg-opacity-0 hover:bg-opacity-20'} ${selectedFinding !== null && selectedFinding !== index ? 'opacity-40' : ''}`}
+            style={{
+              left: `${finding.box.x * 100}%`,
+              top: `${finding.box.y * 100}%`,
+              width: `${finding.box.width * 100}%`,
+              height: `${finding.box.height * 100}%`,
+            }}
+          >
+            <span className={`absolute -top-2.5 -left-2.5 w-5 h-5 rounded-full text-xs font-bold leading-5 text-center text-black ${BOX_COLORS[finding.severity]} bg-opacity-100`}>{index + 1}</span>
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 flex flex-wrap justify-center gap-2" role="group" aria-label="Forensic views">
+        {VIEWS.map(option => (
+          <button
+            key={option.view}
+            onClick={() => toggleView(option.view)}
+            aria-pressed={view === option.view}
+            className={`px-3 py-1 rounded-full text-sm font-medium border transition ${view === option.view ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+          >
+            {computing === option.view ? 'Computing...' : option.label}
+          </button>
+        ))}
+      </div>
+      {overlay && (
+        <label className="mt-3 flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+          <span>Overlay strength</span>
+          <input type="range" min={0.1} max={1} step={0.1} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+        </label>
+      )}
+      {error && <p className="mt-2 text-red-500 text-sm">{error}</p>}
+      {help && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 text-center max-w-md">
+          {help}
+          {view === 'copy-move' && overlay && (overlay.copies ? ` Found ${overlay.copies} copied ${overlay.copies === 1 ? 'region' : 'regions'}.` : ' No copied regions were found.')}
+        </p>
+      )}
+      <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">Computed on this device; the image is not uploaded for these views.</p>
+    </div>
+  );
+};
+
+export default ImageForensicsViewer;
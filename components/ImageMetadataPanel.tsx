@@ -0,0 +1,62 @@
+import React from 'react';
+import { ImageMetadata, MetadataSource } from '../types';
+import DashboardCard from './DashboardCard';
+import { ICONS } from '../constants';
+
+const SOURCE_ORDER: MetadataSource[] = ['C2PA', 'EXIF', 'XMP', 'IPTC', 'PNG text'];
+
+const SOURCE_NOTES: Record<MetadataSource, string> = {
+  C2PA: 'Content Credentials. The signature is not verified here.',
+  EXIF: 'Written by the camera or the software that saved the file.',
+  XMP: 'Written by editing and generating software.',
+  IPTC: 'Captions and credits, mostly from news and stock photos.',
+  'PNG text': 'Text notes stored in the PNG file.',
+};
+
+// The metadata read from an uploaded image, grouped by where in the file it was found
+const ImageMetadataPanel: React.FC<{ metadata: ImageMetadata }> = ({ metadata }) => {
+  const { c2pa } = metadata;
+  const rows = (source: MetadataSource): { label: string; value: string }[] => {
+    if (source !== 'C2PA') return metadata.fields.filter(field => field.source === source);
+    if (!c2pa) return [];
+    return [
+      { label: 'Made with', value: c2pa.claimGenerator ?? '' },
+      { label: 'Title', value: c2pa.title ?? '' },
+      { label: 'Actions', value: c2pa.actions.join(', ') },
+      { label: 'Digital source type', value: c2pa.digitalSourceTypes.map(type => type.split('/').pop()).join(', ') },
+      { label: 'Software agents', value: c2pa.softwareAgents.join(', ') },
+      { label: 'Assertions', value: c2pa.assertions.join(', ') },
+    ].filter(row => row.value);
+  };
+  const sections = SOURCE_ORDER.map(source => ({ source, rows: rows(source) })).filter(section => section.rows.length > 0);
+
+  return (
+    <DashboardCard title="File Metadata" icon={ICONS.article}>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Read from the file on this device, without the model.</p>
+      {sections.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          No metadata found. Messaging and social media apps strip it, and so do most AI generators, so its absence says little either way.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {sections.map(({ source, rows: sectionRows }) => (
+            <div key={source}>
+              <h4 className="font-semibold">{source}</h4>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">{SOURCE_NOTES[source]}</p>
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+                {sectionRows.map(({ label, value }) => (
+                  <React.Fragment key={`${label}:${value}`}>
+                    <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                    <dd className="col-span-2 break-words">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </div>
+          ))}
+        </div>
+      )}
+    </DashboardCard>
+  );
+};
+
+export default ImageMetadataPanel;
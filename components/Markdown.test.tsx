@@ -0,0 +1,62 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import Markdown from './Markdown';
+
+// The markup without its styling, which is not what these tests are about
+const render = (text: string) =>
+  renderToStaticMarkup(<Markdown text={text} />).replace(/ class="[^"]*"/g, '').replace(/^<div>|<\/div>$/g, '');
+
+const LINK_ATTRIBUTES = 'target="_blank" rel="noopener noreferrer"';
+
+describe('Markdown', () => {
+  it('renders blocks', () => {
+    expect(render('## Stay safe\nNever share an OTP.\nBanks never ask.\n\n1. Hang up\n2. Call back\n\n- Report it')).toBe(
+      '<p>Stay safe</p><p>Never share an OTP.<br/>Banks never ask.</p>'
+      + '<ol start="1"><li>Hang up</li><li>Call back</li></ol><ul><li>Report it</li></ul>',
+    );
+  });
+
+  it('links web, mail and phone addresses only', () => {
+    expect(render('[Report](https://cybercrime.gov.in) or call [1930](tel:1930)')).toBe(
+      `<p><a href="https://cybercrime.gov.in/" ${LINK_ATTRIBUTES}>Report</a> or call <a href="tel:1930" ${LINK_ATTRIBUTES}>1930</a></p>`,
+    );
+    expect(render('See https://example.com/help.')).toBe(
+      `<p>See <a href="https://example.com/help" ${LINK_ATTRIBUTES}>https://example.com/help</a>.</p>`,
+    );
+  });
+
+  it('shows javascript: and other unsafe links as text', () => {
+    expect(render('[click me](javascript:alert(1))')).toBe('<p>click me</p>');
+    expect(render('[click me](JavaScript:alert`1`)')).toBe('<p>click me</p>');
+    expect(render('[open](data:text/html,hi) [file](file:///etc/passwd)')).toBe('<p>open file</p>');
+  });
+
+  it('keeps parentheses inside link addresses', () => {
+    expect(render('[Fake news](https://en.wikipedia.org/wiki/Fake_news_(disambiguation))')).toBe(
+      `<p><a href="https://en.wikipedia.org/wiki/Fake_news_(disambiguation)" ${LINK_ATTRIBUTES}>Fake news</a></p>`,
+    );
+  });
+
+  it('shows markup in the text as text', () => {
+    expect(render('<img src=x onerror="alert(1)"> <b>hi</b>')).toBe(
+      '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; &lt;b&gt;hi&lt;/b&gt;</p>',
+    );
+  });
+
+  it('nests emphasis', () => {
+    expect(render('**bold with *italic* inside**')).toBe('<p><strong>bold with <em>italic</em> inside</strong></p>');
+    expect(render('*italic with **bold** inside*')).toBe('<p><em>italic with <strong>bold</strong> inside</em></p>');
+    expect(render('***both***')).toBe('<p><strong><em>both</em></strong></p>');
+    expect(render('**[Helpline](https://example.com)**')).toBe(
+      `<p><strong><a href="https://example.com/" ${LINK_ATTRIBUTES}>Helpline</a></strong></p>`,
+    );
+  });
+
+  it('leaves unterminated markers as typed', () => {
+    expect(render('**still streaming')).toBe('<p>**still streaming</p>');
+    expect(render('a `half')).toBe('<p>a `half</p>');
+    expect(render('[half](https://example')).toBe(`<p>[half](<a href="https://example/" ${LINK_ATTRIBUTES}>https://example</a></p>`);
+    expect(render('snake_case_name and 2 * 3')).toBe('<p>snake_case_name and 2 * 3</p>');
+    expect(render('```\nconst otp = read()')).toBe('<pre>const otp = read()</pre>');
+  });
+});
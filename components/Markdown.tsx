@@ -0,0 +1,140 @@
+import React from 'react';
+
+// Renders the small subset of Markdown the chatbot writes: paragraphs, headings,
+// lists, code, bold, italics and links. It builds React elements and never HTML
+// strings, so any markup in the text is shown as text rather than run, and links
+// only open for web, mail and phone addresses. Text that is still streaming in
+// renders fine; an unclosed ** simply shows as typed until it is closed.
+
+type Block =
+  | { type: 'code'; text: string }
+  | { type: 'heading'; text: string }
+  | { type: 'list'; ordered: boolean; start: number; items: string[] }
+  | { type: 'paragraph'; lines: string[] };
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:', 'tel:'];
+
+const safeHref = (url: string): string | null => {
+  try {
+    const parsed = new URL(url);
+    return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+};
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d{1,3})[.)])\s+(.*)$/;
+
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const last = blocks[blocks.length - 1];
+
+    if (/^\s*```/.test(line)) {
+      const code: string[] = [];
+      for (index++; index < lines.length && !/^\s*```/.test(lines[index]); index++) code.push(lines[index]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+    if (!line.trim()) {
+      // A blank line ends a paragraph; lists may have blank lines between items
+      if (last?.type === 'paragraph') blocks.push({ type: 'paragraph', lines: [] });
+      continue;
+    }
+    const heading = /^\s*#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', text: heading[1] });
+      continue;
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = item[2] !== undefined;
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(item[3]);
+      } else {
+        blocks.push({ type: 'list', ordered, start: ordered ? Number(item[2]) : 1, items: [item[3]] });
+      }
+      continue;
+    }
+    // Indented lines carry on the list item above them
+    if (last?.type === 'list' && /^\s/.test(line)) {
+      last.items[last.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    if (last?.type === 'paragraph') {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: 'paragraph', lines: [line] });
+    }
+  }
+  return blocks.filter(block => block.type !== 'paragraph' || block.lines.length > 0);
+};
+
+// `code`, **bold**, __bold__, *italic*, _italic_, [text](url) and bare web addresses.
+// Italics may hold bold and ***text*** is both; link addresses may hold one level
+// of parentheses, as Wikipedia's do.
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*(?!\*)|__(.+?)__|\*([^*\s](?:(?:[^*]|\*\*[^*]+\*\*)*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"])/g;
+
+const renderInline = (text: string, keyPrefix = ''): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let position = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const [whole, code, bold, boldUnderscore, italic, italicUnderscore, linkText, linkUrl, bareUrl] = match;
+    const start = match.index ?? 0;
+    const key = `${keyPrefix}${start}`;
+    if (start > position) nodes.push(text.slice(position, start));
+    position = start + whole.length;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 rounded bg-black/10 dark:bg-white/10 font-mono text-[0.9em]">{code}</code>);
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold ?? boldUnderscore, `${key}-`)}</strong>);
+    } else if (italic !== undefined || italicUnderscore !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic ?? italicUnderscore, `${key}-`)}</em>);
+    } else {
+      const href = safeHref(linkUrl ?? bareUrl);
+      const label = linkText !== undefined ? renderInline(linkText, `${key}-`) : bareUrl;
+      nodes.push(href ? (
+        <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="underline hover:opacity-80 break-all">{label}</a>
+      ) : (
+        <React.Fragment key={key}>{label}</React.Fragment>
+      ));
+    }
+  }
+  if (position < text.length) nodes.push(text.slice(position));
+  return nodes;
+};
+
+const Markdown: React.FC<{ text: string }> = ({ text }) => (
+  <div className="space-y-2">
+    {parseBlocks(text).map((block, index) => {
+      switch (block.type) {
+        case 'code':
+          return <pre key={index} className="p-2 rounded-md bg-black/10 dark:bg-white/10 font-mono text-xs whitespace-pre-wrap break-words">{block.text}</pre>;
+        case 'heading':
+          return <p key={index} className="font-bold">{renderInline(block.text)}</p>;
+        case 'list': {
+          const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+          return block.ordered
+            ? <ol key={index} start={block.start} className="list-decimal pl-5 space-y-1">{items}</ol>
+            : <ul key={index} className="list-disc pl-5 space-y-1">{items}</ul>;
+        }
+        case 'paragraph':
+          return (
+            <p key={index}>
+              {block.lines.map((line, lineIndex) => (
+                <React.Fragment key={lineIndex}>
+                  {lineIndex > 0 && <br />}
+                  {renderInline(line)}
+                </React.Fragment>
+              ))}
+            </p>
+          );
+      }
+    })}
+  </div>
+);
+
+export default Markdown;
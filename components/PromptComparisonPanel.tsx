@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { AnalysisEnvelope, AnalysisTool } from '../types';
+import { AnalysisOptions, comparePromptVariants, getPromptVersions, PromptVariantRun } from '../services/geminiService';
+import { useCancellableRequest } from '../hooks/useCancellableRequest';
+
+interface PromptComparisonPanelProps<T> {
+  tool: AnalysisTool;
+  // Whether there is input to analyze yet
+  disabled: boolean;
+  run: (options: AnalysisOptions) => Promise<AnalysisEnvelope<T>>;
+  summarize: (result: T) => { verdict: string; detail: string };
+}
+
+// Lets analysts run the current input through two prompt versions and compare the
+// verdicts side by side. Only shown for tools with more than one registered version.
+const PromptComparisonPanel = <T,>({ tool, disabled, run, summarize }: PromptComparisonPanelProps<T>) => {
+  const versions = getPromptVersions(tool);
+  const activeVersion = versions.find(version => version.active)?.version ?? versions[0]?.version;
+  const latestVersion = versions[versions.length - 1]?.version;
+  const [selected, setSelected] = useState<[number, number]>([activeVersion, latestVersion]);
+  const [runs, setRuns] = useState<PromptVariantRun<T>[] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
+
+  if (versions.length < 2) return null;
+
+  const handleCompare = async () => {
+    const signal = startRequest();
+    setIsComparing(true);
+    setRuns(null);
+    try {
+      const results = await comparePromptVariants(selected, run, { signal });
+      if (signal.aborted) return;
+      setRuns(results);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      if (!signal.aborted) setIsComparing(false);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelRequest();
+    setIsComparing(false);
+  };
+
+  const selectVersion = (slot: 0 | 1, version: number) => {
+    setSelected(current => (slot === 0 ? [version, current[1]] : [current[0], version]));
+  };
+
+  return (
+    <details className="mt-8 p-6 rounded-2xl border border-gray-200 dark:border-gray-700 bg-white/50 dark:bg-gray-900/50 backdrop-blur-sm">
+      <summary className="cursor-pointer font-bold text-black dark:text-white">Compare prompt versions</summary>
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {([0, 1] as const).map(slot => (
+          <label key={slot} className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Variant {slot === 0 ? 'A' : 'B'}
+            <select
+              value={selected[slot]}
+              onChange={(e) => selectVersion(slot, Number(e.target.value))}
+              className="mt-1 block w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white"
+            >
+              {versions.map(version => (
+                <option key={version.version} value={version.version}>
+                  {version.label}{version.active ? ' (active)' : ''}
+                </option>
+              ))}
+            </select>
+            <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+              {versions.find(version => version.version === selected[slot])?.notes}
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="mt-4 flex items-center gap-4">
+        <button
+          onClick={handleCompare}
+          disabled={disabled || isComparing}
+          className="bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 text-sm transition-colors disabled:bg-gray-400 dark:disabled:bg-gray-600"
+        >
+          {isComparing ? 'Comparing...' : 'Run Comparison'}
+        </button>
+        {isComparing && (
+          <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+            Cancel
+          </button>
+        )}
+      </div>
+      {runs && (
+        <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {runs.map(({ version, envelope }, index) => {
+            const summary = envelope.status === 'ok' ? summarize(envelope.result) : null;
+            return (
+              <div key={index} className="p-4 rounded-lg bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{envelope.promptVersion} · {(envelope.latencyMs / 1000).toFixed(1)}s</p>
+                {summary ? (
+                  <>
+                    <p className="mt-1 font-bold text-black dark:text-white">{summary.verdict}</p>
+                    <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">{summary.detail}</p>
+                  </>
+                ) : (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                    No verdict from version {version} ({envelope.status}): {envelope.error}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default PromptComparisonPanel;
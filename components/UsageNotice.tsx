@@ -0,0 +1,31 @@
+import React from 'react';
+import { AnalysisTool } from '../types';
+import { useToolUsage } from '../hooks/useToolUsage';
+import { nextQuotaReset, USAGE_LABELS } from '../services/quotas';
+
+// Tells the user how much of today's allowance for a tool is left, and when it
+// comes back once it is used up.
+const UsageNotice: React.FC<{ tool: AnalysisTool }> = ({ tool }) => {
+  const usage = useToolUsage(tool);
+  if (!usage || usage.limit === null || usage.remaining === null) return null;
+
+  if (usage.remaining > 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+        {usage.remaining} of {usage.limit} {USAGE_LABELS[tool]} left today
+      </p>
+    );
+  }
+
+  const resetsAt = nextQuotaReset().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return (
+    <div role="status" className="w-full p-3 rounded-lg border border-dashed border-gray-400 dark:border-gray-600 text-center">
+      <p className="text-sm font-bold text-black dark:text-white">Daily limit reached</p>
+      <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+        You have used all {usage.limit} {USAGE_LABELS[tool]} for today. You can run new ones again after {resetsAt}.
+      </p>
+    </div>
+  );
+};
+
+export default UsageNotice;
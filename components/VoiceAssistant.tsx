@@ -1,182 +1,221 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { getVoiceAssistantResponse } from '../services/geminiService';
 import { ICONS } from '../constants';
-
-// Fix: Add type definitions for Web Speech API for TypeScript
-interface SpeechRecognitionErrorEvent extends Event {
-  error: string;
-  message: string;
-}
-
-interface SpeechRecognitionEvent extends Event {
-  results: {
-    [key: number]: {
-      [key: number]: {
-        transcript: string;
-        confidence: number;
-      };
-      isFinal: boolean;
-    };
-  };
+import { LANGUAGE_CODES, LANGUAGES, isLanguageCode } from '../services/language';
+import { createBrowserRecognizer, createBrowserSynthesizer, SpeakingVoice, VoiceOption, watchBrowserVoices } from '../services/speech';
+import { createVoiceConversation, INITIAL_VOICE_STATE, VoiceConversation } from '../services/voiceConversation';
+import { runVoiceCommand } from '../services/voiceIntents';
+import { loadVoiceSettings, PITCH_RANGE, RATE_RANGE, saveVoiceSettings } from '../services/voiceSettings';
+import { LanguageCode, Page, VoiceSettings } from '../types';
+
+interface VoiceAssistantProps {
+    userId: string;
+    language: LanguageCode;
+    onNavigate: (page: Page) => void;
 }
 
-interface SpeechRecognition extends EventTarget {
-  continuous: boolean;
-  interimResults: boolean;
-  lang: string;
-  start(): void;
-  stop(): void;
-  abort(): void;
-  onstart: () => void;
-  onresult: (event: SpeechRecognitionEvent) => void;
-  onerror: (event: SpeechRecognitionErrorEvent) => void;
-  onend: () => void;
-}
+// Voices are tagged e.g. "hi-IN" or "hi_IN"; any region of the language will do
+const speaksLanguage = (voice: VoiceOption, locale: string) =>
+    voice.lang.toLowerCase().split(/[-_]/)[0] === locale.toLowerCase().split('-')[0];
 
-declare global {
-  interface Window {
-    webkitSpeechRecognition: new () => SpeechRecognition;
-  }
-}
-
-
-const VoiceAssistant: React.FC = () => {
+// Rendered with key={userId} so one user's conversation never carries over to the next
+const VoiceAssistant: React.FC<VoiceAssistantProps> = ({ userId, language, onNavigate }) => {
     const [isOpen, setIsOpen] = useState(false);
-    const [isListening, setIsListening] = useState(false);
-    const [isThinking, setIsThinking] = useState(false);
-    const [isSpeaking, setIsSpeaking] = useState(false);
-    const [transcript, setTranscript] = useState('');
-    const [response, setResponse] = useState('');
-
-    const recognitionRef = useRef<SpeechRecognition | null>(null);
+    const [voiceState, setVoiceState] = useState(INITIAL_VOICE_STATE);
+    // Off, the assistant answers once and stops instead of listening again
+    const [keepListening, setKeepListening] = useState(true);
+    const [isSupported, setIsSupported] = useState(true);
+    const [settings, setSettings] = useState(() => loadVoiceSettings(userId));
+    const [showSettings, setShowSettings] = useState(false);
+    const [voices, setVoices] = useState<VoiceOption[]>([]);
+
+    // Unless the user picks one, the assistant talks in the app's language
+    const voiceLanguage = settings.language ?? language;
+    const speechLocale = LANGUAGES[voiceLanguage].speechLocale;
+    const languageVoices = voices.filter(voice => speaksLanguage(voice, speechLocale));
+    const speakingVoice: SpeakingVoice = { locale: speechLocale, voiceURI: settings.voiceURI, rate: settings.rate, pitch: settings.pitch };
+
+    const conversationRef = useRef<VoiceConversation | null>(null);
+    // The conversation is created once, so it reads the latest props through refs
+    const voiceRef = useRef(speakingVoice);
+    const voiceLanguageRef = useRef(voiceLanguage);
+    const onNavigateRef = useRef(onNavigate);
+    const keepListeningRef = useRef(keepListening);
+    voiceRef.current = speakingVoice;
+    voiceLanguageRef.current = voiceLanguage;
+    onNavigateRef.current = onNavigate;
+    keepListeningRef.current = keepListening;
+
+    useEffect(() => watchBrowserVoices(setVoices), []);
 
     useEffect(() => {
-        if (!('webkitSpeechRecognition' in window)) {
+        const recognizer = createBrowserRecognizer();
+        const synthesizer = createBrowserSynthesizer();
+        if (!recognizer || !synthesizer) {
             console.error("Speech recognition not supported");
+            setIsSupported(false);
             return;
         }
-
-        const SpeechRecognition = window.webkitSpeechRecognition;
-        const recognition = new SpeechRecognition();
-        recognition.continuous = false;
-        recognition.interimResults = false;
-        recognition.lang = 'en-US';
-
-        recognition.onstart = () => {
-            setIsListening(true);
-            setTranscript('');
-            setResponse('');
-        };
-
-        recognition.onresult = (event) => {
-            const currentTranscript = event.results[0][0].transcript;
-            setTranscript(currentTranscript);
-            handleAiResponse(currentTranscript);
-        };
-
-        recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-            console.error("Speech recognition error:", event.error);
-            if (event.error === 'no-speech') {
-                setResponse("I didn't hear anything. Please tap the mic to try again.");
-            } else if (event.error !== 'aborted') {
-                setResponse("Sorry, I couldn't understand. Please try again.");
-            }
-            setIsListening(false);
-            setIsThinking(false);
-        };
-
-        recognition.onend = () => {
-            setIsListening(false);
-        };
-
-        recognitionRef.current = recognition;
+        const conversation = createVoiceConversation({
+            recognizer,
+            synthesizer,
+            // Commands like "open SMS checker" act on the app; anything else goes to the model
+            respond: (transcript, history, signal) =>
+                runVoiceCommand(transcript, { navigate: page => onNavigateRef.current(page) }, history, {
+                    signal,
+                    language: voiceLanguageRef.current,
+                }),
+            voice: () => voiceRef.current,
+            keepListening: () => keepListeningRef.current,
+            onChange: setVoiceState,
+        });
+        conversationRef.current = conversation;
+        return () => conversation.stop();
     }, []);
 
-    const handleAiResponse = async (text: string) => {
-        setIsListening(false);
-        setIsThinking(true);
-        const aiResponse = await getVoiceAssistantResponse(text);
-        setResponse(aiResponse);
-        setIsThinking(false);
-        speakResponse(aiResponse);
-    }
-    
-    const speakResponse = (text: string) => {
-        if (!text) return;
-        const utterance = new SpeechSynthesisUtterance(text);
-        utterance.onstart = () => setIsSpeaking(true);
-        utterance.onend = () => {
-            setIsSpeaking(false);
-            setIsOpen(false); // Close modal after speaking
-        };
-        utterance.onerror = (e) => {
-            console.error("Speech synthesis error", e);
-            setIsSpeaking(false);
-        };
-        window.speechSynthesis.speak(utterance);
-    }
-
-    const toggleListen = () => {
-        if (!isOpen) {
-            setIsOpen(true);
-        }
-        
-        if (isListening) {
-            recognitionRef.current?.stop();
-        } else if (!isSpeaking && !isThinking) {
-             // Clear previous state before starting
-            setResponse('');
-            setTranscript('');
-            recognitionRef.current?.start();
-        }
+    const { status, interimTranscript, transcript, reply, notice } = voiceState;
+
+    const handleMic = () => {
+        setIsOpen(true);
+        conversationRef.current?.start();
+    };
+
+    const updateSettings = (changes: Partial<VoiceSettings>) => {
+        setSettings(current => saveVoiceSettings(userId, { ...current, ...changes }));
+    };
+
+    // A voice only speaks its own language, so a new language starts from its default voice
+    const changeLanguage = (value: string) => {
+        updateSettings({ language: isLanguageCode(value) ? value : null, voiceURI: null });
     };
-    
+
     const closeAssistant = () => {
-        if (recognitionRef.current) {
-            recognitionRef.current.abort();
-        }
-        window.speechSynthesis.cancel();
-        setIsListening(false);
-        setIsThinking(false);
-        setIsSpeaking(false);
+        conversationRef.current?.stop();
         setIsOpen(false);
-    }
+    };
 
     const getStatusText = () => {
-        if (isListening) return "Listening...";
-        if (isThinking) return "Thinking...";
-        if (isSpeaking) return response; // Show response while speaking
-        if (transcript) return `"${transcript}"`;
-        if (response) return response;
-        return "Tap the mic and ask a question.";
+        if (!isSupported) return "Voice input isn't supported in this browser. Try Chrome or Edge.";
+        if (status === 'listening') return interimTranscript ? `"${interimTranscript}"` : "Listening...";
+        if (status === 'thinking') return "Thinking...";
+        if (reply) return reply;
+        if (notice) return notice;
+        return "Tap the mic and ask a question, or say \"open SMS checker\".";
+    };
+
+    const getMicHint = () => {
+        if (status === 'speaking') return "Tap the mic or start talking to interrupt";
+        if (status === 'listening') return "Tap the mic when you have finished";
+        if (status === 'idle') return "Tap the mic to talk";
+        return "";
     };
 
     return (
         <>
             <button
-                onClick={toggleListen}
-                className={`fixed bottom-6 left-6 bg-black dark:bg-white text-white dark:text-black p-4 rounded-full shadow-lg z-50 transform transition-transform hover:scale-110 ${isListening ? 'animate-pulse' : ''}`}
+                onClick={handleMic}
+                className={`fixed bottom-6 left-6 bg-black dark:bg-white text-white dark:text-black p-4 rounded-full shadow-lg z-50 transform transition-transform hover:scale-110 ${status === 'listening' ? 'animate-pulse' : ''}`}
                 aria-label="Open Voice Assistant"
             >
                 {ICONS.mic}
             </button>
             {isOpen && (
-                <div 
+                <div
                     className="fixed inset-0 bg-black/50 flex items-center justify-center z-40"
                     onClick={closeAssistant}
                 >
-                    <div 
+                    <div
                         className="bg-white dark:bg-black text-black dark:text-white rounded-2xl shadow-2xl p-8 w-full max-w-md mx-4 text-center flex flex-col items-center animate-fade-in-up"
                         onClick={(e) => e.stopPropagation()}
                     >
-                         <div className="w-20 h-20 rounded-full flex items-center justify-center mb-6 bg-gray-200 dark:bg-gray-800 relative">
+                        <button
+                            onClick={handleMic}
+                            disabled={!isSupported || status === 'thinking'}
+                            className="w-20 h-20 rounded-full flex items-center justify-center mb-2 bg-gray-200 dark:bg-gray-800 relative disabled:opacity-50"
+                            aria-label={status === 'speaking' ? 'Interrupt' : status === 'listening' ? 'Finish speaking' : 'Talk'}
+                        >
                             {React.cloneElement(ICONS.mic, { className: 'h-10 w-10'})}
-                            {(isListening || isThinking) && (
+                            {(status === 'listening' || status === 'thinking') && (
                                 <div className="absolute inset-0 rounded-full border-4 border-black dark:border-white animate-pulse"></div>
                             )}
+                        </button>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4 min-h-[16px]">{getMicHint()}</p>
+                        {transcript && status !== 'listening' && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">You said: "{transcript}"</p>
+                        )}
+                        <p className="text-lg font-medium min-h-[56px] flex items-center justify-center" aria-live="polite">{getStatusText()}</p>
+                        <label className="mt-6 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={keepListening}
+                                onChange={(e) => setKeepListening(e.target.checked)}
+                                className="rounded"
+                            />
+                            <span>Keep listening after each answer</span>
+                        </label>
+                        {showSettings && (
+                            <div className="mt-6 w-full space-y-4 text-left text-sm">
+                                <label className="block">
+                                    <span className="font-medium">Language</span>
+                                    <select
+                                        value={settings.language ?? ''}
+                                        onChange={(e) => changeLanguage(e.target.value)}
+                                        className="mt-1 block w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white"
+                                    >
+                                        <option value="">Same as the app ({LANGUAGES[language].nativeName})</option>
+                                        {LANGUAGE_CODES.map(code => (
+                                            <option key={code} value={code}>{LANGUAGES[code].nativeName}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="block">
+                                    <span className="font-medium">Voice</span>
+                                    <select
+                                        value={settings.voiceURI ?? ''}
+                                        onChange={(e) => updateSettings({ voiceURI: e.target.value || null })}
+                                        className="mt-1 block w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-black dark:text-white"
+                                    >
+                                        <option value="">Default</option>
+                                        {languageVoices.map(voice => (
+                                            <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                                        ))}
+                                    </select>
+                                    {languageVoices.length === 0 && (
+                                        <span className="mt-1 block text-xs text-gray-500 dark:text-gray-400">
+                                            This device has no {LANGUAGES[voiceLanguage].name} voice installed, so answers may be read in another voice.
+                                        </span>
+                                    )}
+                                </label>
+                                <label className="block">
+                                    <span className="font-medium">Speaking rate: {settings.rate.toFixed(1)}x</span>
+                                    <input
+                                        type="range"
+                                        min={RATE_RANGE.min}
+                                        max={RATE_RANGE.max}
+                                        step={0.1}
+                                        value={settings.rate}
+                                        onChange={(e) => updateSettings({ rate: Number(e.target.value) })}
+                                        className="mt-1 block w-full"
+                                    />
+                                </label>
+                                <label className="block">
+                                    <span className="font-medium">Pitch: {settings.pitch.toFixed(1)}</span>
+                                    <input
+                                        type="range"
+                                        min={PITCH_RANGE.min}
+                                        max={PITCH_RANGE.max}
+                                        step={0.1}
+                                        value={settings.pitch}
+                                        onChange={(e) => updateSettings({ pitch: Number(e.target.value) })}
+                                        className="mt-1 block w-full"
+                                    />
+                                </label>
+                            </div>
+                        )}
+                        <div className="mt-4 flex space-x-6">
+                            <button onClick={() => setShowSettings(!showSettings)} className="text-sm text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">{showSettings ? 'Hide settings' : 'Voice settings'}</button>
+                            <button onClick={() => conversationRef.current?.reset()} className="text-sm text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">New conversation</button>
+                            <button onClick={closeAssistant} className="text-sm text-gray-500 dark:text-gray-400 hover:text-black dark:hover:text-white">Close</button>
                         </div>
-                        <p className="text-lg font-medium min-h-[56px] flex items-center justify-center">{getStatusText()}</p>
-                        <button onClick={closeAssistant} className="mt-6 text-sm text-gray-500 dark:text-gray-400">Close</button>
                     </div>
                 </div>
             )}
@@ -184,4 +223,4 @@ const VoiceAssistant: React.FC = () => {
     );
 };
 
-export default VoiceAssistant;
\ No newline at end of file
+export default VoiceAssistant;
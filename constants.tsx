@@ -1,6 +1,5 @@
 
 
-import React from 'react';
 import type { Page } from './types';
 
 export const NAV_LINKS: { name: string; page: Page }[] = [
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+// Hands out an AbortSignal per request. Starting a new request or unmounting the
+// component aborts the previous one, so a page never updates state for a
+// request the user has walked away from.
+export const useCancellableRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const start = useCallback((): AbortSignal => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    return controller.signal;
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  return { start, cancel };
+};
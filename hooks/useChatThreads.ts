@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChatThread } from '../types';
+import { deleteChatThread, loadChatThreads, saveChatThread, syncChatThreads } from '../services/chatThreads';
+
+// The signed-in user's chatbot threads and the one being shown. A null active
+// thread is a new conversation that is only saved once something is said in it.
+export const useChatThreads = (userId: string) => {
+  const [threads, setThreads] = useState<ChatThread[]>(() => loadChatThreads(userId));
+  const [activeId, setActiveId] = useState<string | null>(() => threads[0]?.id ?? null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    void syncChatThreads(userId).then(synced => {
+      if (!isCurrent) return;
+      setThreads(synced);
+      // Pick up the latest conversation from another device unless one is already open
+      setActiveId(current => current ?? synced[0]?.id ?? null);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [userId]);
+
+  const saveThread = useCallback((thread: ChatThread) => {
+    setThreads(saveChatThread(userId, thread));
+    setActiveId(thread.id);
+  }, [userId]);
+
+  const deleteThread = useCallback((threadId: string) => {
+    setThreads(deleteChatThread(userId, threadId));
+    setActiveId(current => (current === threadId ? null : current));
+  }, [userId]);
+
+  return {
+    threads,
+    activeThread: threads.find(thread => thread.id === activeId) ?? null,
+    selectThread: setActiveId,
+    startNewThread: useCallback(() => setActiveId(null), []),
+    saveThread,
+    deleteThread,
+  };
+};
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { analyzeImageForAI } from '../services/geminiService';
+import { createTaskQueue, TaskQueue } from '../services/taskQueue';
+import { BatchItem } from '../types';
+
+export interface BatchImage extends BatchItem {
+  file: File;
+  previewUrl: string;
+}
+
+// A file to add, named by its path when it came from a folder
+export interface BatchFile {
+  file: File;
+  name: string;
+}
+
+export const BATCH_CONCURRENCY = 3;
+export const BATCH_MAX_FILE_SIZE = 4 * 1024 * 1024;
+export const BATCH_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const fileToBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+  });
+
+// Why a file can't be analyzed at all, so retrying it is pointless
+const rejectReason = (file: File): string | null => {
+  if (!BATCH_IMAGE_TYPES.includes(file.type)) return 'Not a PNG, JPG or WEBP image.';
+  if (file.size > BATCH_MAX_FILE_SIZE) return 'Larger than 4MB.';
+  return null;
+};
+
+// Failed or stopped, and worth trying again
+export const canRetry = (item: BatchImage) =>
+  (item.status === 'failed' || item.status === 'cancelled') && !rejectReason(item.file);
+
+let nextId = 0;
+
+// The images of a batch check and the queue that analyzes them a few at a
+// time. Leaving the page cancels whatever is still queued or running.
+export const useImageBatch = () => {
+  const [items, setItems] = useState<BatchImage[]>([]);
+  const itemsRef = useRef<BatchImage[]>([]);
+  const queueRef = useRef<TaskQueue | null>(null);
+  if (!queueRef.current) queueRef.current = createTaskQueue(BATCH_CONCURRENCY);
+
+  const update = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  useEffect(() => () => {
+    queueRef.current?.cancelAll();
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+  }, []);
+
+  const enqueue = useCallback((item: BatchImage) => {
+    queueRef.current!.add(item.id, async (signal) => {
+      update(item.id, { status: 'reading', envelope: null, error: null });
+      let base64: string;
+      try {
+        base64 = await fileToBase64(item.file);
+      } catch (err) {
+        console.error(`Failed to read ${item.name}:`, err);
+        if (!signal.aborted) update(item.id, { status: 'failed', error: "The file couldn't be read." });
+        return;
+      }
+      if (signal.aborted) return;
+      update(item.id, { status: 'analyzing' });
+      const envelope = await analyzeImageForAI(base64, item.file.type, { signal });
+      if (signal.aborted) return;
+      update(item.id, envelope.status === 'ok'
+        ? { status: 'done', envelope }
+        : { status: 'failed', envelope, error: envelope.error });
+    });
+  }, [update]);
+
+  const addFiles = useCallback((files: BatchFile[]) => {
+    const added = files.map(({ file, name }): BatchImage => {
+      const reason = rejectReason(file);
+      return {
+        id: `batch-${nextId++}`,
+        name,
+        size: file.size,
+        status: reason ? 'failed' : 'queued',
+        envelope: null,
+        error: reason,
+        file,
+        previewUrl: URL.createObjectURL(file),
+      };
+    });
+    setItems(current => [...current, ...added]);
+    added.filter(item => item.status === 'queued').forEach(enqueue);
+  }, [enqueue]);
+
+  const retry = useCallback((id: string) => {
+    const item = itemsRef.current.find(candidate => candidate.id === id);
+    if (!item || !canRetry(item)) return;
+    update(id, { status: 'queued', envelope: null, error: null });
+    enqueue(item);
+  }, [enqueue, update]);
+
+  const retryFailed = useCallback(() => {
+    itemsRef.current.filter(canRetry).forEach(item => retry(item.id));
+  }, [retry]);
+
+  const cancelAll = useCallback(() => {
+    queueRef.current!.cancelAll();
+    setItems(current => current.map(item =>
+      item.status === 'queued' || item.status === 'reading' || item.status === 'analyzing'
+        ? { ...item, status: 'cancelled', error: 'Stopped before it finished.' }
+        : item,
+    ));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    queueRef.current!.cancel(id);
+    const item = itemsRef.current.find(candidate => candidate.id === id);
+    if (item) URL.revokeObjectURL(item.previewUrl);
+    setItems(current => current.filter(candidate => candidate.id !== id));
+  }, []);
+
+  const clear = useCallback(() => {
+    queueRef.current!.cancelAll();
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems([]);
+  }, []);
+
+  return { items, addFiles, retry, retryFailed, cancelAll, remove, clear };
+};
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { AnalysisTool, ToolUsage } from '../types';
+import { getAllToolUsage, getToolUsage, getUsageVersion, subscribeToUsage } from '../services/usageTracker';
+
+// Today's usage for the signed-in user, re-rendering whenever an analysis is counted.
+// Null when nobody is signed in.
+export const useToolUsage = (tool: AnalysisTool): ToolUsage | null => {
+  useSyncExternalStore(subscribeToUsage, getUsageVersion);
+  return getToolUsage(tool);
+};
+
+export const useAllToolUsage = (): ToolUsage[] => {
+  useSyncExternalStore(subscribeToUsage, getUsageVersion);
+  return getAllToolUsage();
+};
@@ -16,6 +16,12 @@ const features: Feature[] = [
     description: 'Analyze images for signs of AI generation to verify authenticity.',
     path: 'dashboard/image',
   },
+  {
+    title: 'Batch Image Check',
+    icon: ICONS.image,
+    description: 'Check a whole folder of images at once and download the verdicts as a report.',
+    path: 'dashboard/batch',
+  },
   {
     title: 'Article Misinformation',
     icon: ICONS.article,
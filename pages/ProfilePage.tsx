@@ -1,5 +1,8 @@
 import React, { useState, useRef } from 'react';
 import { User } from '../types';
+import { useAllToolUsage } from '../hooks/useToolUsage';
+import { nextQuotaReset, USAGE_LABELS } from '../services/quotas';
+import { clearResultCache } from '../services/resultCache';
 
 interface ProfilePageProps {
   user: User;
@@ -11,9 +14,10 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onUpdateProfile, onLogo
   const [isEditing, setIsEditing] = useState(false);
   const [name, setName] = useState(user.name);
   const [nameError, setNameError] = useState('');
-  const [profileImageFile, setProfileImageFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(user.profileImageUrl);
+  const [cacheStatus, setCacheStatus] = useState<'idle' | 'clearing' | 'cleared'>('idle');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const usage = useAllToolUsage();
 
   const getInitials = (name: string) => {
     const names = name.split(' ');
@@ -26,7 +30,6 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onUpdateProfile, onLogo
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      setProfileImageFile(file);
       setPreviewUrl(URL.createObjectURL(file));
     }
   };
@@ -46,11 +49,16 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onUpdateProfile, onLogo
   const handleCancel = () => {
     setName(user.name);
     setNameError('');
-    setProfileImageFile(null);
     setPreviewUrl(user.profileImageUrl);
     setIsEditing(false);
   };
 
+  const handleClearCache = async () => {
+    setCacheStatus('clearing');
+    await clearResultCache();
+    setCacheStatus('cleared');
+  };
+
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setName(e.target.value);
     if(nameError) {
@@ -106,6 +114,49 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onUpdateProfile, onLogo
             </div>
         </div>
 
+        {usage.length > 0 && (
+            <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <h3 className="text-xl font-bold text-black dark:text-white">Today's Usage</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    Allowances reset at {nextQuotaReset().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                </p>
+                <ul className="mt-4 space-y-3">
+                    {usage.map(({ tool, used, limit, remaining }) => (
+                        <li key={tool}>
+                            <div className="flex justify-between text-sm">
+                                <span className="capitalize text-gray-800 dark:text-gray-200">{USAGE_LABELS[tool]}</span>
+                                <span className="font-medium text-black dark:text-white">
+                                    {limit === null ? `${used} used · unlimited` : `${remaining} of ${limit} left`}
+                                </span>
+                            </div>
+                            {limit !== null && (
+                                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mt-1">
+                                    <div className="h-2 rounded-full bg-black dark:bg-white" style={{ width: `${limit === 0 ? 100 : Math.min(used / limit, 1) * 100}%` }}></div>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-xl font-bold text-black dark:text-white">Cached Results</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Verdicts are kept on this device for a week so re-checking the same input gives the same answer. Clear them to have every check analyzed afresh.
+            </p>
+            <div className="mt-4 flex items-center space-x-4">
+                <button
+                    onClick={handleClearCache}
+                    disabled={cacheStatus === 'clearing'}
+                    className="bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-800 dark:text-white font-bold py-2 px-6 rounded-lg transition duration-300 disabled:opacity-50"
+                >
+                    Clear cached results
+                </button>
+                {cacheStatus === 'cleared' && <span className="text-sm text-gray-600 dark:text-gray-400">Cached results cleared.</span>}
+            </div>
+        </div>
+
         <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row items-center justify-between space-y-4 sm:space-y-0">
              {isEditing ? (
                 <div className="flex space-x-4">
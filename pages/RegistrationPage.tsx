@@ -3,7 +3,7 @@ import { User } from '../types';
 import Modal from '../components/Modal';
 
 interface RegistrationPageProps {
-  onRegister: (email: string) => void;
+  onRegister: (email: string, password: string) => void;
   onSwitchToLogin: () => void;
   onLogin: (credentials: { googleUser?: Partial<User> }) => void;
 }
@@ -77,7 +77,7 @@ const RegistrationPage: React.FC<RegistrationPageProps> = ({ onRegister, onSwitc
         if (enteredOtp === generatedOtp) {
           setError('');
           if (registrationType === 'email') {
-              onRegister(email);
+              onRegister(email, password);
           } else {
               onLogin({});
           }
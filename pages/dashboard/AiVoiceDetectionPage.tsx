@@ -1,14 +1,20 @@
 import React, { useState } from 'react';
 import { analyzeVoiceForAI } from '../../services/geminiService';
-import { AiVoiceDetectionResult, Page } from '../../types';
+import { AiVoiceDetectionResult, AnalysisEnvelope, Page } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import UsageNotice from '../../components/UsageNotice';
+import AnalysisDetails from '../../components/AnalysisDetails';
+import PromptComparisonPanel from '../../components/PromptComparisonPanel';
 import { ICONS } from '../../constants';
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
 
 const AiVoiceDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
     const [audioFile, setAudioFile] = useState<File | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<AiVoiceDetectionResult | null>(null);
+    const [analysis, setAnalysis] = useState<AnalysisEnvelope<AiVoiceDetectionResult> | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
@@ -18,7 +24,7 @@ const AiVoiceDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
                 return;
             }
             setAudioFile(file);
-            setResult(null);
+            setAnalysis(null);
             setError(null);
         }
     };
@@ -35,23 +41,30 @@ const AiVoiceDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
         });
     }
 
-    const handleDetect = async () => {
+    const handleDetect = async (bypassCache = false) => {
         if (!audioFile) return;
+        const signal = startRequest();
         setIsLoading(true);
-        setResult(null);
+        setAnalysis(null);
         setError(null);
 
         try {
             const base64Audio = await fileToBase64(audioFile);
-            const analysisResult = await analyzeVoiceForAI(base64Audio, audioFile.type);
-            setResult(analysisResult);
+            const envelope = await analyzeVoiceForAI(base64Audio, audioFile.type, { signal, bypassCache });
+            if (signal.aborted) return;
+            setAnalysis(envelope);
         } catch (err) {
             console.error(err);
-            setError("Failed to analyze the audio. Please try again.");
+            setError("Failed to read the audio file. Please try again.");
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
+
+    const handleCancel = () => {
+        cancelRequest();
+        setIsLoading(false);
+    };
     
     const ResultDisplay = ({ result }: { result: AiVoiceDetectionResult }) => {
         const isAI = result.classification === 'AI-Generated Voice';
@@ -119,7 +132,7 @@ const AiVoiceDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
                         {error && <p className="text-red-500 text-sm">{error}</p>}
                         
                         <button
-                            onClick={handleDetect}
+                            onClick={() => handleDetect()}
                             disabled={!audioFile || isLoading}
                             className="w-full bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-3 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                         >
@@ -132,16 +145,34 @@ const AiVoiceDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
                                 "Detect AI Voice"
                             )}
                         </button>
+                        {isLoading && (
+                            <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                Cancel
+                            </button>
+                        )}
+                        <UsageNotice tool="aivoice" />
                     </div>
                 </DashboardCard>
                 
-                {result && (
+                {analysis && analysis.status !== 'ok' && (
+                    <AnalysisFailureCard envelope={analysis} onRetry={handleDetect} />
+                )}
+
+                {analysis?.status === 'ok' && (
                     <div className="mt-8 animate-fade-in-up">
                         <DashboardCard title="Analysis Result" icon={ICONS.insights}>
-                           <ResultDisplay result={result} />
+                           <ResultDisplay result={analysis.result} />
+                           <AnalysisDetails envelope={analysis} onReanalyze={() => handleDetect(true)} />
                         </DashboardCard>
                     </div>
                 )}
+
+                <PromptComparisonPanel
+                    tool="aivoice"
+                    disabled={!audioFile || isLoading}
+                    run={async (options) => analyzeVoiceForAI(await fileToBase64(audioFile!), audioFile!.type, options)}
+                    summarize={(comparison) => ({ verdict: `${comparison.classification} (${comparison.confidence}%)`, detail: comparison.explanation })}
+                />
             </div>
         </div>
     );
@@ -1,33 +1,174 @@
 import React, { useState } from 'react';
-import { analyzeArticleContent } from '../../services/geminiService';
-import { ArticleAnalysisResult, Page } from '../../types';
+import { analyzeArticleContent, analyzeArticleContentStream } from '../../services/geminiService';
+import { fetchArticleFromUrl, formatArticleForAnalysis } from '../../services/articleImport';
+import { AnalysisEnvelope, ArticleAnalysisResult, ClaimCheck, ClaimVerdict, ExtractedArticle, Page, PartialArticleAnalysis } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import UsageNotice from '../../components/UsageNotice';
+import AnalysisDetails from '../../components/AnalysisDetails';
+import PromptComparisonPanel from '../../components/PromptComparisonPanel';
 import { ICONS } from '../../constants';
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
+
+const VERDICT_LABELS: Record<ClaimVerdict, string> = {
+    refuted: 'Refuted',
+    misleading: 'Misleading',
+    unverifiable: 'Unverifiable',
+    supported: 'Supported',
+};
+
+// Most concerning first; also the order of the filter buttons
+const VERDICT_ORDER: ClaimVerdict[] = ['refuted', 'misleading', 'unverifiable', 'supported'];
+
+const VERDICT_STYLES: Record<ClaimVerdict, string> = {
+    refuted: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+    misleading: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+    unverifiable: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+    supported: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+};
+
+type ClaimSort = 'article' | 'verdict' | 'confidence';
+
+// Claims from article-factcheck@1 have no verdict or confidence and sort last
+const verdictRank = (claim: ClaimCheck) => (claim.verdict ? VERDICT_ORDER.indexOf(claim.verdict) : VERDICT_ORDER.length);
+const byConfidence = (a: ClaimCheck, b: ClaimCheck) => (b.confidence ?? -1) - (a.confidence ?? -1);
+
+const sortClaims = (claims: ClaimCheck[], sort: ClaimSort): ClaimCheck[] => {
+    if (sort === 'verdict') {
+        return [...claims].sort((a, b) => verdictRank(a) - verdictRank(b) || byConfidence(a, b));
+    }
+    if (sort === 'confidence') {
+        return [...claims].sort(byConfidence);
+    }
+    return claims;
+};
+
+const ClaimList: React.FC<{ claims: ClaimCheck[] }> = ({ claims }) => (
+    <ul className="space-y-3">
+        {claims.map((item, index) => (
+            <li key={index} className="p-3 bg-gray-100 dark:bg-gray-800 rounded-md animate-fade-in-up">
+                {item.verdict && (
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${VERDICT_STYLES[item.verdict]}`}>{VERDICT_LABELS[item.verdict]}</span>
+                        {item.confidence !== undefined && <span className="text-xs text-gray-500 dark:text-gray-400">{item.confidence}% confidence</span>}
+                    </div>
+                )}
+                <p className="font-semibold">Claim: <span className="font-normal">{item.claim}</span></p>
+                <p className="font-semibold mt-1 text-sm">Verification: <span className="font-normal text-gray-600 dark:text-gray-300">{item.verification}</span></p>
+                {item.sources.length > 0 && (
+                    <div className="mt-2 text-sm">
+                        <span className="font-semibold">Sources: </span>
+                        {item.sources.map((source, sourceIndex) => (
+                            <React.Fragment key={source.url}>
+                                {sourceIndex > 0 && <span className="text-gray-400"> · </span>}
+                                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-black dark:text-white underline hover:opacity-80 break-all">
+                                    {source.title}
+                                </a>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+            </li>
+        ))}
+    </ul>
+);
+
+const ArticleSource: React.FC<{ article: ExtractedArticle }> = ({ article }) => (
+    <div className="md:col-span-2 p-4 bg-gray-100 dark:bg-gray-800 rounded-lg text-sm">
+        <h4 className="font-semibold text-lg mb-2">Article Source</h4>
+        <a href={article.url} target="_blank" rel="noopener noreferrer" className="font-semibold text-black dark:text-white underline hover:opacity-80 break-words">
+            {article.headline ?? article.url}
+        </a>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 mt-2 text-gray-600 dark:text-gray-300">
+            <dt className="font-semibold">Publisher</dt>
+            <dd>{article.publisher ?? 'Unknown'}</dd>
+            <dt className="font-semibold">Author</dt>
+            <dd>{article.author ?? 'Not stated'}</dd>
+            <dt className="font-semibold">Published</dt>
+            <dd>{article.publishedAt ? new Date(article.publishedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : 'Not stated'}</dd>
+        </dl>
+    </div>
+);
+
+type InputMode = 'text' | 'url';
 
 const ArticleAnalysisPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
+    const [inputMode, setInputMode] = useState<InputMode>('text');
     const [articleText, setArticleText] = useState('');
+    const [articleUrl, setArticleUrl] = useState('');
+    // The imported page the text came from; cleared once the text is edited by hand
+    const [sourceArticle, setSourceArticle] = useState<ExtractedArticle | null>(null);
+    const [isFetching, setIsFetching] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<ArticleAnalysisResult | null>(null);
+    const [analysis, setAnalysis] = useState<AnalysisEnvelope<ArticleAnalysisResult> | null>(null);
+    // What has streamed in so far; kept after a cancel or failure so the checked claims stay visible
+    const [progress, setProgress] = useState<PartialArticleAnalysis | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [verdictFilter, setVerdictFilter] = useState<ClaimVerdict | 'all'>('all');
+    const [claimSort, setClaimSort] = useState<ClaimSort>('article');
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
+
+    const result = analysis?.status === 'ok' ? analysis.result : null;
+    const analysisContent = sourceArticle ? formatArticleForAnalysis(sourceArticle) : articleText;
+    const visibleClaims = result
+        ? sortClaims(result.claims.filter(claim => verdictFilter === 'all' || claim.verdict === verdictFilter), claimSort)
+        : [];
     
-    const handleAnalyze = async () => {
-        if (!articleText.trim()) {
+    const beginRequest = () => {
+        const signal = startRequest();
+        setIsLoading(true);
+        setAnalysis(null);
+        setProgress(null);
+        setError(null);
+        setVerdictFilter('all');
+        return signal;
+    };
+
+    const streamAnalysis = async (content: string, signal: AbortSignal, bypassCache: boolean) => {
+        const envelope = await analyzeArticleContentStream(content, (update) => {
+            if (!signal.aborted) setProgress(update);
+        }, { signal, bypassCache });
+        if (signal.aborted) return;
+        setAnalysis(envelope);
+        setIsLoading(false);
+    };
+
+    const handleAnalyze = async (bypassCache = false) => {
+        if (!analysisContent.trim()) {
             setError("Article content cannot be empty.");
             return;
         }
-        setIsLoading(true);
-        setResult(null);
-        setError(null);
-        
+        await streamAnalysis(analysisContent, beginRequest(), bypassCache);
+    };
+
+    const handleImport = async () => {
+        if (!articleUrl.trim()) {
+            setError("Enter the link to an article.");
+            return;
+        }
+        const signal = beginRequest();
+        setIsFetching(true);
+        let article: ExtractedArticle;
         try {
-            const analysisResult = await analyzeArticleContent(articleText);
-            setResult(analysisResult);
+            article = await fetchArticleFromUrl(articleUrl.trim(), { signal });
         } catch (err) {
-            console.error(err);
-            setError("Failed to analyze the article. Please try again.");
-        } finally {
+            if (signal.aborted) return;
+            setError(err instanceof Error ? err.message : "Could not import the article.");
             setIsLoading(false);
+            return;
+        } finally {
+            setIsFetching(false);
         }
+        if (signal.aborted) return;
+        setSourceArticle(article);
+        setArticleText(article.body);
+        await streamAnalysis(formatArticleForAnalysis(article), signal, false);
+    };
+
+    const handleCancel = () => {
+        cancelRequest();
+        setIsFetching(false);
+        setIsLoading(false);
     };
     
     const getRiskColor = (risk: string) => {
@@ -46,38 +187,108 @@ const ArticleAnalysisPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ o
             </button>
             <h1 className="text-3xl font-bold mb-2 text-center text-black dark:text-white">Article Misinformation Analysis</h1>
             <p className="text-center text-gray-500 dark:text-gray-400 mb-8 max-w-2xl mx-auto">
-                Paste the content of an article below to check its credibility. The AI will fact-check claims and provide a risk assessment.
+                Paste the content of an article or a link to it below to check its credibility. The AI will fact-check claims and provide a risk assessment.
             </p>
 
             <div className="max-w-4xl mx-auto">
                  <DashboardCard title="Article Input" icon={ICONS.article}>
                      <div className="flex flex-col items-center space-y-4">
-                        <textarea
-                            value={articleText}
-                            onChange={(e) => setArticleText(e.target.value)}
-                            placeholder="Paste article text here..."
-                            className="w-full h-48 p-3 bg-gray-100 dark:bg-gray-800 rounded-md border border-gray-300 dark:border-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white transition"
-                            disabled={isLoading}
-                        />
+                        <div className="flex gap-2 self-start">
+                            {([['text', 'Paste Text'], ['url', 'From URL']] as const).map(([mode, label]) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => { setInputMode(mode); setError(null); }}
+                                    disabled={isLoading}
+                                    className={`text-sm font-semibold px-4 py-1.5 rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${inputMode === mode ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {inputMode === 'text' ? (
+                            <textarea
+                                value={articleText}
+                                onChange={(e) => { setArticleText(e.target.value); setSourceArticle(null); }}
+                                placeholder="Paste article text here..."
+                                className="w-full h-48 p-3 bg-gray-100 dark:bg-gray-800 rounded-md border border-gray-300 dark:border-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white transition"
+                                disabled={isLoading}
+                            />
+                        ) : (
+                            <div className="w-full">
+                                <input
+                                    type="url"
+                                    value={articleUrl}
+                                    onChange={(e) => setArticleUrl(e.target.value)}
+                                    onKeyDown={(e) => { if (e.key === 'Enter' && !isLoading) handleImport(); }}
+                                    placeholder="https://example.com/news/story"
+                                    className="w-full p-3 bg-gray-100 dark:bg-gray-800 rounded-md border border-gray-300 dark:border-gray-700 text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white transition"
+                                    disabled={isLoading}
+                                />
+                                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                    The page is downloaded and its article text extracted; switch to Paste Text to review or edit it.
+                                </p>
+                            </div>
+                        )}
                          {error && <p className="text-red-500 text-sm">{error}</p>}
                          <button
-                            onClick={handleAnalyze}
-                            disabled={isLoading || !articleText}
+                            onClick={() => inputMode === 'url' ? handleImport() : handleAnalyze()}
+                            disabled={isLoading || (inputMode === 'url' ? !articleUrl : !articleText)}
                             className="w-full bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-3 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                         >
                              {isLoading ? (
                                 <>
                                     <svg className="animate-spin -ml-1 mr-3 h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                                    Analyzing...
+                                    {isFetching ? 'Fetching Article...' : 'Analyzing...'}
                                 </>
                             ) : (
-                                "Analyze Article"
+                                inputMode === 'url' ? "Fetch & Analyze" : "Analyze Article"
                             )}
                          </button>
+                         {isLoading && (
+                             <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                 Cancel
+                             </button>
+                         )}
+                         <UsageNotice tool="article" />
                      </div>
                  </DashboardCard>
 
-                 {result && (
+                 {analysis && analysis.status !== 'ok' && (
+                     <AnalysisFailureCard envelope={analysis} onRetry={handleAnalyze} />
+                 )}
+
+                 {!result && progress && (progress.summary || progress.claims.length > 0) && (
+                     <div className="mt-8 animate-fade-in-up">
+                         <DashboardCard title={isLoading ? "Analysis in Progress" : "Partial Analysis"} icon={ICONS.insights}>
+                             {!isLoading && (
+                                 <p className="text-sm text-gray-600 dark:text-gray-300 mb-4 p-3 rounded-md border border-dashed border-gray-400 dark:border-gray-600">
+                                     The analysis stopped before it finished. Below is what was checked so far; there is no overall risk verdict.
+                                 </p>
+                             )}
+                             <div className="space-y-4">
+                                 {progress.summary && (
+                                     <div>
+                                         <h4 className="font-semibold text-lg mb-2">Summary</h4>
+                                         <p className="text-sm text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 p-3 rounded-md">{progress.summary}</p>
+                                     </div>
+                                 )}
+                                 {progress.claims.length > 0 && (
+                                     <div>
+                                         <h4 className="font-semibold text-lg mb-2">Claim Analysis</h4>
+                                         <ClaimList claims={progress.claims} />
+                                     </div>
+                                 )}
+                                 {isLoading && (
+                                     <p className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">
+                                         {progress.claims.length > 0 ? 'Checking further claims...' : 'Fact-checking claims...'}
+                                     </p>
+                                 )}
+                             </div>
+                         </DashboardCard>
+                     </div>
+                 )}
+
+                 {analysis && result && (
                      <div className="mt-8 animate-fade-in-up">
                          <DashboardCard title="Analysis Result" icon={ICONS.insights}>
                              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
@@ -89,6 +300,7 @@ const ArticleAnalysisPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ o
                                      <h4 className="font-semibold text-lg">Credibility Score</h4>
                                      <p className="font-bold text-2xl">{result.credibilityScore} / 100</p>
                                  </div>
+                                 {sourceArticle && <ArticleSource article={sourceArticle} />}
                              </div>
                              <div className="space-y-4">
                                  <div>
@@ -105,19 +317,51 @@ const ArticleAnalysisPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ o
                                 </div>
                                  <div>
                                      <h4 className="font-semibold text-lg mb-2">Claim Analysis</h4>
-                                     <ul className="space-y-3">
-                                         {result.claims.map((item, index) => (
-                                             <li key={index} className="p-3 bg-gray-100 dark:bg-gray-800 rounded-md">
-                                                 <p className="font-semibold">Claim: <span className="font-normal">{item.claim}</span></p>
-                                                 <p className="font-semibold mt-1 text-sm">Verification: <span className="font-normal text-gray-600 dark:text-gray-300">{item.verification}</span></p>
-                                             </li>
-                                         ))}
-                                     </ul>
+                                     {result.claims.length > 0 && (
+                                         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3">
+                                             <div className="flex flex-wrap gap-2">
+                                                 {(['all', ...VERDICT_ORDER] as const).map(verdict => {
+                                                     const count = verdict === 'all' ? result.claims.length : result.claims.filter(claim => claim.verdict === verdict).length;
+                                                     return (
+                                                         <button
+                                                             key={verdict}
+                                                             onClick={() => setVerdictFilter(verdict)}
+                                                             disabled={count === 0}
+                                                             className={`text-xs font-semibold px-3 py-1 rounded-full border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${verdictFilter === verdict ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+                                                         >
+                                                             {verdict === 'all' ? 'All' : VERDICT_LABELS[verdict]} ({count})
+                                                         </button>
+                                                     );
+                                                 })}
+                                             </div>
+                                             <label className="text-sm flex items-center gap-2">
+                                                 Sort by
+                                                 <select
+                                                     value={claimSort}
+                                                     onChange={(e) => setClaimSort(e.target.value as ClaimSort)}
+                                                     className="p-1 bg-gray-100 dark:bg-gray-800 rounded-md border border-gray-300 dark:border-gray-700 text-black dark:text-white"
+                                                 >
+                                                     <option value="article">Article order</option>
+                                                     <option value="verdict">Verdict</option>
+                                                     <option value="confidence">Confidence</option>
+                                                 </select>
+                                             </label>
+                                         </div>
+                                     )}
+                                     <ClaimList claims={visibleClaims} />
                                  </div>
                              </div>
+                             <AnalysisDetails envelope={analysis} onReanalyze={() => handleAnalyze(true)} />
                          </DashboardCard>
                      </div>
                  )}
+
+                <PromptComparisonPanel
+                    tool="article"
+                    disabled={!analysisContent.trim() || isLoading}
+                    run={(options) => analyzeArticleContent(analysisContent, options)}
+                    summarize={(comparison) => ({ verdict: `${comparison.riskLevel} risk · credibility ${comparison.credibilityScore}/100`, detail: comparison.summary })}
+                />
             </div>
         </div>
     );
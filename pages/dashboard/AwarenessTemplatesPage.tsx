@@ -1,31 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { generateAwarenessTemplateText, getTrendingTopics } from '../../services/geminiService';
-import { Page } from '../../types';
+import { AnalysisEnvelope, AwarenessTemplateContent, Page, TrendingTopic } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import UsageNotice from '../../components/UsageNotice';
 import { ICONS } from '../../constants';
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
+import { useToolUsage } from '../../hooks/useToolUsage';
 
 // Inform TypeScript about the global variable from the script tag in index.html
 declare const htmlToImage: any;
 
-interface TemplateContent {
-    title: string;
-    highlights: string[];
-    tips: string[];
-}
-
-interface Topic {
-    topic: string;
-    risk: string;
-    score: number;
-}
-
 const TemplateDisplay: React.FC<{ 
-    content: TemplateContent; 
+    content: AwarenessTemplateContent; 
     onCopy: () => void; 
     isCopied: boolean; 
     onDownloadText: () => void;
     onDownloadImage: () => void;
-    templateRef: React.RefObject<HTMLDivElement>;
+    templateRef: React.RefObject<HTMLDivElement | null>;
 }> = ({ content, onCopy, isCopied, onDownloadText, onDownloadImage, templateRef }) => {
     return (
         <div ref={templateRef} className="bg-slate-50 dark:bg-slate-800/50 p-6 sm:p-8 rounded-xl border border-gray-200 dark:border-gray-700 relative shadow-md font-sans">
@@ -96,13 +88,17 @@ const TemplateDisplay: React.FC<{
 const AwarenessTemplatesPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
     const [prompt, setPrompt] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<TemplateContent | null>(null);
+    const [generation, setGeneration] = useState<AnalysisEnvelope<AwarenessTemplateContent> | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
+    const templateUsage = useToolUsage('template');
     const [isCopied, setIsCopied] = useState(false);
-    const [trendingTopics, setTrendingTopics] = useState<Topic[]>([]);
+    const [trendingTopics, setTrendingTopics] = useState<TrendingTopic[]>([]);
     const [isTopicsLoading, setIsTopicsLoading] = useState(true);
     const templateRef = useRef<HTMLDivElement>(null);
 
+    const result = generation?.status === 'ok' ? generation.result : null;
+
     useEffect(() => {
         const topicFromNav = sessionStorage.getItem('templateTopic');
         if (topicFromNav) {
@@ -110,17 +106,17 @@ const AwarenessTemplatesPage: React.FC<{ onNavigate: (page: Page) => void }> = (
             sessionStorage.removeItem('templateTopic');
         }
 
+        const controller = new AbortController();
         const fetchTopics = async () => {
-            try {
-                const topics = await getTrendingTopics();
-                setTrendingTopics(topics);
-            } catch (error) {
-                console.error("Failed to fetch trending topics", error);
-            } finally {
-                setIsTopicsLoading(false);
+            const topics = await getTrendingTopics({ signal: controller.signal });
+            if (controller.signal.aborted) return;
+            if (topics.status === 'ok') {
+                setTrendingTopics(topics.result);
             }
+            setIsTopicsLoading(false);
         };
         fetchTopics();
+        return () => controller.abort();
     }, []);
 
     const handleGenerate = async () => {
@@ -128,19 +124,20 @@ const AwarenessTemplatesPage: React.FC<{ onNavigate: (page: Page) => void }> = (
             setError("Prompt cannot be empty.");
             return;
         }
+        const signal = startRequest();
         setIsLoading(true);
-        setResult(null);
+        setGeneration(null);
         setError(null);
 
-        try {
-            const generatedContent = await generateAwarenessTemplateText(prompt);
-            setResult(generatedContent);
-        } catch (err) {
-            console.error(err);
-            setError("Failed to generate the template. Please try again.");
-        } finally {
-            setIsLoading(false);
-        }
+        const envelope = await generateAwarenessTemplateText(prompt, { signal });
+        if (signal.aborted) return;
+        setGeneration(envelope);
+        setIsLoading(false);
+    };
+
+    const handleCancel = () => {
+        cancelRequest();
+        setIsLoading(false);
     };
     
     const handleCopyToClipboard = () => {
@@ -270,7 +267,7 @@ Be smart, stay safe.
                         {error && <p className="text-red-500 text-sm">{error}</p>}
                         <button
                             onClick={handleGenerate}
-                            disabled={isLoading || !prompt}
+                            disabled={isLoading || !prompt || templateUsage?.remaining === 0}
                             className="w-full bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-3 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                         >
                             {isLoading ? (
@@ -282,9 +279,19 @@ Be smart, stay safe.
                                 "Generate Template"
                             )}
                         </button>
+                        {isLoading && (
+                            <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                Cancel
+                            </button>
+                        )}
+                        <UsageNotice tool="template" />
                     </div>
                 </DashboardCard>
 
+                {generation && generation.status !== 'ok' && (
+                    <AnalysisFailureCard envelope={generation} onRetry={handleGenerate} />
+                )}
+
                 {result && (
                     <div className="mt-8 animate-fade-in-up">
                         <TemplateDisplay 
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BatchItemStatus, ImageDetectionResult, Page } from '../../types';
+import DashboardCard from '../../components/DashboardCard';
+import UsageNotice from '../../components/UsageNotice';
+import { ICONS } from '../../constants';
+import { BATCH_CONCURRENCY, BatchFile, BatchImage, canRetry, useImageBatch } from '../../hooks/useImageBatch';
+import { batchToCsv, batchToJson, batchVerdictLabel, createBatchReportZip, createThumbnail } from '../../services/batchReport';
+
+type VerdictFilter = 'all' | ImageDetectionResult['classification'] | 'failed' | 'pending';
+type SortOrder = 'added' | 'name' | 'confidence' | 'verdict';
+
+const FILTERS: { value: VerdictFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'AI-generated', label: 'AI-generated' },
+  { value: 'Authentic', label: 'Authentic' },
+  { value: 'Uncertain', label: 'Uncertain' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'pending', label: 'Pending' },
+];
+
+const SORT_ORDERS: { value: SortOrder; label: string }[] = [
+  { value: 'added', label: 'Order added' },
+  { value: 'name', label: 'File name' },
+  { value: 'confidence', label: 'Confidence' },
+  { value: 'verdict', label: 'Verdict' },
+];
+
+const PENDING: BatchItemStatus[] = ['queued', 'reading', 'analyzing'];
+const VERDICT_ORDER = ['AI-generated', 'Uncertain', 'Authentic'];
+
+const STATUS_TEXT: Record<BatchItemStatus, string> = {
+  queued: 'Waiting...',
+  reading: 'Reading file...',
+  analyzing: 'Analyzing...',
+  done: '',
+  failed: 'Failed',
+  cancelled: 'Stopped',
+};
+
+const matchesFilter = (item: BatchImage, filter: VerdictFilter) => {
+  switch (filter) {
+    case 'all': return true;
+    case 'failed': return item.status === 'failed' || item.status === 'cancelled';
+    case 'pending': return PENDING.includes(item.status);
+    default: return item.envelope?.status === 'ok' && item.envelope.result.classification === filter;
+  }
+};
+
+const compareItems = (order: SortOrder) => (a: BatchImage, b: BatchImage) => {
+  const resultA = a.envelope?.status === 'ok' ? a.envelope.result : null;
+  const resultB = b.envelope?.status === 'ok' ? b.envelope.result : null;
+  switch (order) {
+    case 'name': return a.name.localeCompare(b.name, undefined, { numeric: true });
+    // Highest first, items without a verdict last
+    case 'confidence': return (resultB?.confidence ?? -1) - (resultA?.confidence ?? -1);
+    case 'verdict': {
+      const rank = (label: string) => (VERDICT_ORDER.includes(label) ? VERDICT_ORDER.indexOf(label) : VERDICT_ORDER.length);
+      return rank(batchVerdictLabel(a)) - rank(batchVerdictLabel(b));
+    }
+    default: return 0;
+  }
+};
+
+const verdictColor = (label: string) => {
+  if (label === 'AI-generated') return 'text-red-500';
+  if (label === 'Authentic') return 'text-green-500';
+  if (label === 'Uncertain') return 'text-yellow-500';
+  return 'text-gray-500 dark:text-gray-400';
+};
+
+// Images only, so a folder's other files don't fill the list with failures
+const isImage = (file: File) => file.type.startsWith('image/');
+
+// Every image in a dropped folder, however deep, named by its path inside it
+const readEntry = async (entry: FileSystemEntry, path = ''): Promise<BatchFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    // A file dropped on its own is kept, so the user hears why it can't be checked
+    return !path || isImage(file) ? [{ file, name: `${path}${file.name}` }] : [];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries hands out a folder's contents a chunk at a time, until an empty chunk
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    entries.push(...chunk);
+  }
+  const files = await Promise.all(entries.map(child => readEntry(child, `${path}${entry.name}/`)));
+  return files.flat();
+};
+
+const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const BatchImagePage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
+  const { items, addFiles, retry, retryFailed, cancelAll, remove, clear } = useImageBatch();
+  const [filter, setFilter] = useState<VerdictFilter>('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('added');
+  const [isDragging, setIsDragging] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React doesn't know the folder picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const finished = items.filter(item => !PENDING.includes(item.status)).length;
+  const pending = items.length - finished;
+  const failed = items.filter(item => item.status === 'failed' || item.status === 'cancelled').length;
+  const retryable = items.filter(canRetry).length;
+  const analyzed = items.filter(item => item.status === 'done');
+
+  const shown = useMemo(
+    () => items.filter(item => matchesFilter(item, filter)).sort(compareItems(sortOrder)),
+    [items, filter, sortOrder],
+  );
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Files picked from a folder carry their path inside it
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files)
+        .filter(file => !file.webkitRelativePath || isImage(file))
+        .map(file => ({ file, name: file.webkitRelativePath || file.name })));
+    }
+    // Lets the same files be picked again
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    setError(null);
+    const entries = Array.from(e.dataTransfer.items)
+      .map(item => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    try {
+      const files = entries.length > 0
+        ? (await Promise.all(entries.map(entry => readEntry(entry)))).flat()
+        : Array.from(e.dataTransfer.files, file => ({ file, name: file.name }));
+      addFiles(files);
+    } catch (err) {
+      console.error('Failed to read the dropped files:', err);
+      setError("Some of the dropped files couldn't be read. Try choosing them instead.");
+    }
+  };
+
+  const exportName = (extension: string) => `codehustlers_batch_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  const handleExportReport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const thumbnails: Record<string, Uint8Array> = {};
+      // One at a time, so a large batch doesn't decode every image at once
+      for (const item of items) {
+        try {
+          thumbnails[item.id] = await createThumbnail(item.file);
+        } catch (err) {
+          console.error(`Failed to make a thumbnail of ${item.name}:`, err);
+        }
+      }
+      downloadFile(createBatchReportZip(items, thumbnails), exportName('zip'), 'application/zip');
+    } catch (err) {
+      console.error('Failed to build the report:', err);
+      setError("The report couldn't be built. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div>
+      <button onClick={() => onNavigate('dashboard')} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80 mb-4">
+        &larr; Back to Dashboard
+      </button>
+      <h1 className="text-3xl font-bold mb-2 text-center text-black dark:text-white">Batch Image Check</h1>
+      <p className="text-center text-gray-500 dark:text-gray-400 mb-8 max-w-2xl mx-auto">
+        Check a whole set of images for AI generation at once, then download the verdicts as a spreadsheet or a shareable report.
+      </p>
+
+      <div className="max-w-4xl mx-auto">
+        <DashboardCard title="Images" icon={ICONS.image}>
+          <div className="flex flex-col items-center space-y-4">
+            <input type="file" id="batch-upload" accept="image/png, image/jpeg, image/webp" multiple onChange={handleFileChange} className="hidden" />
+            <input type="file" id="batch-folder-upload" ref={folderInputRef} onChange={handleFileChange} className="hidden" />
+            <label
+              htmlFor="batch-upload"
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`w-full text-center cursor-pointer p-6 bg-gray-100 dark:bg-gray-800 rounded-lg border-2 border-dashed transition ${isDragging ? 'border-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+            >
+              <p className="font-semibold">Click to choose images, or drop images and folders here</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">PNG, JPG, WEBP up to 4MB each. {BATCH_CONCURRENCY} are analyzed at a time.</p>
+            </label>
+            <label htmlFor="batch-folder-upload" className="text-sm font-medium text-black dark:text-white underline hover:opacity-80 cursor-pointer">
+              Choose a folder
+            </label>
+
+            {error && <p className="text-red-500 text-sm">{error}</p>}
+
+            {items.length > 0 && (
+              <div className="w-full">
+                <div className="flex justify-between text-sm font-medium mb-1">
+                  <span>{finished} of {items.length} finished</span>
+                  {failed > 0 && <span className="text-red-500">{failed} failed</span>}
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3">
+                  <div className="h-3 rounded-full bg-black dark:bg-white transition-all" style={{ width: `${(finished / items.length) * 100}%` }}></div>
+                </div>
+                <div className="mt-3 flex flex-wrap justify-center gap-2">
+                  {pending > 0 && (
+                    <button onClick={cancelAll} className="px-3 py-1 rounded-full text-sm font-medium border border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition">
+                      Stop
+                    </button>
+                  )}
+                  {retryable > 0 && (
+                    <button onClick={retryFailed} className="px-3 py-1 rounded-full text-sm font-medium border border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition">
+                      Retry failed
+                    </button>
+                  )}
+                  <button onClick={clear} className="px-3 py-1 rounded-full text-sm font-medium border border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition">
+                    Clear all
+                  </button>
+                </div>
+              </div>
+            )}
+            <UsageNotice tool="image" />
+          </div>
+        </DashboardCard>
+
+        {items.length > 0 && (
+          <div className="mt-8">
+            <DashboardCard title="Results" icon={ICONS.insights}>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by verdict">
+                  {FILTERS.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setFilter(option.value)}
+                      aria-pressed={filter === option.value}
+                      className={`px-3 py-1 rounded-full text-sm font-medium border transition ${filter === option.value ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+                    >
+                      {option.label} ({items.filter(item => matchesFilter(item, option.value)).length})
+                    </button>
+                  ))}
+                </div>
+                <label className="flex items-center space-x-2 text-sm">
+                  <span>Sort by</span>
+                  <select
+                    value={sortOrder}
+                    onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                    className="p-1 border rounded-md bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600"
+                  >
+                    {SORT_ORDERS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                  </select>
+                </label>
+              </div>
+
+              {shown.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No images match this filter.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {shown.map(item => {
+                    const result = item.envelope?.status === 'ok' ? item.envelope.result : null;
+                    const verdict = batchVerdictLabel(item);
+                    return (
+                      <li key={item.id} className="py-3 flex items-start space-x-4">
+                        <img src={item.previewUrl} alt="" className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-100 dark:bg-gray-800" />
+                        <div className="flex-grow min-w-0">
+                          <p className="font-medium truncate" title={item.name}>{item.name}</p>
+                          {result ? (
+                            <>
+                              <p className={`text-sm font-bold ${verdictColor(verdict)}`}>{verdict} · {result.confidence}%</p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{result.explanation}</p>
+                            </>
+                          ) : (
+                            <p className={`text-sm ${item.status === 'failed' ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                              {STATUS_TEXT[item.status]}{item.error && ` — ${item.error}`}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex flex-col items-end space-y-1 flex-shrink-0">
+                          {canRetry(item) && (
+                            <button onClick={() => retry(item.id)} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                              Retry
+                            </button>
+                          )}
+                          <button onClick={() => remove(item.id)} className="text-xs text-gray-500 dark:text-gray-400 underline hover:opacity-80">
+                            Remove
+                          </button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              <div className="mt-6 flex flex-col sm:flex-row gap-3">
+                <button
+                  onClick={() => downloadFile(batchToCsv(items), exportName('csv'), 'text/csv')}
+                  disabled={analyzed.length === 0}
+                  className="flex-1 bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-2 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Download CSV
+                </button>
+                <button
+                  onClick={() => downloadFile(batchToJson(items), exportName('json'), 'application/json')}
+                  disabled={analyzed.length === 0}
+                  className="flex-1 bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-2 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Download JSON
+                </button>
+                <button
+                  onClick={handleExportReport}
+                  disabled={analyzed.length === 0 || isExporting}
+                  className="flex-1 bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-2 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isExporting ? 'Building report...' : 'Download report (.zip)'}
+                </button>
+              </div>
+              {pending > 0 && analyzed.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">{pending} still pending; downloads made now list them without a verdict.</p>
+              )}
+            </DashboardCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchImagePage;
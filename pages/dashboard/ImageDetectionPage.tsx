@@ -1,15 +1,57 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { analyzeImageForAI } from '../../services/geminiService';
-import { ImageDetectionResult, Page } from '../../types';
+import { readImageMetadata } from '../../services/imageMetadata';
+import { AnalysisEnvelope, ImageDetectionResult, ImageMetadata, ImageType, MetadataSignal, Page } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import UsageNotice from '../../components/UsageNotice';
+import AnalysisDetails from '../../components/AnalysisDetails';
+import PromptComparisonPanel from '../../components/PromptComparisonPanel';
+import ImageMetadataPanel from '../../components/ImageMetadataPanel';
+import ImageForensicsViewer from '../../components/ImageForensicsViewer';
+import ImageFindings from '../../components/ImageFindings';
 import { ICONS } from '../../constants';
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
+
+const SIGNAL_LABELS: Record<MetadataSignal, { label: string; className: string }> = {
+    'ai-generated': { label: 'AI generator', className: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300' },
+    'ai-edited': { label: 'Edited with AI', className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300' },
+    edited: { label: 'Edited', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300' },
+    camera: { label: 'Camera', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300' },
+};
+
+// The kinds of image the analysis has a protocol for, in the order they are offered
+const IMAGE_MODES: { type: ImageType; label: string; help: string }[] = [
+    { type: 'photograph', label: 'Photograph', help: 'Checks light, shadows, perspective and background detail, allowing for ordinary camera noise and editing.' },
+    { type: 'illustration', label: 'Illustration', help: 'Checks background objects, line art and hands in drawings, paintings, digital art and renders.' },
+    { type: 'portrait', label: 'Face / portrait', help: 'Checks faces for signs of a face swap or a generated face: blending seams, eyes, teeth and lighting.' },
+    { type: 'screenshot', label: 'Screenshot', help: 'Checks chats, posts and app screens for edited text, mismatched fonts and impossible details.' },
+    { type: 'document', label: 'Document', help: 'Checks IDs, certificates and receipts for edited fields, pasted stamps and signatures, and garbled fine print.' },
+];
+
+const modeLabel = (type: ImageType) => IMAGE_MODES.find(mode => mode.type === type)!.label;
 
 const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [metadata, setMetadata] = useState<ImageMetadata | null>(null);
+    const [selectedFinding, setSelectedFinding] = useState<number | null>(null);
+    // null lets the model decide what kind of image it is
+    const [imageType, setImageType] = useState<ImageType | null>(null);
+    // A file read that finishes after another file was picked is ignored
+    const selectedFileRef = useRef<File | null>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<ImageDetectionResult | null>(null);
+    const [analysis, setAnalysis] = useState<AnalysisEnvelope<ImageDetectionResult> | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
+
+    const result = analysis?.status === 'ok' ? analysis.result : null;
+
+    // Selecting a flaw again clears the selection
+    const selectFinding = (index: number) => {
+        setSelectedFinding(current => (current === index ? null : index));
+        document.getElementById(`image-finding-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files[0]) {
@@ -20,8 +62,15 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
             }
             setImageFile(file);
             setPreviewUrl(URL.createObjectURL(file));
-            setResult(null);
+            setMetadata(null);
+            setAnalysis(null);
+            setSelectedFinding(null);
+            setImageType(null);
             setError(null);
+            selectedFileRef.current = file;
+            file.arrayBuffer()
+                .then(buffer => selectedFileRef.current === file && setMetadata(readImageMetadata(new Uint8Array(buffer))))
+                .catch(err => console.error("Failed to read image metadata:", err));
         }
     };
     
@@ -37,23 +86,36 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
         });
     }
 
-    const handleDetect = async () => {
+    const handleDetect = async (bypassCache = false, type = imageType) => {
         if (!imageFile) return;
+        const signal = startRequest();
         setIsLoading(true);
-        setResult(null);
+        setAnalysis(null);
+        setSelectedFinding(null);
         setError(null);
 
         try {
             const base64Image = await fileToBase64(imageFile);
-            const analysisResult: ImageDetectionResult = await analyzeImageForAI(base64Image, imageFile.type);
-            setResult(analysisResult);
+            const envelope = await analyzeImageForAI(base64Image, imageFile.type, { signal, bypassCache, imageType: type ?? undefined });
+            if (signal.aborted) return;
+            setAnalysis(envelope);
         } catch (err) {
             console.error(err);
-            setError("Failed to analyze the image. Please try again.");
+            setError("Failed to read the image file. Please try again.");
         } finally {
-            setIsLoading(false);
+            if (!signal.aborted) setIsLoading(false);
         }
     };
+
+    const recheckAs = (type: ImageType) => {
+        setImageType(type);
+        handleDetect(false, type);
+    };
+
+    const handleCancel = () => {
+        cancelRequest();
+        setIsLoading(false);
+    };
     
     const getConfidenceColor = (confidence: number) => {
         if (confidence > 75) return 'bg-green-500';
@@ -81,9 +143,18 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
                             onChange={handleFileChange}
                             className="hidden"
                         />
-                        <label htmlFor="image-upload" className="w-full text-center cursor-pointer bg-gray-100 dark:bg-gray-800 p-6 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition">
+                        {previewUrl && (
+                            <ImageForensicsViewer
+                                key={previewUrl}
+                                imageUrl={previewUrl}
+                                findings={result?.findings}
+                                selectedFinding={selectedFinding}
+                                onSelectFinding={selectFinding}
+                            />
+                        )}
+                        <label htmlFor="image-upload" className={`w-full text-center cursor-pointer bg-gray-100 dark:bg-gray-800 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition ${previewUrl ? 'p-3' : 'p-6'}`}>
                             {previewUrl ? (
-                                <img src={previewUrl} alt="Preview" className="max-h-60 rounded-md mx-auto" />
+                                <p className="font-semibold">Choose a different image</p>
                             ) : (
                                 <div>
                                     <p className="font-semibold">Click to upload an image</p>
@@ -92,10 +163,31 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
                             )}
                         </label>
 
+                        <div className="w-full">
+                            <p className="text-sm font-semibold mb-2">Detection mode</p>
+                            <div className="flex flex-wrap gap-2" role="group" aria-label="Detection mode">
+                                {[{ type: null, label: 'Auto-detect' }, ...IMAGE_MODES].map(mode => (
+                                    <button
+                                        key={mode.type ?? 'auto'}
+                                        onClick={() => setImageType(mode.type)}
+                                        aria-pressed={imageType === mode.type}
+                                        className={`px-3 py-1 rounded-full text-sm font-medium border transition ${imageType === mode.type ? 'bg-black text-white border-black dark:bg-white dark:text-black dark:border-white' : 'border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white'}`}
+                                    >
+                                        {mode.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                                {imageType
+                                    ? IMAGE_MODES.find(mode => mode.type === imageType)!.help
+                                    : 'The model first decides whether this is a photograph, illustration, face, screenshot or document, then checks it the way that kind of image is faked.'}
+                            </p>
+                        </div>
+
                         {error && <p className="text-red-500 text-sm">{error}</p>}
                         
                         <button
-                            onClick={handleDetect}
+                            onClick={() => handleDetect()}
                             disabled={!imageFile || isLoading}
                             className="w-full bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-3 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                         >
@@ -111,10 +203,20 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
                                 "Detect AI"
                             )}
                         </button>
+                        {isLoading && (
+                            <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                Cancel
+                            </button>
+                        )}
+                        <UsageNotice tool="image" />
                     </div>
                 </DashboardCard>
                 
-                {result && (
+                {analysis && analysis.status !== 'ok' && (
+                    <AnalysisFailureCard envelope={analysis} onRetry={handleDetect} />
+                )}
+
+                {analysis && result && (
                     <div className="mt-8 animate-fade-in-up">
                         <DashboardCard title="Analysis Result" icon={ICONS.insights}>
                             <div className="space-y-4">
@@ -129,14 +231,70 @@ const ImageDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
                                     </div>
                                      <p className="text-right text-sm font-medium">{result.confidence}%</p>
                                 </div>
+                                {result.mode && (
+                                    <div>
+                                        <h4 className="font-semibold text-lg">Detection Mode</h4>
+                                        <p className="text-sm text-gray-600 dark:text-gray-300">
+                                            <span className="font-semibold text-black dark:text-white">{modeLabel(result.mode.type)}</span>
+                                            {result.mode.source === 'chosen' ? ', as you chose.' : `, detected automatically.${result.mode.reason ? ` ${result.mode.reason}` : ''}`}
+                                        </p>
+                                        <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                                            <span className="text-gray-500 dark:text-gray-400">Wrong kind of image? Check again as</span>
+                                            {IMAGE_MODES.filter(mode => mode.type !== result.mode!.type).map(mode => (
+                                                <button
+                                                    key={mode.type}
+                                                    onClick={() => recheckAs(mode.type)}
+                                                    disabled={isLoading}
+                                                    className="px-3 py-1 rounded-full text-sm font-medium border border-gray-300 dark:border-gray-600 hover:border-black dark:hover:border-white transition disabled:opacity-50"
+                                                >
+                                                    {mode.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
                                 <div>
                                     <h4 className="font-semibold text-lg">Explanation</h4>
-                                    <p className="text-sm text-gray-600 dark:text-gray-300">{result.explanation}</p>
+                                    <ImageFindings explanation={result.explanation} findings={result.findings} selected={selectedFinding} onSelect={selectFinding} />
                                 </div>
+                                {result.metadataEvidence && result.metadataEvidence.length > 0 && (
+                                    <div>
+                                        <h4 className="font-semibold text-lg">Metadata Evidence</h4>
+                                        {result.modelVerdict && (
+                                            <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+                                                The file's metadata says an AI generator made it, which outweighs the model's verdict from the pixels alone: {result.modelVerdict.classification} ({result.modelVerdict.confidence}%).
+                                            </p>
+                                        )}
+                                        <ul className="space-y-2">
+                                            {result.metadataEvidence.map((item, index) => (
+                                                <li key={index} className="text-sm text-gray-600 dark:text-gray-300">
+                                                    <span className={`inline-block mr-2 px-2 py-0.5 rounded-full text-xs font-semibold ${SIGNAL_LABELS[item.signal].className}`}>{SIGNAL_LABELS[item.signal].label}</span>
+                                                    <span className="text-xs text-gray-400 dark:text-gray-500 mr-1">{item.source}</span>
+                                                    {item.description}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                        <p className="text-xs text-gray-400 dark:text-gray-500 mt-2">Only AI generator metadata changes the verdict; camera and editing details are easily copied and are shown for context.</p>
+                                    </div>
+                                )}
                             </div>
+                            <AnalysisDetails envelope={analysis} onReanalyze={() => handleDetect(true)} />
                         </DashboardCard>
                     </div>
                 )}
+
+                {metadata && (
+                    <div className="mt-8">
+                        <ImageMetadataPanel metadata={metadata} />
+                    </div>
+                )}
+
+                <PromptComparisonPanel
+                    tool="image"
+                    disabled={!imageFile || isLoading}
+                    run={async (options) => analyzeImageForAI(await fileToBase64(imageFile!), imageFile!.type, { ...options, imageType: imageType ?? undefined })}
+                    summarize={(comparison) => ({ verdict: `${comparison.classification} (${comparison.confidence}%)`, detail: comparison.explanation })}
+                />
             </div>
         </div>
     );
@@ -1,34 +1,43 @@
 import React, { useState } from 'react';
-import { Page, SmsAnalysisResult } from '../../types';
+import { AnalysisEnvelope, Page, SmsAnalysisResult } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import UsageNotice from '../../components/UsageNotice';
+import AnalysisDetails from '../../components/AnalysisDetails';
+import PromptComparisonPanel from '../../components/PromptComparisonPanel';
 import { ICONS } from '../../constants';
 import { analyzeSmsForFraud } from '../../services/geminiService';
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
 
 const SmsFraudDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
     const [smsText, setSmsText] = useState('');
     const [messageType, setMessageType] = useState('alphanumeric');
     const [isLoading, setIsLoading] = useState(false);
-    const [result, setResult] = useState<SmsAnalysisResult | null>(null);
+    const [analysis, setAnalysis] = useState<AnalysisEnvelope<SmsAnalysisResult> | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
 
-    const handleAnalyze = async () => {
+    const result = analysis?.status === 'ok' ? analysis.result : null;
+
+    const handleAnalyze = async (bypassCache = false) => {
         if (!smsText.trim()) {
             setError("SMS message cannot be empty.");
             return;
         }
+        const signal = startRequest();
         setIsLoading(true);
-        setResult(null);
+        setAnalysis(null);
         setError(null);
 
-        try {
-            const analysisResult = await analyzeSmsForFraud(smsText, messageType);
-            setResult(analysisResult);
-        } catch (err) {
-            console.error(err);
-            setError("Failed to analyze the SMS. Please try again.");
-        } finally {
-            setIsLoading(false);
-        }
+        const envelope = await analyzeSmsForFraud(smsText, messageType, { signal, bypassCache });
+        if (signal.aborted) return;
+        setAnalysis(envelope);
+        setIsLoading(false);
+    };
+
+    const handleCancel = () => {
+        cancelRequest();
+        setIsLoading(false);
     };
 
     const getResultContent = () => {
@@ -73,7 +82,7 @@ const SmsFraudDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
             </button>
             <h1 className="text-3xl font-bold mb-2 text-center text-black dark:text-white">SMS Fraud Detection</h1>
             <p className="text-center text-gray-500 dark:text-gray-400 mb-8 max-w-2xl mx-auto">
-                Paste an SMS message and select the sender ID type to check for potential signs of fraud.
+                Paste an SMS message in English, Hindi, Hinglish or another Indian language and select the sender ID type to check for potential signs of fraud.
             </p>
 
             <div className="max-w-2xl mx-auto">
@@ -107,7 +116,7 @@ const SmsFraudDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
                         {error && <p className="text-red-500 text-sm">{error}</p>}
                         
                         <button
-                            onClick={handleAnalyze}
+                            onClick={() => handleAnalyze()}
                             disabled={isLoading || !smsText}
                             className="w-full bg-black hover:bg-gray-800 text-white dark:bg-white dark:hover:bg-gray-200 dark:text-black font-bold py-3 px-4 rounded-lg transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                         >
@@ -120,16 +129,34 @@ const SmsFraudDetectionPage: React.FC<{ onNavigate: (page: Page) => void }> = ({
                                 "Analyze SMS"
                             )}
                         </button>
+                        {isLoading && (
+                            <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                Cancel
+                            </button>
+                        )}
+                        <UsageNotice tool="sms" />
                     </div>
                 </DashboardCard>
                 
-                {result && (
+                {analysis && analysis.status !== 'ok' && (
+                    <AnalysisFailureCard envelope={analysis} onRetry={handleAnalyze} />
+                )}
+
+                {analysis && result && (
                     <div className="mt-8 animate-fade-in-up">
                         <DashboardCard title="Analysis Result" icon={ICONS.insights}>
                             {getResultContent()}
+                            <AnalysisDetails envelope={analysis} onReanalyze={() => handleAnalyze(true)} />
                         </DashboardCard>
                     </div>
                 )}
+
+                <PromptComparisonPanel
+                    tool="sms"
+                    disabled={!smsText.trim() || isLoading}
+                    run={(options) => analyzeSmsForFraud(smsText, messageType, options)}
+                    summarize={(comparison) => ({ verdict: comparison.classification === 'fraud' ? 'Fraud' : 'Safe', detail: comparison.explanation })}
+                />
             </div>
         </div>
     );
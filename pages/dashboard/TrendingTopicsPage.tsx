@@ -1,14 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { getTrendingTopics } from '../../services/geminiService';
-import { Page } from '../../types';
+import { AnalysisEnvelope, Page, TrendingTopic } from '../../types';
 import DashboardCard from '../../components/DashboardCard';
+import AnalysisFailureCard from '../../components/AnalysisFailureCard';
+import AnalysisDetails from '../../components/AnalysisDetails';
 import { ICONS } from '../../constants';
-
-interface Topic {
-    topic: string;
-    risk: string;
-    score: number;
-}
+import { useCancellableRequest } from '../../hooks/useCancellableRequest';
 
 const SkeletonLoader = () => (
     <ul className="space-y-4">
@@ -24,29 +21,26 @@ const SkeletonLoader = () => (
 );
 
 const TrendingTopicsPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ onNavigate }) => {
-    const [topics, setTopics] = useState<Topic[]>([]);
+    const [analysis, setAnalysis] = useState<AnalysisEnvelope<TrendingTopic[]> | null>(null);
     const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    const { start: startRequest, cancel: cancelRequest } = useCancellableRequest();
 
-    useEffect(() => {
-        const fetchTopics = async () => {
-            setIsLoading(true);
-            setError(null);
-            try {
-                const fetchedTopics = await getTrendingTopics();
-                if (fetchedTopics && fetchedTopics.length > 0) {
-                    setTopics(fetchedTopics);
-                } else {
-                     setError("No trending topics could be fetched at this time.");
-                }
-            } catch (err) {
-                console.error(err);
-                setError("Failed to fetch trending topics.");
-            } finally {
-                setIsLoading(false);
-            }
-        };
+    const fetchTopics = async () => {
+        const signal = startRequest();
+        setIsLoading(true);
+        setAnalysis(null);
+        const envelope = await getTrendingTopics({ signal });
+        if (signal.aborted) return;
+        setAnalysis(envelope);
+        setIsLoading(false);
+    };
 
+    const handleCancel = () => {
+        cancelRequest();
+        setIsLoading(false);
+    };
+
+    useEffect(() => {
         fetchTopics();
     }, []);
 
@@ -55,6 +49,10 @@ const TrendingTopicsPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
         onNavigate('dashboard/templates');
     };
     
+    // firstSeen is a calendar date; formatting it in UTC keeps it from shifting a day
+    const formatFirstSeen = (date: string) =>
+        new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
     const getRiskTextColor = (risk: string) => {
         switch (risk.toLowerCase()) {
             case 'high': return 'text-red-500';
@@ -77,30 +75,76 @@ const TrendingTopicsPage: React.FC<{ onNavigate: (page: Page) => void }> = ({ on
             <div className="max-w-3xl mx-auto">
                  <DashboardCard title="Current Trends" icon={ICONS.trending}>
                      {isLoading ? (
-                         <SkeletonLoader />
-                     ) : error ? (
-                         <p className="text-center text-red-500">{error}</p>
+                         <>
+                             <SkeletonLoader />
+                             <div className="text-center mt-4">
+                                 <button onClick={handleCancel} className="text-sm font-medium text-black dark:text-white underline hover:opacity-80">
+                                     Cancel
+                                 </button>
+                             </div>
+                         </>
+                     ) : !analysis ? (
+                         <div className="text-center py-4">
+                             <p className="text-gray-500 dark:text-gray-400">Loading was cancelled.</p>
+                             <button onClick={fetchTopics} className="mt-3 bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 text-sm transition-colors">
+                                 Load Topics
+                             </button>
+                         </div>
+                     ) : analysis.status !== 'ok' ? (
+                         <AnalysisFailureCard envelope={analysis} onRetry={fetchTopics} />
+                     ) : analysis.result.length === 0 ? (
+                         <p className="text-center text-gray-500 dark:text-gray-400">No trending topics could be fetched at this time.</p>
                      ) : (
-                         <ul className="space-y-4">
-                             {topics.map((item, index) => (
-                                <li key={index} className="p-4 bg-gray-100 dark:bg-gray-800 rounded-lg flex flex-col sm:flex-row sm:items-center sm:justify-between">
-                                     <div className="flex-grow mb-3 sm:mb-0 sm:pr-4">
-                                         <p className="font-semibold">{item.topic}</p>
-                                         <div className="flex items-center mt-1">
-                                            <p className={`text-sm font-bold ${getRiskTextColor(item.risk)}`}>Risk: {item.risk}</p>
-                                            <span className="mx-2 text-gray-400">|</span>
-                                            <p className="text-sm font-medium">Credibility: {item.score}/100</p>
-                                         </div>
-                                     </div>
-                                     <button 
-                                        onClick={() => handleCreateTemplate(item.topic)}
-                                        className="w-full sm:w-auto flex-shrink-0 bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 text-sm transition-colors"
-                                    >
-                                        Create Template
-                                    </button>
-                                 </li>
-                             ))}
-                         </ul>
+                         <>
+                             <ul className="space-y-4">
+                                 {analysis.result.map((item, index) => (
+                                    <li key={index} className="p-4 bg-gray-100 dark:bg-gray-800 rounded-lg">
+                                        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between">
+                                             <div className="flex-grow mb-3 sm:mb-0 sm:pr-4">
+                                                 <p className="font-semibold">{item.topic}</p>
+                                                 <div className="flex flex-wrap items-center mt-1">
+                                                    <p className={`text-sm font-bold ${getRiskTextColor(item.risk)}`}>Risk: {item.risk}</p>
+                                                    <span className="mx-2 text-gray-400">|</span>
+                                                    <p className="text-sm font-medium">Credibility: {item.score}/100</p>
+                                                    {item.firstSeen && (
+                                                        <>
+                                                            <span className="mx-2 text-gray-400">|</span>
+                                                            <p className="text-sm text-gray-500 dark:text-gray-400">First seen {formatFirstSeen(item.firstSeen)}</p>
+                                                        </>
+                                                    )}
+                                                 </div>
+                                                 {item.summary && <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">{item.summary}</p>}
+                                             </div>
+                                             <button 
+                                                onClick={() => handleCreateTemplate(item.topic)}
+                                                className="w-full sm:w-auto flex-shrink-0 bg-black text-white dark:bg-white dark:text-black font-bold py-2 px-4 rounded-md hover:bg-gray-800 dark:hover:bg-gray-200 text-sm transition-colors"
+                                            >
+                                                Create Template
+                                            </button>
+                                        </div>
+                                        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                                            {item.sources.length > 0 ? (
+                                                <>
+                                                    <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Where it is circulating</p>
+                                                    <ul className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+                                                        {item.sources.map(source => (
+                                                            <li key={source.url}>
+                                                                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-sm text-black dark:text-white underline hover:opacity-80 break-all">
+                                                                    {source.title}
+                                                                </a>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </>
+                                            ) : (
+                                                <p className="text-xs text-gray-500 dark:text-gray-400">No search results backed this topic, so treat it with extra caution.</p>
+                                            )}
+                                        </div>
+                                     </li>
+                                 ))}
+                             </ul>
+                             <AnalysisDetails envelope={analysis} />
+                         </>
                      )}
                 </DashboardCard>
             </div>
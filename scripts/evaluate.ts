@@ -0,0 +1,135 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { getPromptVersions } from "../services/geminiService";
+import { getDetectionProvider, setDetectionProvider } from "../services/providers";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { mockProvider } from "../services/providers/mockProvider";
+import { createRecordingProvider, createReplayProvider, Recording } from "../services/providers/recordedProvider";
+import { loadDataset, Sample } from "./evaluation/dataset";
+import { computeMetrics, Observation } from "./evaluation/metrics";
+import { EvaluationGroup, formatGroup } from "./evaluation/report";
+import { EVALUATED_TOOLS, EvaluatedTool, normalizeLabel, TOOL_DEFINITIONS } from "./evaluation/tools";
+
+// Measures detector accuracy against a labeled dataset by running every sample
+// through the same service layer the app uses. See evaluation/dataset.ts for the
+// dataset layout.
+//
+//   npm run eval -- <dataset> [--tools sms,article] [--versions active|all]
+//                  [--provider gemini|mock] [--record file.json | --replay file.json]
+//                  [--out report.json]
+
+const USAGE = 'Usage: npm run eval -- <dataset> [--tools sms,article] [--versions active|all] [--provider gemini|mock] [--record file.json | --replay file.json] [--out report.json]';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    tools: { type: 'string' },
+    versions: { type: 'string', default: 'active' },
+    provider: { type: 'string' },
+    record: { type: 'string' },
+    replay: { type: 'string' },
+    out: { type: 'string' },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(1);
+};
+
+const parseTools = (value: string | undefined): EvaluatedTool[] => {
+  if (!value) return EVALUATED_TOOLS;
+  return value.split(',').map(tool => tool.trim()).map(tool =>
+    (EVALUATED_TOOLS as string[]).includes(tool) ? tool as EvaluatedTool : fail(`Unknown tool "${tool}"`));
+};
+
+const setUpProvider = (): Recording | null => {
+  if (values.replay) {
+    if (values.record) fail('--record and --replay cannot be combined');
+    setDetectionProvider(createReplayProvider(JSON.parse(readFileSync(values.replay, 'utf8')) as Recording));
+    return null;
+  }
+  // Without --provider, use Gemini when a key is available and the mock otherwise
+  const providerId = values.provider ?? (process.env.GEMINI_API_KEY ? 'gemini' : 'mock');
+  if (providerId !== 'gemini' && providerId !== 'mock') {
+    fail(`Unknown provider "${providerId}"`);
+  }
+  const inner = providerId === 'gemini' ? geminiProvider : mockProvider;
+  setDetectionProvider(inner);
+  if (!values.record) return null;
+
+  const recording: Recording = { modelId: inner.modelId, responses: {} };
+  setDetectionProvider(createRecordingProvider(inner, recording));
+  return recording;
+};
+
+const evaluateGroup = async (tool: EvaluatedTool, version: number, samples: Sample[]): Promise<EvaluationGroup> => {
+  const observations: Observation[] = [];
+  const failures: EvaluationGroup['failures'] = [];
+  let promptVersion = '';
+  let modelId = getDetectionProvider().modelId;
+
+  for (const [index, sample] of samples.entries()) {
+    process.stderr.write(`\r${tool} v${version}: ${index + 1}/${samples.length}`);
+    const { envelope, prediction } = await TOOL_DEFINITIONS[tool].analyze(sample, { promptVersion: version });
+    promptVersion = envelope.promptVersion;
+    modelId = envelope.modelId;
+    if (envelope.status !== 'ok') {
+      failures.push({ source: sample.source, status: envelope.status, error: envelope.error });
+    }
+    observations.push({ truth: sample.label, predicted: prediction?.label ?? null, confidence: prediction?.confidence });
+  }
+  process.stderr.write('\n');
+
+  return { tool, promptVersion, modelId, metrics: computeMetrics(TOOL_DEFINITIONS[tool].classes, observations), failures };
+};
+
+const main = async () => {
+  const [datasetDir] = positionals;
+  if (!datasetDir) fail('Missing dataset directory');
+  if (values.versions !== 'active' && values.versions !== 'all') fail(`--versions must be "active" or "all"`);
+
+  if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+  const recording = setUpProvider();
+  const tools = parseTools(values.tools);
+
+  const samples: Sample[] = [];
+  for (const sample of loadDataset(datasetDir, tools)) {
+    const label = normalizeLabel(sample.tool, sample.label);
+    if (!label) {
+      console.warn(`Skipping ${sample.source}: unknown ${sample.tool} label "${sample.label}"`);
+      continue;
+    }
+    samples.push({ ...sample, label });
+  }
+
+  const groups: EvaluationGroup[] = [];
+  for (const tool of tools) {
+    const toolSamples = samples.filter(sample => sample.tool === tool);
+    if (toolSamples.length === 0) continue;
+    const versions = getPromptVersions(tool).filter(version => values.versions === 'all' || version.active);
+    for (const { version } of versions) {
+      groups.push(await evaluateGroup(tool, version, toolSamples));
+    }
+  }
+
+  if (groups.length === 0) {
+    fail(`No labeled samples found in ${datasetDir}`);
+  }
+  console.log(groups.map(formatGroup).join('\n\n'));
+
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify({ dataset: datasetDir, createdAt: new Date().toISOString(), groups }, null, 2));
+    console.log(`\nReport written to ${values.out}`);
+  }
+  if (recording && values.record) {
+    writeFileSync(values.record, JSON.stringify(recording));
+    console.log(`Recorded ${Object.keys(recording.responses).length} responses to ${values.record}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,153 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import { extname, join, relative } from "node:path";
+import { EvaluatedTool } from "./tools";
+
+// Expected dataset layout; every part is optional:
+//
+//   images/<label>/*.{png,jpg,webp}     label: ai-generated | authentic
+//   aivoice/<label>/*.{mp3,wav,...}     label: ai | human
+//   calls/<label>/*.{mp3,wav,...}       label: fraud | safe
+//   sms.csv                             columns: text, sender_type, label (fraud | safe)
+//   articles.csv                        columns: text, label (low | medium | high)
+
+export type SampleInput =
+  | { kind: 'file'; data: string; mimeType: string }
+  | { kind: 'sms'; content: string; senderType: string }
+  | { kind: 'article'; content: string };
+
+export interface Sample {
+  tool: EvaluatedTool;
+  // File path or CSV row, for error messages
+  source: string;
+  // Ground truth label as written in the dataset
+  label: string;
+  input: SampleInput;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.webm': 'audio/webm',
+  '.flac': 'audio/flac',
+};
+
+const FILE_FOLDERS: Partial<Record<EvaluatedTool, string>> = {
+  image: 'images',
+  aivoice: 'aivoice',
+  voice: 'calls',
+};
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and "" escapes
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header = [], ...records] = rows.filter(cells => cells.some(cell => cell.trim()));
+  const columns = header.map(column => column.trim().toLowerCase());
+  return records.map(cells => Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()])));
+};
+
+const readColumn = (record: Record<string, string>, names: string[], source: string): string => {
+  const name = names.find(candidate => record[candidate]);
+  if (!name) {
+    throw new Error(`${source}: missing a value for column '${names[0]}'`);
+  }
+  return record[name];
+};
+
+const loadFileSamples = (root: string, tool: EvaluatedTool, folder: string): Sample[] => {
+  const directory = join(root, folder);
+  if (!existsSync(directory)) return [];
+
+  return readdirSync(directory)
+    .filter(label => statSync(join(directory, label)).isDirectory())
+    .flatMap(label => readdirSync(join(directory, label))
+      .filter(file => MIME_TYPES[extname(file).toLowerCase()])
+      .sort()
+      .map(file => {
+        const path = join(directory, label, file);
+        return {
+          tool,
+          source: relative(root, path),
+          label,
+          input: { kind: 'file', data: readFileSync(path).toString('base64'), mimeType: MIME_TYPES[extname(file).toLowerCase()] },
+        } satisfies Sample;
+      }));
+};
+
+const loadCsvSamples = (root: string, file: string, toSample: (record: Record<string, string>, source: string) => Sample): Sample[] => {
+  const path = join(root, file);
+  if (!existsSync(path)) return [];
+  return parseCsv(readFileSync(path, 'utf8')).map((record, index) => toSample(record, `${file}:${index + 2}`));
+};
+
+export const loadDataset = (root: string, tools: EvaluatedTool[]): Sample[] => {
+  if (!existsSync(root)) {
+    throw new Error(`Dataset directory ${root} does not exist`);
+  }
+
+  return tools.flatMap((tool): Sample[] => {
+    const folder = FILE_FOLDERS[tool];
+    if (folder) {
+      return loadFileSamples(root, tool, folder);
+    }
+    if (tool === 'sms') {
+      return loadCsvSamples(root, 'sms.csv', (record, source) => ({
+        tool,
+        source,
+        label: readColumn(record, ['label'], source),
+        input: {
+          kind: 'sms',
+          content: readColumn(record, ['text', 'message', 'content'], source),
+          senderType: record.sender_type || record.sendertype || 'unknown',
+        },
+      }));
+    }
+    return loadCsvSamples(root, 'articles.csv', (record, source) => ({
+      tool,
+      source,
+      label: readColumn(record, ['label', 'risk_level', 'risklevel'], source),
+      input: { kind: 'article', content: readColumn(record, ['text', 'content', 'article'], source) },
+    }));
+  });
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { computeMetrics, Observation } from './metrics';
+
+const CLASSES = ['fraud', 'safe'];
+
+// Four fraud and four safe samples: one safe sample failed, one was answered
+// 'Uncertain', and one fraud verdict came without a confidence
+const OBSERVATIONS: Observation[] = [
+  { truth: 'fraud', predicted: 'fraud', confidence: 95 },
+  { truth: 'fraud', predicted: 'fraud', confidence: 85 },
+  { truth: 'fraud', predicted: 'safe', confidence: 60 },
+  { truth: 'fraud', predicted: 'fraud' },
+  { truth: 'safe', predicted: 'safe', confidence: 90 },
+  { truth: 'safe', predicted: 'fraud', confidence: 55 },
+  { truth: 'safe', predicted: 'Uncertain', confidence: 50 },
+  { truth: 'safe', predicted: null },
+];
+
+describe('computeMetrics', () => {
+  const metrics = computeMetrics(CLASSES, OBSERVATIONS);
+
+  it('counts failures, abstentions and accuracy over answered samples', () => {
+    expect(metrics.total).toBe(8);
+    expect(metrics.failed).toBe(1);
+    expect(metrics.abstained).toBe(1);
+    expect(metrics.accuracy).toBeCloseTo(4 / 7);
+  });
+
+  it('builds the confusion matrix with labels outside the classes last', () => {
+    expect(metrics.predictedLabels).toEqual(['fraud', 'safe', 'Uncertain']);
+    expect(metrics.confusion).toEqual({
+      fraud: { fraud: 3, safe: 1, Uncertain: 0 },
+      safe: { fraud: 1, safe: 1, Uncertain: 1 },
+    });
+  });
+
+  it('computes precision and recall per class', () => {
+    expect(metrics.classes).toEqual([
+      { label: 'fraud', precision: 0.75, recall: 0.75, support: 4 },
+      { label: 'safe', precision: 0.5, recall: 1 / 3, support: 3 },
+    ]);
+  });
+
+  it('bins confident verdicts by confidence', () => {
+    expect(metrics.calibration).toEqual([
+      { range: [50, 60], count: 1, meanConfidence: 0.55, accuracy: 0 },
+      { range: [60, 70], count: 1, meanConfidence: 0.6, accuracy: 0 },
+      { range: [80, 90], count: 1, meanConfidence: 0.85, accuracy: 1 },
+      { range: [90, 100], count: 2, meanConfidence: 0.925, accuracy: 1 },
+    ]);
+  });
+
+  it('weights each bin gap by its share of the scored verdicts', () => {
+    // (0.55 + 0.6 + 0.15) / 5 + 0.075 * 2 / 5
+    expect(metrics.expectedCalibrationError).toBeCloseTo(0.29);
+  });
+
+  it('puts full confidence in the last bin', () => {
+    const { calibration, expectedCalibrationError } = computeMetrics(CLASSES, [
+      { truth: 'fraud', predicted: 'fraud', confidence: 100 },
+      { truth: 'safe', predicted: 'safe', confidence: 100 },
+    ]);
+    expect(calibration).toEqual([{ range: [90, 100], count: 2, meanConfidence: 1, accuracy: 1 }]);
+    expect(expectedCalibrationError).toBe(0);
+  });
+
+  it('leaves out what cannot be measured', () => {
+    const empty = computeMetrics(CLASSES, [{ truth: 'fraud', predicted: null }, { truth: 'safe', predicted: 'safe' }]);
+    expect(empty.classes[0]).toEqual({ label: 'fraud', precision: null, recall: null, support: 0 });
+    expect(empty.calibration).toBeNull();
+    expect(empty.expectedCalibrationError).toBeNull();
+    expect(computeMetrics(CLASSES, []).accuracy).toBeNull();
+  });
+});
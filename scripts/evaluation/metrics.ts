@@ -0,0 +1,109 @@
+// A single labeled sample after it went through an analyzer. Failed analyses
+// have no predicted label and are reported separately from the metrics.
+export interface Observation {
+  truth: string;
+  predicted: string | null;
+  // The model's confidence in its predicted label, 0-100, where the tool reports one
+  confidence?: number;
+}
+
+export interface ClassMetrics {
+  label: string;
+  precision: number | null;
+  recall: number | null;
+  support: number;
+}
+
+export interface CalibrationBin {
+  range: [number, number];
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  failed: number;
+  accuracy: number | null;
+  // Predictions outside the ground-truth classes, e.g. 'Uncertain'
+  abstained: number;
+  classes: ClassMetrics[];
+  // matrix[truth][predicted]
+  confusion: Record<string, Record<string, number>>;
+  predictedLabels: string[];
+  calibration: CalibrationBin[] | null;
+  // Expected calibration error: the support-weighted gap between confidence and accuracy
+  expectedCalibrationError: number | null;
+}
+
+const CALIBRATION_BIN_WIDTH = 10;
+
+const ratio = (numerator: number, denominator: number) => (denominator === 0 ? null : numerator / denominator);
+
+const computeCalibration = (observations: Observation[]): Pick<EvaluationMetrics, 'calibration' | 'expectedCalibrationError'> => {
+  const scored = observations.filter(observation => observation.confidence !== undefined);
+  if (scored.length === 0) {
+    return { calibration: null, expectedCalibrationError: null };
+  }
+
+  const bins: CalibrationBin[] = [];
+  for (let lower = 0; lower < 100; lower += CALIBRATION_BIN_WIDTH) {
+    const upper = lower + CALIBRATION_BIN_WIDTH;
+    // The last bin includes 100
+    const members = scored.filter(({ confidence = 0 }) => confidence >= lower && (confidence < upper || upper === 100));
+    if (members.length === 0) continue;
+    const correct = members.filter(member => member.predicted === member.truth).length;
+    bins.push({
+      range: [lower, upper],
+      count: members.length,
+      meanConfidence: members.reduce((sum, member) => sum + (member.confidence ?? 0), 0) / members.length / 100,
+      accuracy: correct / members.length,
+    });
+  }
+
+  const expectedCalibrationError = bins.reduce(
+    (sum, bin) => sum + (bin.count / scored.length) * Math.abs(bin.meanConfidence - bin.accuracy),
+    0,
+  );
+  return { calibration: bins, expectedCalibrationError };
+};
+
+export const computeMetrics = (classes: string[], observations: Observation[]): EvaluationMetrics => {
+  const answered = observations.filter((observation): observation is Observation & { predicted: string } => observation.predicted !== null);
+  const predictedLabels = [...classes, ...new Set(answered.map(({ predicted }) => predicted).filter(label => !classes.includes(label)))];
+
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const truth of classes) {
+    confusion[truth] = Object.fromEntries(predictedLabels.map(label => [label, 0]));
+  }
+  for (const { truth, predicted } of answered) {
+    confusion[truth][predicted] += 1;
+  }
+
+  const classMetrics = classes.map(label => {
+    const truePositives = confusion[label][label];
+    const predictedAsLabel = classes.reduce((sum, truth) => sum + confusion[truth][label], 0);
+    const support = answered.filter(({ truth }) => truth === label).length;
+    return {
+      label,
+      precision: ratio(truePositives, predictedAsLabel),
+      recall: ratio(truePositives, support),
+      support,
+    };
+  });
+
+  const correct = answered.filter(({ truth, predicted }) => truth === predicted).length;
+  // Only confident verdicts are calibrated; abstentions carry no claim to check
+  const calibrated = answered.filter(({ predicted }) => classes.includes(predicted));
+
+  return {
+    total: observations.length,
+    failed: observations.length - answered.length,
+    accuracy: ratio(correct, answered.length),
+    abstained: answered.length - calibrated.length,
+    classes: classMetrics,
+    confusion,
+    predictedLabels,
+    ...computeCalibration(calibrated),
+  };
+};
@@ -0,0 +1,59 @@
+import { EvaluationMetrics } from "./metrics";
+import { EvaluatedTool } from "./tools";
+
+export interface EvaluationGroup {
+  tool: EvaluatedTool;
+  promptVersion: string;
+  modelId: string;
+  metrics: EvaluationMetrics;
+  failures: { source: string; status: string; error: string }[];
+}
+
+const MAX_LISTED_FAILURES = 5;
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+
+const table = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => '  ' + row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()).join('\n');
+};
+
+export const formatGroup = ({ tool, promptVersion, modelId, metrics, failures }: EvaluationGroup): string => {
+  const lines = [
+    `${tool} · ${promptVersion} · ${modelId}`,
+    `  samples ${metrics.total} · failed ${metrics.failed} · abstained ${metrics.abstained} · accuracy ${percent(metrics.accuracy)}`,
+    '',
+    table([
+      ['class', 'precision', 'recall', 'support'],
+      ...metrics.classes.map(({ label, precision, recall, support }) => [label, percent(precision), percent(recall), String(support)]),
+    ]),
+    '',
+    '  confusion matrix (rows: truth, columns: predicted)',
+    table([
+      ['', ...metrics.predictedLabels],
+      ...Object.entries(metrics.confusion).map(([truth, row]) => [truth, ...metrics.predictedLabels.map(label => String(row[label]))]),
+    ]),
+  ];
+
+  if (metrics.calibration) {
+    lines.push(
+      '',
+      `  calibration (expected calibration error ${percent(metrics.expectedCalibrationError)})`,
+      table([
+        ['confidence', 'samples', 'mean confidence', 'accuracy'],
+        ...metrics.calibration.map(bin => [`${bin.range[0]}-${bin.range[1]}`, String(bin.count), percent(bin.meanConfidence), percent(bin.accuracy)]),
+      ]),
+    );
+  }
+
+  if (failures.length > 0) {
+    lines.push('', '  failures');
+    for (const failure of failures.slice(0, MAX_LISTED_FAILURES)) {
+      lines.push(`    ${failure.source} (${failure.status}): ${failure.error}`);
+    }
+    if (failures.length > MAX_LISTED_FAILURES) {
+      lines.push(`    ... and ${failures.length - MAX_LISTED_FAILURES} more`);
+    }
+  }
+  return lines.join('\n');
+};
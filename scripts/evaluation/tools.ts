@@ -0,0 +1,82 @@
+import {
+  AnalysisOptions,
+  analyzeArticleContent,
+  analyzeCallForFraud,
+  analyzeImageForAI,
+  analyzeSmsForFraud,
+  analyzeVoiceForAI,
+} from "../../services/geminiService";
+import { AnalysisEnvelope, AnalysisTool } from "../../types";
+import { Sample } from "./dataset";
+
+export type EvaluatedTool = Extract<AnalysisTool, 'image' | 'aivoice' | 'voice' | 'sms' | 'article'>;
+
+export const EVALUATED_TOOLS: EvaluatedTool[] = ['image', 'aivoice', 'voice', 'sms', 'article'];
+
+export interface Prediction {
+  label: string;
+  confidence?: number;
+}
+
+export interface AnalysisOutcome {
+  envelope: AnalysisEnvelope<unknown>;
+  prediction: Prediction | null;
+}
+
+interface ToolDefinition {
+  // Ground truth classes, in the order they are reported
+  classes: string[];
+  // Lower-case dataset labels accepted for each class
+  labelAliases: Record<string, string>;
+  analyze: (sample: Sample, options: AnalysisOptions) => Promise<AnalysisOutcome>;
+}
+
+const outcome = <T,>(envelope: AnalysisEnvelope<T>, predict: (result: T) => Prediction): AnalysisOutcome => ({
+  envelope,
+  prediction: envelope.status === 'ok' ? predict(envelope.result) : null,
+});
+
+const wrongInput = (sample: Sample): never => {
+  throw new Error(`${sample.source}: unexpected input for the ${sample.tool} analyzer`);
+};
+
+export const TOOL_DEFINITIONS: Record<EvaluatedTool, ToolDefinition> = {
+  image: {
+    classes: ['AI-generated', 'Authentic'],
+    labelAliases: { 'ai-generated': 'AI-generated', ai: 'AI-generated', fake: 'AI-generated', authentic: 'Authentic', real: 'Authentic', human: 'Authentic' },
+    analyze: async (sample, options) => sample.input.kind === 'file'
+      ? outcome(await analyzeImageForAI(sample.input.data, sample.input.mimeType, options), result => ({ label: result.classification, confidence: result.confidence }))
+      : wrongInput(sample),
+  },
+  aivoice: {
+    classes: ['AI-Generated Voice', 'Human Voice'],
+    labelAliases: { 'ai-generated': 'AI-Generated Voice', ai: 'AI-Generated Voice', synthetic: 'AI-Generated Voice', human: 'Human Voice', real: 'Human Voice' },
+    analyze: async (sample, options) => sample.input.kind === 'file'
+      ? outcome(await analyzeVoiceForAI(sample.input.data, sample.input.mimeType, options), result => ({ label: result.classification, confidence: result.confidence }))
+      : wrongInput(sample),
+  },
+  voice: {
+    classes: ['Fraudulent Call', 'Safe Call'],
+    labelAliases: { fraud: 'Fraudulent Call', fraudulent: 'Fraudulent Call', scam: 'Fraudulent Call', safe: 'Safe Call', legitimate: 'Safe Call' },
+    analyze: async (sample, options) => sample.input.kind === 'file'
+      ? outcome(await analyzeCallForFraud(sample.input.data, sample.input.mimeType, options), result => ({ label: result.fraudAssessment, confidence: result.confidence }))
+      : wrongInput(sample),
+  },
+  sms: {
+    classes: ['fraud', 'safe'],
+    labelAliases: { fraud: 'fraud', scam: 'fraud', spam: 'fraud', safe: 'safe', ham: 'safe', legitimate: 'safe' },
+    analyze: async (sample, options) => sample.input.kind === 'sms'
+      ? outcome(await analyzeSmsForFraud(sample.input.content, sample.input.senderType, options), result => ({ label: result.classification }))
+      : wrongInput(sample),
+  },
+  article: {
+    classes: ['High', 'Medium', 'Low'],
+    labelAliases: { high: 'High', medium: 'Medium', low: 'Low' },
+    analyze: async (sample, options) => sample.input.kind === 'article'
+      ? outcome(await analyzeArticleContent(sample.input.content, options), result => ({ label: result.riskLevel }))
+      : wrongInput(sample),
+  },
+};
+
+export const normalizeLabel = (tool: EvaluatedTool, label: string): string | null =>
+  TOOL_DEFINITIONS[tool].labelAliases[label.trim().toLowerCase()] ?? null;
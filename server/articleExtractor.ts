@@ -0,0 +1,126 @@
+import { ExtractedArticle } from "../types";
+
+// Pulls the readable article out of a news page. Structured data (JSON-LD and
+// meta tags) is preferred where sites provide it; otherwise the body is taken from
+// the paragraphs inside <article>, <main> or <body>, without navigation, scripts
+// and other page furniture.
+
+// Enough for a long feature; anything beyond is cut off to keep the model call affordable
+const MAX_BODY_LENGTH = 20_000;
+// Shorter paragraphs are usually captions, bylines or buttons
+const MIN_PARAGRAPH_LENGTH = 25;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const toText = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+const readAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted ?? bare ?? '');
+  }
+  return attributes;
+};
+
+// <meta property="og:title" content="..."> and <meta name="author" content="...">, by key
+const readMetaTags = (html: string): Record<string, string> => {
+  const meta: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const { property, name, content } = readAttributes(tag);
+    const key = (property ?? name)?.toLowerCase();
+    if (key && content?.trim() && !(key in meta)) meta[key] = content.trim();
+  }
+  return meta;
+};
+
+type JsonLdNode = Record<string, unknown>;
+
+const ARTICLE_TYPES = /^(Article|NewsArticle|ReportageNewsArticle|AnalysisNewsArticle|OpinionNewsArticle|BlogPosting|Report)$/;
+
+const findJsonLdArticle = (html: string): JsonLdNode | null => {
+  const nodes: JsonLdNode[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (typeof value === 'object' && value !== null) {
+      nodes.push(value as JsonLdNode);
+      collect((value as JsonLdNode)['@graph']);
+    }
+  };
+  for (const [, json] of html.matchAll(/<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      collect(JSON.parse(json));
+    } catch {
+      // Broken structured data is common; the meta tags and HTML still work
+    }
+  }
+  return nodes.find(node => [node['@type']].flat().some(type => typeof type === 'string' && ARTICLE_TYPES.test(type))) ?? null;
+};
+
+// JSON-LD people and organisations may be a name, an object with a name, or a list of either
+const readName = (value: unknown): string | null => {
+  const names = [value].flat().map(item =>
+    typeof item === 'string' ? item : typeof item === 'object' && item !== null ? (item as JsonLdNode).name : null,
+  ).filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+  return names.length > 0 ? names.map(name => toText(name)).join(', ') : null;
+};
+
+const readText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? toText(value) : null;
+
+const readDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const PAGE_FURNITURE = /<(script|style|noscript|template|svg|nav|header|footer|aside|form|figure|button)\b[\s\S]*?<\/\1>/gi;
+
+const extractBody = (html: string): string => {
+  const cleaned = html.replace(/<!--[\s\S]*?-->/g, '').replace(PAGE_FURNITURE, ' ');
+  const container = /<article\b[\s\S]*<\/article>/i.exec(cleaned)?.[0]
+    ?? /<main\b[\s\S]*<\/main>/i.exec(cleaned)?.[0]
+    ?? /<body\b[\s\S]*<\/body>/i.exec(cleaned)?.[0]
+    ?? cleaned;
+  const paragraphs = [...container.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)]
+    .map(([, paragraph]) => toText(paragraph))
+    .filter(paragraph => paragraph.length >= MIN_PARAGRAPH_LENGTH);
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : toText(container);
+};
+
+export const extractArticle = (html: string, url: string): ExtractedArticle => {
+  const meta = readMetaTags(html);
+  const jsonLd = findJsonLdArticle(html);
+  const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const timeElement = /<time\b[^>]*datetime\s*=\s*["']([^"']+)["']/i.exec(html)?.[1];
+
+  // articleBody is plain text, so its paragraph breaks are kept
+  const structuredBody = typeof jsonLd?.articleBody === 'string'
+    ? decodeEntities(jsonLd.articleBody).replace(/[ \t]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim()
+    : null;
+  const htmlBody = extractBody(html);
+  // Some sites only put a teaser in articleBody, so the longer of the two wins
+  const body = structuredBody && structuredBody.length >= htmlBody.length ? structuredBody : htmlBody;
+
+  return {
+    url,
+    headline: readText(jsonLd?.headline) ?? meta['og:title'] ?? meta['twitter:title'] ?? (title ? toText(title) : null),
+    // article:author is often a profile URL rather than a name
+    author: readName(jsonLd?.author) ?? meta['author'] ?? [meta['article:author']].find(name => name && !/^https?:/i.test(name)) ?? null,
+    publisher: readName(jsonLd?.publisher) ?? meta['og:site_name'] ?? meta['application-name'] ?? new URL(url).hostname.replace(/^www\./, ''),
+    publishedAt: readDate(readText(jsonLd?.datePublished) ?? meta['article:published_time'] ?? meta['date'] ?? timeElement),
+    body: body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}…` : body,
+  };
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './articleFetcher';
+
+describe('isPrivateAddress', () => {
+  it('refuses local and private IPv4 ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('refuses local and private IPv6 ranges', () => {
+    for (const address of ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1']) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it('checks IPv4 addresses mapped into IPv6 as IPv4', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::FFFF:192.168.0.10')).toBe(true);
+    expect(isPrivateAddress('::ffff:93.184.216.34')).toBe(false);
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700::1111']) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { lookup } from "node:dns/promises";
+import { IncomingMessage, request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, LookupFunction } from "node:net";
+import { HttpError } from "./http";
+
+// Downloads article pages for the URL import. The server fetches whatever URL a
+// user pastes, so the default fetcher refuses anything that resolves to a private
+// or local address and follows redirects itself to check every hop. Each request
+// connects to the address that passed the check rather than resolving the name
+// again, so a site cannot answer the check with a public address and the
+// connection with a private one (DNS rebinding).
+
+export interface FetchedPage {
+  // Where the page was finally found, after redirects
+  url: string;
+  html: string;
+}
+
+export type PageFetcher = (url: URL, signal: AbortSignal) => Promise<FetchedPage>;
+
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const FETCH_TIMEOUT_MS = 15_000;
+
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10);
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8);
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16);
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12);
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16);
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+export const isPrivateAddress = (address: string): boolean => {
+  // IPv4 addresses mapped into IPv6 are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_RANGES.check(mapped[1], 'ipv4');
+  return PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+};
+
+// The address a host passed the check with; null lets the request resolve it
+interface CheckedAddress {
+  address: string;
+  family: number;
+}
+
+type HostCheck = (url: URL) => Promise<CheckedAddress | null>;
+
+const checkPublicHost: HostCheck = async (url) => {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true }).catch(() => []);
+  if (addresses.length === 0) {
+    throw new HttpError(422, `Could not find the site ${url.hostname}`);
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new HttpError(422, 'Only public web pages can be imported');
+  }
+  return addresses[0];
+};
+
+// Answers every lookup the connection makes with the checked address. TLS still
+// verifies the certificate against the host name.
+const pinnedLookup = (checked: CheckedAddress): LookupFunction => (_hostname, options, callback) => {
+  if (options.all) callback(null, [checked]);
+  else callback(null, checked.address, checked.family);
+};
+
+const requestPage = (url: URL, checked: CheckedAddress | null, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      signal,
+      headers: { 'Accept': 'text/html,application/xhtml+xml', 'User-Agent': 'CodeHustlers-ArticleImport/1.0' },
+      ...(checked ? { lookup: pinnedLookup(checked) } : {}),
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+
+// Reads at most MAX_PAGE_BYTES and decodes them with the charset the site declares
+const readPage = async (response: IncomingMessage): Promise<string> => {
+  const charset = /charset=([\w-]+)/i.exec(response.headers['content-type'] ?? '')?.[1] ?? 'utf-8';
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_PAGE_BYTES) {
+      response.destroy();
+      throw new HttpError(422, 'The page is too large to import');
+    }
+    chunks.push(chunk);
+  }
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return decoder.decode(Buffer.concat(chunks));
+};
+
+const downloadPage = async (start: URL, signal: AbortSignal, checkHost: HostCheck): Promise<FetchedPage> => {
+  const requestSignal = AbortSignal.any([signal, AbortSignal.timeout(FETCH_TIMEOUT_MS)]);
+  let url = start;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const checked = await checkHost(url);
+    let response: IncomingMessage;
+    try {
+      response = await requestPage(url, checked, requestSignal);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new HttpError(502, `Could not reach ${url.hostname}`);
+    }
+
+    const status = response.statusCode ?? 0;
+    const { location } = response.headers;
+    if (status < 200 || status >= 300) response.resume();
+    if (status >= 300 && status < 400 && location) {
+      url = new URL(location, url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new HttpError(422, 'The page redirected to an unsupported address');
+      }
+      continue;
+    }
+    if (status < 200 || status >= 300) {
+      throw new HttpError(422, `The page answered with status ${status}`);
+    }
+    if (!/html/i.test(response.headers['content-type'] ?? '')) {
+      response.destroy();
+      throw new HttpError(422, 'The link does not point to a web page');
+    }
+    return { url: url.toString(), html: await readPage(response) };
+  }
+  throw new HttpError(422, 'The page redirected too many times');
+};
+
+export const httpPageFetcher: PageFetcher = (url, signal) => downloadPage(url, signal, checkPublicHost);
+
+// Serves every page from a local fixture server instead of the web, so tests and
+// demos do not depend on live sites: https://news.example/story becomes
+// <origin>/news.example/story. Private addresses are allowed since that is the point.
+export const createFixturePageFetcher = (origin: string): PageFetcher => async (url, signal) => {
+  const fixtureUrl = new URL(`${url.hostname}${url.pathname}${url.search}`, origin.endsWith('/') ? origin : `${origin}/`);
+  const page = await downloadPage(fixtureUrl, signal, async () => null);
+  return { ...page, url: url.toString() };
+};
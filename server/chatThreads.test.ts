@@ -0,0 +1,54 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { ChatThread } from '../types';
+import { createChatThreadStore } from './chatThreads';
+
+const KEY = 'a'.repeat(64);
+const OTHER_KEY = 'b'.repeat(64);
+
+const thread = (id: string, updatedAt = '2026-10-01T10:00:00.000Z'): ChatThread => ({
+  id,
+  title: `Thread ${id}`,
+  createdAt: '2026-10-01T10:00:00.000Z',
+  updatedAt,
+  messages: [{ sender: 'user', text: 'Is this SMS a scam?' }],
+  turns: [],
+});
+
+describe('createChatThreadStore', () => {
+  const dirs: string[] = [];
+  const tempFile = () => {
+    const dir = mkdtempSync(join(tmpdir(), 'chat-threads-'));
+    dirs.push(dir);
+    return join(dir, 'chat-threads.json');
+  };
+
+  afterEach(() => {
+    for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps each key to its own threads', () => {
+    const store = createChatThreadStore('');
+    store.save(KEY, thread('one'));
+    store.save(KEY, thread('two', '2026-10-02T10:00:00.000Z'));
+    store.save(OTHER_KEY, thread('three'));
+    expect(store.list(KEY).map(saved => saved.id)).toEqual(['two', 'one']);
+    expect(store.list(OTHER_KEY).map(saved => saved.id)).toEqual(['three']);
+
+    store.remove(OTHER_KEY, 'one');
+    expect(store.list(KEY)).toHaveLength(2);
+    store.remove(KEY, 'one');
+    expect(store.list(KEY).map(saved => saved.id)).toEqual(['two']);
+  });
+
+  it('writes threads to the file under a hash of the key', () => {
+    const path = tempFile();
+    createChatThreadStore(path).save(KEY, thread('one'));
+    const file = readFileSync(path, 'utf8');
+    expect(file).not.toContain(KEY);
+    expect(Object.keys(JSON.parse(file))).toHaveLength(1);
+    expect(createChatThreadStore(path).list(KEY).map(saved => saved.id)).toEqual(['one']);
+  });
+});
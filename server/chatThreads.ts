@@ -0,0 +1,36 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { upsertChatThread } from "../services/chatThreads";
+import { ChatThread } from "../types";
+
+export interface ChatThreadStore {
+  list: (key: string) => ChatThread[];
+  save: (key: string, thread: ChatThread) => void;
+  remove: (key: string, threadId: string) => void;
+}
+
+// Threads are filed under a hash of the key the browser derives from the user's
+// sign-in, so the file on disk holds nothing that would open them.
+const fileKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+// Chatbot threads are kept in memory and, when CHAT_THREADS_FILE is set, written
+// to that JSON file so they survive a restart.
+export const createChatThreadStore = (path = process.env.CHAT_THREADS_FILE): ChatThreadStore => {
+  let threads: Record<string, ChatThread[]> = {};
+  if (path && existsSync(path)) {
+    try {
+      threads = JSON.parse(readFileSync(path, 'utf8')) as Record<string, ChatThread[]>;
+    } catch (error) {
+      console.warn(`Could not read chat threads from ${path}, starting empty:`, error);
+    }
+  }
+  const update = (key: string, userThreads: ChatThread[]) => {
+    threads[fileKey(key)] = userThreads;
+    if (path) writeFileSync(path, JSON.stringify(threads));
+  };
+  return {
+    list: key => threads[fileKey(key)] ?? [],
+    save: (key, thread) => update(key, upsertChatThread(threads[fileKey(key)] ?? [], thread)),
+    remove: (key, threadId) => update(key, (threads[fileKey(key)] ?? []).filter(thread => thread.id !== threadId)),
+  };
+};
@@ -0,0 +1,54 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+
+// Base64 audio uploads of up to 10MB grow by a third on the wire
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Raised by route handlers for problems with the request itself.
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export type JsonBody = Record<string, unknown>;
+
+export const readJsonBody = async (req: IncomingMessage): Promise<JsonBody> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body is too large');
+    }
+    chunks.push(chunk);
+  }
+  if (size === 0) return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+  return body as JsonBody;
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const requireString = (body: JsonBody, field: string): string => {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `'${field}' must be a non-empty string`);
+  }
+  return value;
+};
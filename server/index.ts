@@ -0,0 +1,349 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { isChatKind } from "../services/chatSetup";
+import { ResponseValidationError } from "../services/errors";
+import { isInputLanguage, isLanguageCode } from "../services/language";
+import { USAGE_LABELS } from "../services/quotas";
+import { isImageType } from "../services/validation";
+import { findPrompt, PromptId } from "../services/prompts";
+import { geminiProvider } from "../services/providers/geminiProvider";
+import { mockProvider } from "../services/providers/mockProvider";
+import {
+  ArticleStreamEvent,
+  ChatKind,
+  ChatStreamEvent,
+  ChatToolCall,
+  ChatToolResult,
+  ChatTurn,
+  DetectionProvider,
+  ProviderCallOptions,
+} from "../services/providers/types";
+import { AnalysisTool, ChatMessage, ChatThread, ImageType } from "../types";
+import { extractArticle } from "./articleExtractor";
+import { createFixturePageFetcher, httpPageFetcher, PageFetcher } from "./articleFetcher";
+import { createChatThreadStore } from "./chatThreads";
+import { HttpError, JsonBody, readJsonBody, requireString, sendJson } from "./http";
+import { createServerUsageMeter, identifyRequest, keepsReservation } from "./usage";
+
+// A small backend that owns the Gemini key so it never ends up in the browser
+// bundle. It exposes each provider operation as a JSON route and returns the raw
+// model output; validation and result envelopes stay in the frontend service layer.
+//
+//   npm run server            uses Gemini with GEMINI_API_KEY
+//   npm run server -- --stub  uses the offline mock provider
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the real environment
+}
+
+const PORT = Number(process.env.API_PORT) || 8787;
+
+const selectProvider = (): DetectionProvider => {
+  if (process.argv.includes('--stub')) {
+    return mockProvider;
+  }
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn('GEMINI_API_KEY is not set, serving the mock provider instead.');
+    return mockProvider;
+  }
+  return geminiProvider;
+};
+
+const provider = selectProvider();
+
+// ARTICLE_FIXTURE_ORIGIN points URL imports at a local fixture server instead of the web
+const pageFetcher: PageFetcher = process.env.ARTICLE_FIXTURE_ORIGIN
+  ? createFixturePageFetcher(process.env.ARTICLE_FIXTURE_ORIGIN)
+  : httpPageFetcher;
+
+// Below this the page most likely had no article, only navigation or a paywall notice
+const MIN_ARTICLE_LENGTH = 200;
+const usage = createServerUsageMeter();
+const chatThreads = createChatThreadStore();
+
+type RouteHandler = (body: JsonBody, signal: AbortSignal, req: IncomingMessage) => Promise<object>;
+type StreamRouteHandler = (body: JsonBody, signal: AbortSignal) => AsyncIterable<ArticleStreamEvent | ChatStreamEvent>;
+
+const readArticleUrl = (body: JsonBody): URL => {
+  let url: URL;
+  try {
+    url = new URL(requireString(body, 'url').trim());
+  } catch (error) {
+    if (error instanceof HttpError) throw error;
+    throw new HttpError(400, "'url' must be a valid web address");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new HttpError(400, "'url' must be an http or https address");
+  }
+  if (url.username || url.password) {
+    throw new HttpError(400, "'url' must not contain a username or password");
+  }
+  return url;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalId = (id: unknown) => id === undefined || typeof id === 'string';
+
+const isToolCall = (value: unknown): value is ChatToolCall =>
+  isRecord(value) && isOptionalId(value.id) && typeof value.name === 'string' && isRecord(value.args);
+
+const isToolResult = (value: unknown): value is ChatToolResult =>
+  isRecord(value) && isOptionalId(value.id) && typeof value.name === 'string' && isRecord(value.response);
+
+const isListOf = <T,>(value: unknown, isItem: (item: unknown) => item is T): value is T[] =>
+  Array.isArray(value) && value.every(isItem);
+
+const isTurn = (turn: unknown): turn is ChatTurn => {
+  if (!isRecord(turn)) return false;
+  const { role, text, toolCalls, toolResults } = turn;
+  return (role === 'user' || role === 'model') && typeof text === 'string'
+    && (toolCalls === undefined || isListOf(toolCalls, isToolCall))
+    && (toolResults === undefined || isListOf(toolResults, isToolResult));
+};
+
+const readHistory = (value: unknown): ChatTurn[] => {
+  if (value === undefined) return [];
+  if (!isListOf(value, isTurn)) {
+    throw new HttpError(400, "'history' must be a list of { role, text } messages");
+  }
+  return value;
+};
+
+const readChatKind = (value: unknown): ChatKind => {
+  if (!isChatKind(value)) throw new HttpError(400, `Unknown chat ${String(value)}`);
+  return value;
+};
+
+const readToolResults = (value: unknown): ChatToolResult[] => {
+  if (!isListOf(value, isToolResult) || value.length === 0) {
+    throw new HttpError(400, "'toolResults' must be a non-empty list of { name, response } results");
+  }
+  return value;
+};
+
+// Analyses inside messages are only ever shown back to the user who saved them,
+// so they are stored as they come
+const isChatMessage = (message: unknown): message is ChatMessage =>
+  isRecord(message) && (message.sender === 'user' || message.sender === 'bot') && typeof message.text === 'string'
+  && (message.analyses === undefined || isListOf(message.analyses, isRecord))
+  && (message.stopped === undefined || typeof message.stopped === 'boolean');
+
+const readChatThread = (value: unknown): ChatThread => {
+  const isTimestamp = (time: unknown) => typeof time === 'string' && !Number.isNaN(Date.parse(time));
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id.trim() || typeof value.title !== 'string'
+    || !isTimestamp(value.createdAt) || !isTimestamp(value.updatedAt)
+    || !isListOf(value.messages, isChatMessage) || !isListOf(value.turns, isTurn)) {
+    throw new HttpError(400, "'thread' must be a { id, title, createdAt, updatedAt, messages, turns } conversation");
+  }
+  const { id, title, createdAt, updatedAt, messages, turns } = value;
+  return { id, title, createdAt: createdAt as string, updatedAt: updatedAt as string, messages, turns };
+};
+
+// The browser derives the key from the user's email and password (see
+// services/chatThreads.ts), so it is the only proof of whose threads these are
+const requireThreadKey = (req: IncomingMessage): string => {
+  const key = req.headers['x-thread-key'];
+  if (typeof key !== 'string' || !/^[0-9a-f]{64}$/.test(key)) {
+    throw new HttpError(401, 'Chat threads need an X-Thread-Key header');
+  }
+  return key;
+};
+
+const isUnset = (value: unknown) => value === undefined || value === null;
+
+// Clients may pick a prompt version, but only one that is in the registry, and
+// the languages to read and answer in
+const callOptions = (body: JsonBody, promptId: PromptId, signal: AbortSignal): ProviderCallOptions => {
+  const { promptVersion, language, inputLanguage } = body;
+  const options: ProviderCallOptions = { signal };
+  if (!isUnset(promptVersion)) {
+    if (typeof promptVersion !== 'number' || !findPrompt(promptId, promptVersion)) {
+      throw new HttpError(400, `Unknown prompt version ${String(promptVersion)} for ${promptId}`);
+    }
+    options.promptVersion = promptVersion;
+  }
+  if (!isUnset(language)) {
+    if (!isLanguageCode(language)) throw new HttpError(400, `Unsupported language ${String(language)}`);
+    options.language = language;
+  }
+  if (!isUnset(inputLanguage)) {
+    if (!isInputLanguage(inputLanguage)) throw new HttpError(400, `Unsupported input language ${String(inputLanguage)}`);
+    options.inputLanguage = inputLanguage;
+  }
+  return options;
+};
+
+const readImageType = (imageType: unknown): ImageType | undefined => {
+  if (isUnset(imageType)) return undefined;
+  if (!isImageType(imageType)) throw new HttpError(400, `Unsupported image type ${String(imageType)}`);
+  return imageType;
+};
+
+const routes: Record<string, RouteHandler> = {
+  // Classifies the image too, unless the client names its type, so the whole
+  // check is one metered request
+  '/api/analyze/image': async (body, signal) => ({
+    result: await provider.checkImage(requireString(body, 'data'), requireString(body, 'mimeType'), {
+      ...callOptions(body, 'image-forensics', signal),
+      imageType: readImageType(body.imageType),
+    }),
+  }),
+  '/api/analyze/voice': async (body, signal) => ({
+    result: await provider.analyzeVoice(requireString(body, 'data'), requireString(body, 'mimeType'), callOptions(body, 'voice-ai-detection', signal)),
+  }),
+  '/api/analyze/call': async (body, signal) => ({
+    result: await provider.analyzeCall(requireString(body, 'data'), requireString(body, 'mimeType'), callOptions(body, 'call-fraud', signal)),
+  }),
+  '/api/analyze/article': async (body, signal) => ({
+    result: await provider.analyzeArticle(requireString(body, 'content'), callOptions(body, 'article-factcheck', signal)),
+  }),
+  '/api/analyze/sms': async (body, signal) => ({
+    result: await provider.analyzeSms(requireString(body, 'content'), requireString(body, 'senderType'), callOptions(body, 'sms-fraud', signal)),
+  }),
+  '/api/template': async (body, signal) => ({
+    result: await provider.generateAwarenessTemplate(requireString(body, 'prompt'), callOptions(body, 'awareness-template', signal)),
+  }),
+  '/api/trending': async (body, signal) => ({
+    result: await provider.getTrendingTopics(callOptions(body, 'trending-topics', signal)),
+  }),
+  '/api/article/fetch': async (body, signal) => {
+    const page = await pageFetcher(readArticleUrl(body), signal);
+    const article = extractArticle(page.html, page.url);
+    if (article.body.length < MIN_ARTICLE_LENGTH) {
+      throw new HttpError(422, 'Could not find an article on this page. Try pasting its text instead.');
+    }
+    return { article };
+  },
+  '/api/chat/threads': async (_body, _signal, req) => ({
+    threads: chatThreads.list(requireThreadKey(req)),
+  }),
+  '/api/chat/threads/save': async (body, _signal, req) => {
+    chatThreads.save(requireThreadKey(req), readChatThread(body.thread));
+    return {};
+  },
+  '/api/chat/threads/delete': async (body, _signal, req) => {
+    chatThreads.remove(requireThreadKey(req), requireString(body, 'id'));
+    return {};
+  },
+};
+
+// Streamed routes answer with newline-delimited JSON, one event per line, as the
+// model produces them
+const streamRoutes: Record<string, StreamRouteHandler> = {
+  '/api/analyze/article/stream': (body, signal) =>
+    provider.streamArticleAnalysis(requireString(body, 'content'), callOptions(body, 'article-factcheck', signal)),
+  // Either a new message or the results of the tool calls the model made last;
+  // the tools themselves run in the browser. The instructions and tools come from
+  // the prompt registry, so clients can only hold the app's own conversations.
+  '/api/chat/stream': (body, signal) => {
+    const session = provider.createChatSession(readChatKind(body.kind), readHistory(body.history), callOptions(body, 'support-chat', signal).language);
+    return body.toolResults === undefined
+      ? session.streamMessage(requireString(body, 'message'), signal)
+      : session.streamToolResults(readToolResults(body.toolResults), signal);
+  },
+};
+
+// Routes that count towards a daily quota
+const meteredRoutes: Record<string, AnalysisTool> = {
+  '/api/analyze/image': 'image',
+  '/api/analyze/voice': 'aivoice',
+  '/api/analyze/call': 'voice',
+  '/api/analyze/article': 'article',
+  '/api/analyze/article/stream': 'article',
+  '/api/analyze/sms': 'sms',
+  '/api/template': 'template',
+  '/api/trending': 'trending',
+  '/api/chat/stream': 'chat',
+};
+
+// Headers are only sent once the first chunk arrives, so a request that fails
+// straight away still gets a proper error status.
+const sendStream = async (res: ServerResponse, events: AsyncIterable<ArticleStreamEvent | ChatStreamEvent>) => {
+  const iterator = events[Symbol.asyncIterator]();
+  let next = await iterator.next();
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'X-Model-Id': provider.modelId });
+  while (!next.done) {
+    res.write(`${JSON.stringify(next.value)}\n`);
+    next = await iterator.next();
+  }
+  res.end();
+};
+
+// Upstream errors keep their HTTP status (e.g. 429 or 503) so the client knows
+// whether retrying makes sense. Rejected model output is reported field by field.
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: error.message });
+    return;
+  }
+  if (error instanceof ResponseValidationError) {
+    sendJson(res, 422, { error: error.message, field: error.field, reason: error.reason, received: error.received });
+    return;
+  }
+  console.error('Error handling API request:', error);
+  const status = (error as { status?: unknown } | null)?.status;
+  sendJson(res, typeof status === 'number' && status >= 400 ? status : 502, {
+    error: error instanceof Error ? error.message : 'The model request failed',
+  });
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = routes[pathname];
+  const streamRoute = streamRoutes[pathname];
+  if (!route && !streamRoute) {
+    sendJson(res, 404, { error: `No route for ${pathname}` });
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    sendJson(res, 405, { error: `${req.method} is not allowed on ${pathname}` });
+    return;
+  }
+
+  const tool = meteredRoutes[pathname];
+  const identity = identifyRequest(req);
+  const limit = tool ? usage.reserve(identity, tool) : null;
+  if (tool && limit !== null) {
+    sendJson(res, 429, {
+      error: `Daily limit of ${limit} ${USAGE_LABELS[tool]} reached`,
+      quota: { tool, limit },
+    });
+    return;
+  }
+
+  // Stop the model call when the browser gives up on the request
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const body = await readJsonBody(req);
+    if (streamRoute) {
+      await sendStream(res, streamRoute(body, controller.signal));
+    } else {
+      const payload = await route(body, controller.signal, req);
+      sendJson(res, 200, { modelId: provider.modelId, ...payload });
+    }
+  } catch (error) {
+    if (tool && !keepsReservation(error)) usage.release(identity, tool);
+    if (controller.signal.aborted) return;
+    if (res.headersSent) {
+      // Too late for an error status; cutting the stream short tells the client it failed
+      console.error('Error while streaming API response:', error);
+      res.destroy();
+      return;
+    }
+    sendError(res, error);
+  }
+};
+
+createServer((req, res) => {
+  void handleRequest(req, res);
+}).listen(PORT, () => {
+  console.log(`API server listening on http://localhost:${PORT} using the ${provider.id} provider`);
+});
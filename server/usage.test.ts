@@ -0,0 +1,121 @@
+import { IncomingMessage } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResponseValidationError } from '../services/errors';
+import { HttpError } from './http';
+import { createServerUsageMeter, identifyRequest, keepsReservation, RequestIdentity } from './usage';
+
+const request = (headers: IncomingMessage['headers'], remoteAddress = '203.0.113.7') =>
+  ({ headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+const asUser = (userId: string | null, address = '203.0.113.7'): RequestIdentity => ({ userId, address });
+
+describe('identifyRequest', () => {
+  it('reads the user from X-User-Id and the address from the socket', () => {
+    expect(identifyRequest(request({ 'x-user-id': ' asha@example.com ', 'x-forwarded-for': '198.51.100.1' })))
+      .toEqual({ userId: 'asha@example.com', address: '203.0.113.7' });
+  });
+
+  it('treats a missing or blank header as no user', () => {
+    expect(identifyRequest(request({})).userId).toBeNull();
+    expect(identifyRequest(request({ 'x-user-id': '  ' })).userId).toBeNull();
+  });
+});
+
+describe('createServerUsageMeter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00.000Z'));
+    vi.stubEnv('USAGE_FILE', '');
+    vi.stubEnv('USAGE_QUOTAS', 'image=2');
+    vi.stubEnv('USAGE_USERS_PER_ADDRESS', '2');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  it('stops a user at their daily limit', () => {
+    const usage = createServerUsageMeter();
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBeNull();
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBeNull();
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBe(2);
+    expect(usage.reserve(asUser('asha@example.com'), 'sms')).toBeNull();
+  });
+
+  it('counts a request as soon as it is let through', () => {
+    const usage = createServerUsageMeter();
+    // Two requests in flight at once take the whole allowance; a third is refused
+    // before either of them has finished
+    const inFlight = [usage.reserve(asUser('asha@example.com'), 'image'), usage.reserve(asUser('asha@example.com'), 'image')];
+    expect(inFlight).toEqual([null, null]);
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBe(2);
+  });
+
+  it('gives a released request back to the user and the address', () => {
+    const usage = createServerUsageMeter();
+    usage.reserve(asUser('asha@example.com'), 'image');
+    usage.reserve(asUser('asha@example.com'), 'image');
+    usage.release(asUser('asha@example.com'), 'image');
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBeNull();
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBe(2);
+    usage.reserve(asUser('ravi@example.com'), 'image');
+    usage.release(asUser('ravi@example.com'), 'image');
+    // The address holds asha's two requests and has room for two more
+    expect(usage.reserve(asUser(null), 'image')).toBeNull();
+    expect(usage.reserve(asUser(null), 'image')).toBeNull();
+    expect(usage.reserve(asUser(null), 'image')).toBe(4);
+  });
+
+  it('caps an address at several users worth, however many user ids it sends', () => {
+    const usage = createServerUsageMeter();
+    ['a', 'b', 'c', 'd'].forEach(user => usage.reserve(asUser(`${user}@example.com`), 'image'));
+    expect(usage.reserve(asUser('new@example.com'), 'image')).toBe(4);
+    expect(usage.reserve(asUser(null), 'image')).toBe(4);
+    expect(usage.reserve(asUser('new@example.com', '198.51.100.1'), 'image')).toBeNull();
+  });
+
+  it('meters requests without a user against the address alone', () => {
+    const usage = createServerUsageMeter();
+    for (let i = 0; i < 4; i++) expect(usage.reserve(asUser(null), 'image')).toBeNull();
+    expect(usage.reserve(asUser(null), 'image')).toBe(4);
+  });
+
+  it('does not count a refused request against the other meter', () => {
+    const usage = createServerUsageMeter();
+    usage.reserve(asUser('asha@example.com'), 'image');
+    usage.reserve(asUser('asha@example.com'), 'image');
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBe(2);
+    expect(usage.reserve(asUser('ravi@example.com'), 'image')).toBeNull();
+    expect(usage.reserve(asUser('ravi@example.com'), 'image')).toBeNull();
+  });
+
+  it('hands out a fresh allowance the next day', () => {
+    const usage = createServerUsageMeter();
+    usage.reserve(asUser('asha@example.com'), 'image');
+    usage.reserve(asUser('asha@example.com'), 'image');
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBe(2);
+    vi.setSystemTime(new Date('2026-10-20T00:00:00.000Z'));
+    expect(usage.reserve(asUser('asha@example.com'), 'image')).toBeNull();
+  });
+
+  it('falls back to the default users per address for an invalid setting', () => {
+    vi.stubEnv('USAGE_USERS_PER_ADDRESS', 'many');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const usage = createServerUsageMeter();
+      for (let i = 0; i < 10; i++) expect(usage.reserve(asUser(`user${i}@example.com`), 'image')).toBeNull();
+      expect(usage.reserve(asUser(null), 'image')).toBe(10);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('keepsReservation', () => {
+  it('keeps the count for rejected model output only', () => {
+    expect(keepsReservation(new ResponseValidationError('confidence', 'must be a number'))).toBe(true);
+    expect(keepsReservation(new HttpError(400, "'data' is required"))).toBe(false);
+    expect(keepsReservation(Object.assign(new Error('Unavailable'), { status: 503 }))).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { IncomingMessage } from "node:http";
+import { ResponseValidationError } from "../services/errors";
+import { createUsageMeter, parseQuotaConfig, UsageMeter, UsageRecord, UsageStore } from "../services/quotas";
+import { AnalysisTool } from "../types";
+
+// Usage is kept in memory and, when USAGE_FILE is set, written to that JSON file
+// after every analysis so a restart does not hand out a fresh allowance.
+const createStore = (path: string | undefined): UsageStore => {
+  let records: Record<string, UsageRecord> = {};
+  if (path && existsSync(path)) {
+    try {
+      records = JSON.parse(readFileSync(path, 'utf8')) as Record<string, UsageRecord>;
+    } catch (error) {
+      console.warn(`Could not read usage from ${path}, starting from zero:`, error);
+    }
+  }
+  return {
+    load: userId => records[userId],
+    save: (userId, record) => {
+      records[userId] = record;
+      if (path) writeFileSync(path, JSON.stringify(records));
+    },
+  };
+};
+
+// Each address may spend this many users' allowance a day. X-User-Id is whatever
+// the client sends, so only the address caps what one client can spend; offices
+// and mobile networks put many people behind one address, hence the headroom.
+const DEFAULT_USERS_PER_ADDRESS = 5;
+
+const parseUsersPerAddress = (value: string | undefined) => {
+  if (value === undefined || value.trim() === '') return DEFAULT_USERS_PER_ADDRESS;
+  if (/^\d+$/.test(value.trim()) && Number(value) > 0) return Number(value);
+  console.warn(`Ignoring invalid USAGE_USERS_PER_ADDRESS "${value}"`);
+  return DEFAULT_USERS_PER_ADDRESS;
+};
+
+export interface RequestIdentity {
+  // The signed-in user the app says it acts for; null when it sends none
+  userId: string | null;
+  address: string;
+}
+
+// There are no real accounts yet, so the app sends the signed-in user's email.
+// The address is the socket's; forwarding headers are not trusted.
+export const identifyRequest = (req: IncomingMessage): RequestIdentity => {
+  const header = req.headers['x-user-id'];
+  const userId = (Array.isArray(header) ? header[0] : header)?.trim();
+  return { userId: userId || null, address: req.socket.remoteAddress ?? 'unknown' };
+};
+
+// A request is metered against its user, when it names one, and always against
+// its address, which gets several users' allowance. Both share one store, so their
+// keys are kept apart.
+export const createServerUsageMeter = () => {
+  const store = createStore(process.env.USAGE_FILE);
+  const quotas = parseQuotaConfig(process.env.USAGE_QUOTAS);
+  const usersPerAddress = parseUsersPerAddress(process.env.USAGE_USERS_PER_ADDRESS);
+  const addressQuotas = Object.fromEntries(
+    Object.entries(quotas).map(([tool, limit]) => [tool, limit === null ? null : limit * usersPerAddress]),
+  ) as typeof quotas;
+  const users = createUsageMeter(store, quotas);
+  const addresses = createUsageMeter(store, addressQuotas);
+  const meters = ({ userId, address }: RequestIdentity) => {
+    const keyed: [UsageMeter, string][] = [[addresses, `address:${address}`]];
+    if (userId !== null) keyed.unshift([users, `user:${userId}`]);
+    return keyed;
+  };
+  return {
+    // Counts the request as soon as it is let through, so concurrent requests
+    // cannot all pass the check before any of them is counted. Returns the daily
+    // limit that has run out instead, or null when the request may go ahead.
+    reserve: (identity: RequestIdentity, tool: AnalysisTool): number | null => {
+      for (const [meter, key] of meters(identity)) {
+        if (meter.isExhausted(key, tool)) return meter.getUsage(key, tool).limit;
+      }
+      meters(identity).forEach(([meter, key]) => meter.record(key, tool));
+      return null;
+    },
+    release: (identity: RequestIdentity, tool: AnalysisTool) => {
+      meters(identity).forEach(([meter, key]) => meter.release(key, tool));
+    },
+  };
+};
+
+// Rejected model output still cost a model call, so it keeps its reservation;
+// requests that failed before or at the model are given back
+export const keepsReservation = (error: unknown) => error instanceof ResponseValidationError;
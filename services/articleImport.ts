@@ -0,0 +1,36 @@
+import { ExtractedArticle } from "../types";
+import { ApiRequestError } from "./errors";
+import { RequestOptions, runRequest } from "./requestRunner";
+
+// Article pages are downloaded by the backend in server/: browsers cannot read
+// other sites' pages, and the server checks that a link only reaches public sites.
+const FETCH_TIMEOUT_MS = 30_000;
+
+const requestArticle = async (url: string, signal: AbortSignal): Promise<ExtractedArticle> => {
+  const response = await fetch('/api/article/fetch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+    signal,
+  });
+  const data = (await response.json().catch(() => ({}))) as { article?: ExtractedArticle; error?: string };
+  if (!response.ok || !data.article) {
+    throw new ApiRequestError(response.status, data.error ?? `Could not import the article (status ${response.status})`);
+  }
+  return data.article;
+};
+
+export const fetchArticleFromUrl = (url: string, options: RequestOptions = {}): Promise<ExtractedArticle> =>
+  runRequest(signal => requestArticle(url, signal), { timeoutMs: FETCH_TIMEOUT_MS, retries: 1, ...options });
+
+// The text sent for analysis: the byline details help the model judge the source
+export const formatArticleForAnalysis = (article: ExtractedArticle): string => {
+  const details = [
+    article.headline && `Headline: ${article.headline}`,
+    article.publisher && `Publisher: ${article.publisher}`,
+    article.author && `Author: ${article.author}`,
+    article.publishedAt && `Published: ${article.publishedAt.slice(0, 10)}`,
+    `Source: ${article.url}`,
+  ].filter(Boolean);
+  return `${details.join('\n')}\n\n${article.body}`;
+};
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisEnvelope, BatchItem, ImageDetectionResult } from '../types';
+import { batchToCsv, batchToHtml, batchToJson, batchVerdictLabel, createBatchReportZip } from './batchReport';
+
+const metadata = { modelId: 'gemini-2.5-flash', promptVersion: 'image-forensics@3', latencyMs: 1200, timestamp: '2025-05-03T10:00:00.000Z' };
+
+const analyzed = (name: string, result: Partial<ImageDetectionResult> = {}): BatchItem => ({
+  id: name,
+  name,
+  size: 1024,
+  status: 'done',
+  error: null,
+  envelope: {
+    ...metadata,
+    status: 'ok',
+    result: {
+      classification: 'AI-generated',
+      confidence: 91,
+      explanation: 'Warped text on the sign.',
+      findings: [{ category: 'text', severity: 'high', box: { x: 0, y: 0, width: 1, height: 1 }, description: 'Garbled letters', excerpt: null }],
+      ...result,
+    },
+  },
+});
+
+const failed: BatchItem = {
+  id: 'broken.png',
+  name: 'broken.png',
+  size: 2048,
+  status: 'failed',
+  error: 'The model returned an invalid answer.',
+  envelope: { ...metadata, status: 'invalid', result: null, error: 'The model returned an invalid answer.' } as AnalysisEnvelope<ImageDetectionResult>,
+};
+
+const queued: BatchItem = { id: 'later.webp', name: 'later.webp', size: 10, status: 'queued', envelope: null, error: null };
+
+describe('batchVerdictLabel', () => {
+  it('gives the verdict, or why there is none', () => {
+    expect(batchVerdictLabel(analyzed('a.jpg'))).toBe('AI-generated');
+    expect(batchVerdictLabel(failed)).toBe('Failed');
+    expect(batchVerdictLabel(queued)).toBe('Queued');
+  });
+});
+
+describe('batchToCsv', () => {
+  it('writes a header and one row per image', () => {
+    const rows = batchToCsv([
+      analyzed('photo.jpg', {
+        mode: { type: 'photograph', source: 'detected', reason: null },
+        metadataEvidence: [
+          { signal: 'ai-edited', source: 'C2PA', description: 'Generative fill' },
+          { signal: 'camera', source: 'EXIF', description: 'Canon EOS R5' },
+        ],
+      }),
+      failed,
+    ]).split('\r\n');
+    expect(rows).toHaveLength(3);
+    expect(rows[0].split(',')).toContain('ai_metadata_evidence');
+    expect(rows[1]).toBe(
+      'photo.jpg,1024,done,photograph,AI-generated,91,,,Generative fill,text (high): Garbled letters,Warped text on the sign.,,gemini-2.5-flash,image-forensics@3,2025-05-03T10:00:00.000Z',
+    );
+    expect(rows[2]).toContain('broken.png,2048,failed,');
+  });
+
+  it('quotes cells and defuses spreadsheet formulas', () => {
+    const row = batchToCsv([analyzed('=HYPERLINK("x").jpg', { explanation: 'Line one,\nline "two"' })]).split('\r\n').slice(1).join('\r\n');
+    expect(row.startsWith(`"'=HYPERLINK(""x"").jpg",`)).toBe(true);
+    expect(row).toContain('"Line one,\nline ""two"""');
+  });
+});
+
+describe('batchToJson', () => {
+  it('keeps each envelope under the file name', () => {
+    const [item] = JSON.parse(batchToJson([analyzed('a.jpg')]));
+    expect(item).toMatchObject({ file: 'a.jpg', size: 1024, status: 'done', envelope: { status: 'ok', result: { confidence: 91 } } });
+  });
+});
+
+describe('batchToHtml', () => {
+  it('counts verdicts and escapes text from outside', () => {
+    const html = batchToHtml([analyzed('<script>.jpg'), analyzed('b.jpg', { classification: 'Authentic' }), failed], { '<script>.jpg': 'thumbnails/001.jpg' });
+    expect(html).toContain('&lt;script&gt;.jpg');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('<img src="thumbnails/001.jpg" alt="">');
+    expect(html).toContain('AI-generated: <strong>1</strong>');
+    expect(html).toContain('Failed: <strong>1</strong>');
+    expect(html).toContain('The model returned an invalid answer.');
+  });
+});
+
+describe('createBatchReportZip', () => {
+  it('bundles the report, the results and the thumbnails', () => {
+    const zip = createBatchReportZip([analyzed('a.jpg'), failed], { 'a.jpg': new Uint8Array([0xff, 0xd8]) });
+    const text = new TextDecoder('latin1').decode(zip);
+    for (const name of ['report.html', 'results.csv', 'results.json', 'thumbnails/001.jpg']) expect(text).toContain(name);
+    expect(text).not.toContain('thumbnails/002.jpg');
+  });
+});
@@ -0,0 +1,177 @@
+import { BatchItem } from "../types";
+import { createZip, ZipEntry } from "./zip";
+
+// Exports of a batch image check: CSV and JSON of the results, and a zipped
+// HTML report with a thumbnail of each image that opens offline.
+
+const STATUS_LABELS: Record<BatchItem['status'], string> = {
+  queued: 'Queued',
+  reading: 'Reading',
+  analyzing: 'Analyzing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// The verdict, or why there is none
+export const batchVerdictLabel = (item: BatchItem): string => {
+  if (item.envelope?.status === 'ok') return item.envelope.result.classification;
+  return item.status === 'done' ? 'No verdict' : STATUS_LABELS[item.status];
+};
+
+const CSV_COLUMNS = [
+  'file', 'size_bytes', 'status', 'image_type', 'classification', 'confidence', 'model_classification', 'model_confidence',
+  'ai_metadata_evidence', 'findings', 'explanation', 'error', 'model', 'prompt_version', 'analyzed_at',
+];
+
+// Quoted where needed. Cells a spreadsheet would run as a formula get a leading
+// apostrophe, since file names and explanations come from outside.
+const csvCell = (value: string | number | null | undefined) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchToCsv = (items: BatchItem[]): string => {
+  const rows = items.map(item => {
+    const { envelope } = item;
+    const result = envelope?.status === 'ok' ? envelope.result : null;
+    return [
+      item.name,
+      item.size,
+      item.status,
+      result?.mode?.type,
+      result?.classification,
+      result?.confidence,
+      result?.modelVerdict?.classification,
+      result?.modelVerdict?.confidence,
+      result?.metadataEvidence?.filter(evidence => evidence.signal === 'ai-generated' || evidence.signal === 'ai-edited').map(evidence => evidence.description).join(' | '),
+      result?.findings.map(finding => `${finding.category} (${finding.severity}): ${finding.description}`).join(' | '),
+      result?.explanation,
+      item.error ?? envelope?.error,
+      envelope?.modelId,
+      envelope?.promptVersion,
+      envelope?.timestamp,
+    ].map(csvCell).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const batchToJson = (items: BatchItem[]): string =>
+  JSON.stringify(items.map(({ name, size, status, envelope, error }) => ({ file: name, size, status, error, envelope })), null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const VERDICT_COLORS: Record<string, string> = {
+  'AI-generated': '#dc2626',
+  Authentic: '#16a34a',
+  Uncertain: '#ca8a04',
+};
+
+const REPORT_STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #666; margin-top: 0; }
+  .summary span { display: inline-block; margin-right: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; margin-top: 1.5rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.75rem; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  img { max-width: 160px; max-height: 160px; border-radius: 4px; }
+  .verdict { font-weight: bold; }
+  ul { margin: 0.5rem 0 0; padding-left: 1.25rem; }
+  .note { color: #666; font-size: 0.85rem; }
+`;
+
+// thumbnails maps an item id to the thumbnail's path inside the archive
+export const batchToHtml = (items: BatchItem[], thumbnails: Record<string, string>, generatedAt = new Date()): string => {
+  const counts = items.reduce<Record<string, number>>((total, item) => {
+    const label = batchVerdictLabel(item);
+    return { ...total, [label]: (total[label] ?? 0) + 1 };
+  }, {});
+  const rows = items.map(item => {
+    const { envelope } = item;
+    const result = envelope?.status === 'ok' ? envelope.result : null;
+    const verdict = batchVerdictLabel(item);
+    const details = [
+      result ? `<p>${escapeHtml(result.explanation)}</p>` : `<p class="note">${escapeHtml(item.error ?? envelope?.error ?? 'Not analyzed')}</p>`,
+      result?.modelVerdict
+        ? `<p class="note">Metadata changed the verdict; the model alone rated it ${escapeHtml(result.modelVerdict.classification)} (${result.modelVerdict.confidence}%).</p>`
+        : '',
+      result && result.findings.length > 0
+        ? `<p><strong>Findings</strong></p><ul>${result.findings.map(finding => `<li>${escapeHtml(finding.category)} (${escapeHtml(finding.severity)}): ${escapeHtml(finding.description)}</li>`).join('')}</ul>`
+        : '',
+      result?.metadataEvidence && result.metadataEvidence.length > 0
+        ? `<p><strong>Metadata evidence</strong></p><ul>${result.metadataEvidence.map(evidence => `<li>${escapeHtml(evidence.source)}: ${escapeHtml(evidence.description)}</li>`).join('')}</ul>`
+        : '',
+      envelope ? `<p class="note">${escapeHtml(envelope.modelId)} · ${escapeHtml(envelope.promptVersion)} · ${escapeHtml(new Date(envelope.timestamp).toLocaleString())}</p>` : '',
+    ].join('');
+    return `<tr>
+      <td>${thumbnails[item.id] ? `<img src="${escapeHtml(thumbnails[item.id])}" alt="">` : ''}</td>
+      <td>${escapeHtml(item.name)}</td>
+      <td class="verdict" style="color: ${VERDICT_COLORS[verdict] ?? '#666'}">${escapeHtml(verdict)}${result ? `<br>${result.confidence}%` : ''}${result?.mode ? `<br><span class="note">as ${escapeHtml(result.mode.type)}</span>` : ''}</td>
+      <td>${details}</td>
+    </tr>`;
+  });
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CodeHustlers batch image report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>Batch image report</h1>
+<p class="meta">${items.length} images · generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+<p class="summary">${Object.entries(counts).map(([label, count]) => `<span>${escapeHtml(label)}: <strong>${count}</strong></span>`).join('')}</p>
+<table>
+<thead><tr><th>Image</th><th>File</th><th>Verdict</th><th>Details</th></tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+<p class="note">Verdicts are produced by an AI model and should be checked by a person before being acted on.</p>
+</body>
+</html>
+`;
+};
+
+// thumbnails maps an item id to JPEG bytes; items without one are listed without an image
+export const createBatchReportZip = (items: BatchItem[], thumbnails: Record<string, Uint8Array>, generatedAt = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const paths: Record<string, string> = {};
+  const images: ZipEntry[] = [];
+  items.forEach((item, index) => {
+    const data = thumbnails[item.id];
+    if (!data) return;
+    paths[item.id] = `thumbnails/${String(index + 1).padStart(3, '0')}.jpg`;
+    images.push({ name: paths[item.id], data });
+  });
+  return createZip([
+    { name: 'report.html', data: encoder.encode(batchToHtml(items, paths, generatedAt)) },
+    { name: 'results.csv', data: encoder.encode(batchToCsv(items)) },
+    { name: 'results.json', data: encoder.encode(batchToJson(items)) },
+    ...images,
+  ], generatedAt);
+};
+
+// --- Browser ---
+
+const THUMBNAIL_SIDE = 240;
+const THUMBNAIL_QUALITY = 0.8;
+
+export const createThumbnail = async (file: Blob): Promise<Uint8Array> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+    if (!blob) throw new Error('Could not encode the thumbnail');
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    bitmap.close();
+  }
+};
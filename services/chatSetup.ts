@@ -0,0 +1,59 @@
+import { FAQ_DATA } from "../constants";
+import { LanguageCode } from "../types";
+import { LANGUAGES } from "./language";
+import { getPrompt, renderPrompt } from "./prompts";
+import { ChatKind, ChatTool } from "./providers/types";
+
+// The conversations the app holds with the model. Their instructions and tools
+// are built here from the prompt registry, in the browser and on the API server
+// alike, so a client picks a conversation but never writes its instructions.
+
+// The checks the chatbot can run without the user leaving the conversation
+export const CHAT_TOOLS: ChatTool[] = [
+  {
+    name: 'analyze_sms',
+    description: 'Checks an SMS or chat message for signs of fraud with the CodeHustlers SMS fraud detector.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The full message text, exactly as the user pasted it' },
+        senderType: {
+          type: 'string',
+          enum: ['alphanumeric', 'alphabetic', 'numeric', 'otp'],
+          description: "The sender ID type if the user mentioned it: 'numeric' for a phone number, 'alphanumeric' for headers like VM-NOTICE, 'alphabetic' for a company name",
+        },
+      },
+      required: ['content'],
+    },
+  },
+  {
+    name: 'analyze_article',
+    description: 'Fact-checks a news article or long post with the CodeHustlers article analyzer and rates its credibility.',
+    parameters: {
+      type: 'object',
+      properties: {
+        content: { type: 'string', description: 'The full article text, exactly as the user pasted it' },
+      },
+      required: ['content'],
+    },
+  },
+];
+
+// Conversations switch language when the user does, so this is a default rather than a rule
+const replyLanguageNote = (language: LanguageCode) =>
+  `Reply in ${LANGUAGES[language].name} unless the user asks for another language.`;
+
+const CHAT_KINDS: ChatKind[] = ['support', 'voice'];
+
+export const isChatKind = (value: unknown): value is ChatKind => CHAT_KINDS.includes(value as ChatKind);
+
+export const chatSystemInstruction = (kind: ChatKind, language: LanguageCode): string => {
+  if (kind === 'voice') {
+    return `${renderPrompt(getPrompt('voice-conversation'))}\n\n${replyLanguageNote(language)}`;
+  }
+  const faq = FAQ_DATA.map(({ question, answer }) => `Q: ${question}\nA: ${answer}`).join('\n\n');
+  return `${renderPrompt(getPrompt('support-chat'), { faq })}\n\n${replyLanguageNote(language)}`;
+};
+
+// Only the support chatbot can run checks
+export const chatTools = (kind: ChatKind): ChatTool[] => (kind === 'support' ? CHAT_TOOLS : []);
@@ -0,0 +1,140 @@
+import { ChatMessage, ChatThread } from "../types";
+import { getDetectionProvider } from "./providers";
+
+// Chatbot conversations, kept per user in localStorage. When the app goes through
+// the backend, threads are mirrored there too so they follow the user to other
+// devices; the backend copy is best effort and the local one always works.
+
+const STORAGE_KEY = 'codehustlers-chat-threads';
+const API_BASE = '/api/chat/threads';
+// Slow enough that a stolen key is not a cheap way to guess the password behind it
+const KEY_ITERATIONS = 100_000;
+
+// The oldest threads beyond this are dropped
+export const MAX_CHAT_THREADS = 20;
+const MAX_TITLE_LENGTH = 48;
+
+export const createChatThread = (): ChatThread => {
+  const now = new Date().toISOString();
+  return {
+    // Not security sensitive; only has to be unique among one user's threads
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+    title: 'New conversation',
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    turns: [],
+  };
+};
+
+// Threads are named after the first thing the user said
+export const titleForMessages = (messages: ChatMessage[]): string => {
+  const first = messages.find(message => message.sender === 'user')?.text.replace(/\s+/g, ' ').trim();
+  if (!first) return 'New conversation';
+  return first.length > MAX_TITLE_LENGTH ? `${first.slice(0, MAX_TITLE_LENGTH - 1)}…` : first;
+};
+
+// Adds or replaces a thread, most recently updated first
+export const upsertChatThread = (threads: ChatThread[], thread: ChatThread): ChatThread[] =>
+  [thread, ...threads.filter(existing => existing.id !== thread.id)]
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_CHAT_THREADS);
+
+// Falls back to memory where localStorage is unavailable (Node, some private modes)
+const memoryThreads: Record<string, ChatThread[]> = {};
+
+const readAll = (): Record<string, ChatThread[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, ChatThread[]>;
+  } catch {
+    return memoryThreads;
+  }
+};
+
+const storeLocally = (userId: string, threads: ChatThread[]): ChatThread[] => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [userId]: threads }));
+  } catch {
+    memoryThreads[userId] = threads;
+  }
+  return threads;
+};
+
+export const loadChatThreads = (userId: string): ChatThread[] => readAll()[userId] ?? [];
+
+// The backend files threads under a key derived from the email and password, so
+// knowing someone's address is not enough to read their conversations. Sign-ins
+// without a password (the Google demo) have no key and stay on this device.
+let signIn: { userId: string; key: Promise<string> } | null = null;
+
+const deriveKey = async (userId: string, password: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const secret = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`codehustlers-chat-threads:${userId}`), iterations: KEY_ITERATIONS },
+    secret,
+    256,
+  );
+  return Array.from(new Uint8Array(bits), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const setChatThreadsSignIn = (userId: string | null, password?: string) => {
+  signIn = userId && password ? { userId, key: deriveKey(userId, password) } : null;
+};
+
+const backendKey = (userId: string): Promise<string> | null =>
+  getDetectionProvider().id === 'api' && signIn?.userId === userId ? signIn.key : null;
+
+const callBackend = async <T,>(key: Promise<string>, path: string, body: object): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Thread-Key': await key },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`Request to ${API_BASE}${path} failed with status ${response.status}`);
+  }
+  return (await response.json()) as T;
+};
+
+const mirror = (userId: string, path: string, body: object) => {
+  const key = backendKey(userId);
+  if (!key) return;
+  callBackend(key, path, body).catch(error => console.warn('Could not update chat threads on the server:', error));
+};
+
+// Returns the stored threads as saved, so callers can render them straight away
+export const saveChatThread = (userId: string, thread: ChatThread): ChatThread[] => {
+  mirror(userId, '/save', { thread });
+  return storeLocally(userId, upsertChatThread(loadChatThreads(userId), thread));
+};
+
+export const deleteChatThread = (userId: string, threadId: string): ChatThread[] => {
+  mirror(userId, '/delete', { id: threadId });
+  return storeLocally(userId, loadChatThreads(userId).filter(thread => thread.id !== threadId));
+};
+
+// Merges the backend's threads with this device's, keeping the newer copy of
+// each, and uploads the ones the backend is missing or has an older copy of.
+// Without a backend, or when it cannot be reached, the local threads are returned.
+export const syncChatThreads = async (userId: string): Promise<ChatThread[]> => {
+  const local = loadChatThreads(userId);
+  const key = backendKey(userId);
+  if (!key) return local;
+  try {
+    const { threads: remote } = await callBackend<{ threads: ChatThread[] }>(key, '', {});
+    const remoteById = new Map(remote.map(thread => [thread.id, thread]));
+    for (const thread of local) {
+      const remoteThread = remoteById.get(thread.id);
+      if (!remoteThread || remoteThread.updatedAt < thread.updatedAt) mirror(userId, '/save', { thread });
+    }
+    const merged = [...local, ...remote].reduce<ChatThread[]>((threads, thread) => {
+      const existing = threads.find(candidate => candidate.id === thread.id);
+      return existing && existing.updatedAt >= thread.updatedAt ? threads : upsertChatThread(threads, thread);
+    }, []);
+    return storeLocally(userId, merged);
+  } catch (error) {
+    console.warn('Could not load chat threads from the server:', error);
+    return local;
+  }
+};
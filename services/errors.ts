@@ -0,0 +1,59 @@
+// Raised when a model response cannot be turned into the result type the UI expects.
+export class ResponseValidationError extends Error {
+  readonly field: string;
+  readonly reason: string;
+  readonly received: unknown;
+
+  constructor(field: string, reason: string, received?: unknown) {
+    super(`Invalid model response: '${field}' ${reason}`);
+    this.name = 'ResponseValidationError';
+    this.field = field;
+    this.reason = reason;
+    this.received = received;
+  }
+}
+
+// Raised when a request did not finish within its time budget.
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Raised when the caller aborted a request, e.g. the user pressed Cancel.
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Raised when the backend answers an API request with an error status. The status
+// is kept so the request runner can tell transient failures from permanent ones.
+export class ApiRequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
+// Raised when a user has used up their daily allowance for a tool. It carries no
+// HTTP status on purpose: the request runner must not retry it.
+export class QuotaExceededError extends Error {
+  readonly tool: string;
+  readonly limit: number;
+
+  constructor(tool: string, limit: number) {
+    super(`Daily quota of ${limit} reached for ${tool}`);
+    this.name = 'QuotaExceededError';
+    this.tool = tool;
+    this.limit = limit;
+  }
+}
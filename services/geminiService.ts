@@ -1,337 +1,459 @@
-import { GoogleGenAI, GenerateContentResponse, Type, Chat } from "@google/genai";
-import { CallFraudAnalysisResult, AiVoiceDetectionResult, SmsAnalysisResult } from "../types";
+import {
+  AiVoiceDetectionResult,
+  AnalysisEnvelope,
+  AnalysisTool,
+  ArticleAnalysisResult,
+  AwarenessTemplateContent,
+  CallFraudAnalysisResult,
+  ChatAnalysis,
+  ChatbotReply,
+  ImageDetectionResult,
+  ImageMode,
+  ImageType,
+  LanguageCode,
+  MetadataEvidence,
+  PartialArticleAnalysis,
+  SmsAnalysisResult,
+  SourceLink,
+  TrendingTopic,
+  VoiceReply,
+} from "../types";
+import { QuotaExceededError, RequestCancelledError, ResponseValidationError } from "./errors";
+import { findPrompt, formatPromptVersion, getActivePromptVersion, listPromptVersions, PromptId } from "./prompts";
+import {
+  ChatStreamEvent,
+  ChatToolCall,
+  ChatToolResult,
+  ChatTurn,
+  DetectionProvider,
+  getDetectionProvider,
+  ProviderCallOptions,
+} from "./providers";
+import { attachClaimSources } from "./providers/grounding";
+import { DEFAULT_REQUEST_OPTIONS, RequestOptions, runRequest } from "./requestRunner";
+import { detectInputLanguage, getResponseLanguage } from "./language";
+import { parsePartialJson } from "./partialJson";
+import { nextQuotaReset, USAGE_LABELS } from "./quotas";
+import { base64ToBytes, readImageMetadata } from "./imageMetadata";
+import { findMetadataEvidence, weighMetadataEvidence } from "./metadataEvidence";
+import { getCachedEnvelope, hashAnalysisInput, putCachedEnvelope } from "./resultCache";
+import { recordLastResult } from "./resultHistory";
+import { getToolUsage, isQuotaReached, markQuotaReached, recordUsage } from "./usageTracker";
+import {
+  validateAiVoiceDetectionResult,
+  parseModelJson,
+  readPartialArticleAnalysis,
+  validateArticleAnalysisResult,
+  validateAwarenessTemplateContent,
+  validateCallFraudAnalysisResult,
+  validateImageClassification,
+  validateImageDetectionResult,
+  validateReplyText,
+  validateSmsAnalysisResult,
+  validateTrendingTopics,
+} from "./validation";
 
-const API_KEY = process.env.API_KEY;
+// A model that keeps calling tools is cut off after this many rounds
+const MAX_CHAT_TOOL_ROUNDS = 3;
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
-}
+// The prompt each tool uses; versions live in the prompt registry
+const TOOL_PROMPTS: Record<AnalysisTool, PromptId> = {
+  image: 'image-forensics',
+  aivoice: 'voice-ai-detection',
+  voice: 'call-fraud',
+  article: 'article-factcheck',
+  sms: 'sms-fraud',
+  template: 'awareness-template',
+  trending: 'trending-topics',
+  chat: 'support-chat',
+};
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+const ACTION_LABELS: Record<AnalysisTool, string> = {
+  image: 'analyzing image',
+  aivoice: 'analyzing voice',
+  voice: 'analyzing call',
+  article: 'analyzing article',
+  sms: 'analyzing SMS',
+  template: 'generating template text',
+  trending: 'fetching trending topics',
+  chat: 'chatting',
+};
 
-// A helper to safely parse JSON responses that might be wrapped in markdown
-const cleanAndParseJson = (text: string) => {
-  let cleanedText = text.trim();
-  if (cleanedText.startsWith('```json')) {
-    cleanedText = cleanedText.substring(7, cleanedText.length - 3).trim();
-  } else if (cleanedText.startsWith('```')) {
-    cleanedText = cleanedText.substring(3, cleanedText.length - 3).trim();
-  }
-  return JSON.parse(cleanedText);
+// Audio uploads can be up to 10MB and take noticeably longer to process
+const TIMEOUTS_MS: Partial<Record<AnalysisTool, number>> = {
+  voice: 90_000,
+  aivoice: 90_000,
 };
 
+// Callers can pass a signal to cancel an analysis and override the timeout or retry count
+export interface AnalysisOptions extends RequestOptions {
+  // Skip the cached verdict and ask the model again; the fresh verdict replaces the cached one
+  bypassCache?: boolean;
+  // Run a specific prompt version instead of the active one
+  promptVersion?: number;
+  // Answer in this language instead of the one the user picked
+  language?: LanguageCode;
+}
 
-// Initialize a chat session for the chatbot
-const chat: Chat = ai.chats.create({
-  model: 'gemini-2.5-flash',
-  config: {
-    systemInstruction: "You are a helpful and friendly AI assistant. Answer the user's questions accurately and conversationally on a wide range of topics.",
-  },
-});
+export interface ChatbotOptions {
+  // Called with the reply so far each time more of it arrives
+  onText?: (text: string) => void;
+  // Stops the reply where it is
+  signal?: AbortSignal;
+}
 
-export const getChatbotResponse = async (message: string): Promise<string> => {
-    try {
-        const response = await chat.sendMessage({ message });
-        return response.text;
-    } catch (error) {
-        console.error("Error with chatbot:", error);
-        return "Sorry, I'm having trouble connecting. Please try again later.";
-    }
+export interface VoiceReplyOptions {
+  signal?: AbortSignal;
+  language?: LanguageCode;
+}
+
+export interface PromptVersionInfo {
+  version: number;
+  label: string;
+  notes: string;
+  active: boolean;
+}
+
+// A verdict produced by one prompt version during a side-by-side comparison
+export interface PromptVariantRun<T> {
+  version: number;
+  envelope: AnalysisEnvelope<T>;
+}
+
+
+const quotaMessage = (tool: AnalysisTool, limit: number | null | undefined) => {
+  const resetsAt = nextQuotaReset().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `You have used all ${limit ?? 'of your'} ${USAGE_LABELS[tool]} for today. Your allowance resets at ${resetsAt}.`;
 };
 
-export const analyzeImageForAI = async (base64Image: string, mimeType: string): Promise<any> => {
+// The result cache only saves model calls, so an analysis goes ahead without it
+// when it fails, e.g. on a page served over plain HTTP, where crypto.subtle is missing
+const tryCache = async <T,>(action: () => Promise<T>, fallback: T): Promise<T> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Image,
-            },
-          },
-          {
-            text: `You are a world-class forensic art analyst specializing in detecting sophisticated AI-generated illustrations. Your reputation depends on your meticulous attention to detail and your ability to see past the superficial polish of an image. Your default assumption is that any digital illustration you see is a potential forgery.
-
-**CRITICAL MANDATE: Begin your analysis from the background and periphery. Move inwards. The main subject is the last thing you should analyze in detail, as it is often used to distract from flaws elsewhere.**
-
-**FORENSIC ANALYSIS PROTOCOL:**
-
-**Step 1: Scrutinize for the 'Tell-Tale Trifecta' of AI Flaws.**
-These three areas are the most common points of failure for AI, even in otherwise high-quality images. Find a significant flaw in any ONE of these, and the image is almost certainly AI-generated.
-
-1.  **Muddled Background Details & Illogical Objects:**
-    *   Examine objects on shelves, posters on walls, and furniture. Do they blend into each other nonsensically?
-    *   Are art supplies (like brushes in a cup, paint jars) distinct objects, or are they a muddled, suggestive mess?
-    *   Do background drawings or posters have a coherent and consistent style, or do they look like vague, dream-like imitations of art?
-    *   This is the #1 giveaway. Be extremely critical here.
-
-2.  **Inconsistent Line Art & Style Schisms:**
-    *   Compare the line weight, quality, and style of the main character to the line art in the background. Is it consistent?
-    *   **CRITICAL:** If a character is drawing something on a tablet/paper *within the image*, is the line quality of their drawing *identical* to the line quality of the character themselves? A human artist will almost always have a different style for the art-within-the-art. AI generators often fail this test, using the same line style for both, which is a massive red flag.
-
-3.  **Uncanny Hands & Impossible Grips:**
-    *   Go beyond just counting fingers. Look at the *structure* of the hand. Are the knuckles, palm, and wrist correctly proportioned?
-    *   How is the hand interacting with objects? Is the pen/stylus held in a way that is physically plausible for applying pressure and drawing, or is it floating or awkwardly wedged between fingers?
-
-**Step 2: General Artistic Cohesion Check.**
-*   **Lighting:** Is the light source consistent across all elements? Are shadows cast logically?
-*   **Anatomy:** Besides hands, are there any other subtle anatomical errors (e.g., strange ears, misplaced facial features)?
-
-**Step 3: Final Verdict & Confidence Calibration.**
-*   **The One-Strike Rule is Absolute:** A single, significant, unexplainable artifact from the 'Tell-Tale Trifecta' is definitive proof. Do not be swayed by the polish of the main character.
-*   **Confidence Score Mandate:**
-    *   If you find **one clear flaw** from the Trifecta, your confidence score for 'AI-generated' **must be 85% or higher**.
-    *   If you find **multiple clear flaws**, your confidence score **must be 95% or higher**.
-    *   An 'Authentic' classification is only possible if the image passes **every single check** flawlessly. 'Uncertain' should be used sparingly, only when the evidence is truly ambiguous.
-*   **Explanation:** Your explanation must be a detailed forensic report, explicitly referencing which flaws you found and where, based on the protocol above.
-
-Provide your output as a JSON object with 'classification', 'confidence' (0-100), and a detailed 'explanation'.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            classification: { type: Type.STRING },
-            confidence: { type: Type.INTEGER },
-            explanation: { type: Type.STRING }
-          }
-        }
-      }
-    });
-    return cleanAndParseJson(response.text);
+    return await action();
   } catch (error) {
-    console.error("Error analyzing image:", error);
-    return { classification: 'Uncertain', confidence: 0, explanation: 'An error occurred during analysis.' };
+    console.warn('Result cache unavailable:', error);
+    return fallback;
   }
 };
 
-export const analyzeVoiceForAI = async (base64Audio: string, mimeType: string): Promise<AiVoiceDetectionResult> => {
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
-            },
-          },
-          {
-            text: `Analyze this audio and determine if the voice is AI-generated or a human voice. Provide a classification ('AI-Generated Voice', 'Human Voice', or 'Uncertain'), a confidence score (0-100) for your classification, aiming for over 90% accuracy, and a brief explanation for your reasoning.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            classification: { type: Type.STRING },
-            confidence: { type: Type.INTEGER },
-            explanation: { type: Type.STRING }
-          }
-        }
-      }
-    });
-    return cleanAndParseJson(response.text);
-  } catch (error) {
-    console.error("Error analyzing voice:", error);
-    return { classification: 'Uncertain', confidence: 0, explanation: 'An error occurred during voice analysis.' };
+// Calls the provider through the request runner, validates what it returns and
+// wraps the outcome in an envelope. Nothing is thrown: a failed request becomes an
+// 'error' envelope, malformed output an 'invalid' one and a cancelled request a
+// 'cancelled' one, so a failure can never pose as a verdict.
+// Every answer from the model counts towards the user's daily quota; cached
+// verdicts are free, and a used-up quota becomes a 'quota' envelope.
+// Tools that pass cacheParts (the input that determines the verdict) have their
+// verdicts cached, keyed together with the model, prompt version and language.
+// Text tools pass the text as languageSample so its language can be detected.
+// Every verdict, cached or fresh, is remembered as the user's last result.
+const runAnalysis = async <T, R = unknown>(
+  tool: AnalysisTool,
+  call: (provider: DetectionProvider, callOptions: ProviderCallOptions) => Promise<R>,
+  validate: (raw: R) => T,
+  { bypassCache = false, promptVersion: requestedVersion, language = getResponseLanguage(), ...options }: AnalysisOptions,
+  cacheParts?: string[],
+  languageSample?: string,
+): Promise<AnalysisEnvelope<T>> => {
+  const provider = getDetectionProvider();
+  const promptId = TOOL_PROMPTS[tool];
+  const promptVersion = requestedVersion ?? getActivePromptVersion(promptId);
+  const promptLabel = formatPromptVersion(promptId, promptVersion);
+  const inputLanguage = languageSample === undefined ? null : detectInputLanguage(languageSample);
+  // The api provider only learns the server's model from its first answer, so its
+  // verdicts are keyed by the provider; a key must not change between two lookups
+  const cacheModel = provider.id === 'api' ? provider.id : provider.modelId;
+  const cacheKey = cacheParts
+    ? await tryCache(() => hashAnalysisInput([tool, cacheModel, promptLabel, language, ...cacheParts]), null)
+    : null;
+  if (cacheKey && !bypassCache) {
+    const cached = await tryCache(() => getCachedEnvelope<T>(cacheKey), null);
+    if (cached) {
+      recordLastResult(tool, cached.result, cached.timestamp);
+      return { ...cached, fromCache: true };
+    }
+  }
+
+  const timestamp = new Date().toISOString();
+  const startedAt = performance.now();
+  const metadata = () => ({
+    modelId: provider.modelId,
+    promptVersion: promptLabel,
+    latencyMs: Math.round(performance.now() - startedAt),
+    timestamp,
+    language: { output: language, input: inputLanguage },
+  });
+
+  if (!findPrompt(promptId, promptVersion)) {
+    return { ...metadata(), status: 'error', result: null, error: `Unknown prompt version ${promptLabel}` };
+  }
+  if (isQuotaReached(tool)) {
+    return { ...metadata(), status: 'quota', result: null, error: quotaMessage(tool, getToolUsage(tool)?.limit) };
   }
-};
 
-export const analyzeCallForFraud = async (base64Audio: string, mimeType: string): Promise<CallFraudAnalysisResult> => {
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio,
-            },
-          },
-          {
-            text: `Perform a multi-faceted fraud analysis on this audio call.
-            1. Voice Analysis: Determine if the voice is an AI-generated voice or a human voice.
-            2. Keyword Detection: Transcribe the audio and identify any suspicious keywords like 'loan', 'OTP', 'password', 'account details', 'bank', 'card number', 'verify', 'urgent', 'prize'.
-            3. Fraud Assessment: Based on the voice and keywords, provide a final assessment ('Fraudulent Call' or 'Safe Call'). Classify as 'Fraudulent Call' if the voice is AI-generated OR if suspicious keywords are present.
-            4. Confidence Score: Provide a confidence score (0-100) for the overall assessment, aiming for over 90% accuracy.
-            5. Explanation: Briefly explain your reasoning.`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            classification: { type: Type.STRING },
-            keywordsFound: { type: Type.ARRAY, items: { type: Type.STRING } },
-            fraudAssessment: { type: Type.STRING },
-            confidence: { type: Type.INTEGER },
-            explanation: { type: Type.STRING }
-          }
-        }
-      }
+    const raw = await runRequest(signal => call(provider, { signal, promptVersion, language, inputLanguage }), {
+      timeoutMs: TIMEOUTS_MS[tool] ?? DEFAULT_REQUEST_OPTIONS.timeoutMs,
+      ...options,
+    }).catch(error => {
+      // The model did answer, even if the answer was unusable
+      if (error instanceof ResponseValidationError) recordUsage(tool);
+      throw error;
     });
-    return cleanAndParseJson(response.text);
+    recordUsage(tool);
+    const envelope: AnalysisEnvelope<T> = { ...metadata(), status: 'ok', result: validate(raw) };
+    if (cacheKey) await tryCache(() => putCachedEnvelope(cacheKey, tool, envelope), undefined);
+    recordLastResult(tool, envelope.result, timestamp);
+    return envelope;
   } catch (error) {
-    console.error("Error analyzing call:", error);
-    return { classification: 'Uncertain', keywordsFound: [], fraudAssessment: 'Uncertain', confidence: 0, explanation: 'An error occurred during call analysis.' };
+    if (error instanceof RequestCancelledError) {
+      return { ...metadata(), status: 'cancelled', result: null, error: error.message };
+    }
+    if (error instanceof QuotaExceededError) {
+      // The server counts across devices, so it can run out before the local count does
+      markQuotaReached(tool);
+      return { ...metadata(), status: 'quota', result: null, error: quotaMessage(tool, error.limit) };
+    }
+    if (error instanceof ResponseValidationError) {
+      console.warn(`Rejected model output while ${ACTION_LABELS[tool]}:`, error.message, error.received);
+      return { ...metadata(), status: 'invalid', result: null, error: error.message };
+    }
+    console.error(`Error ${ACTION_LABELS[tool]}:`, error);
+    return { ...metadata(), status: 'error', result: null, error: error instanceof Error ? error.message : String(error) };
   }
 };
 
+// What the model is told about a check it asked for; the full envelope goes to the UI
+const toToolResponse = (envelope: AnalysisEnvelope<unknown>): Record<string, unknown> =>
+  envelope.status === 'ok' ? { status: 'ok', result: envelope.result } : { status: envelope.status, error: envelope.error };
 
-export const analyzeArticleContent = async (content: string): Promise<any> => {
-    try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Perform a deep, critical analysis of the following article content. Break it down into its core claims. Meticulously fact-check each individual claim against multiple reliable, independent sources. For your findings, provide source attribution. Conclude with an overall misinformation risk level ('Low', 'Medium', 'High'), a credibility score (0-100), a list of relevant topic tags, and a concise, neutral summary of the content. Article content: "${content}"`,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        riskLevel: { type: Type.STRING },
-                        credibilityScore: { type: Type.INTEGER },
-                        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        summary: { type: Type.STRING },
-                        claims: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    claim: { type: Type.STRING },
-                                    verification: { type: Type.STRING }
-                                }
-                            }
-                        }
-                    }
-                }
-            }
-        });
-        return cleanAndParseJson(response.text);
-    } catch (error) {
-        console.error("Error analyzing article:", error);
-        return { riskLevel: 'High', credibilityScore: 0, tags: [], summary: 'Error during analysis.', claims: [] };
-    }
+const runChatTool = async (call: ChatToolCall, signal?: AbortSignal): Promise<{ analysis: ChatAnalysis | null; result: ChatToolResult }> => {
+  const content = typeof call.args.content === 'string' ? call.args.content.trim() : '';
+  const answer = (response: Record<string, unknown>) => ({ id: call.id, name: call.name, response });
+  if (!content) {
+    return { analysis: null, result: answer({ status: 'error', error: "'content' must be the text to check" }) };
+  }
+  if (call.name === 'analyze_sms') {
+    const senderType = typeof call.args.senderType === 'string' ? call.args.senderType : 'unknown';
+    const envelope = await analyzeSmsForFraud(content, senderType, { signal });
+    return { analysis: { tool: 'sms', envelope }, result: answer(toToolResponse(envelope)) };
+  }
+  if (call.name === 'analyze_article') {
+    const envelope = await analyzeArticleContent(content, { signal });
+    return { analysis: { tool: 'article', envelope }, result: answer(toToolResponse(envelope)) };
+  }
+  return { analysis: null, result: answer({ status: 'error', error: `There is no tool called ${call.name}` }) };
 };
 
-export const generateAwarenessTemplateText = async (prompt: string): Promise<any> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `Generate content for an awareness infographic based on this topic: "${prompt}". Provide a catchy title, 3-4 key bullet points explaining why the content is misleading, and 1-2 safety tips or verified sources. Make it concise and easy to share.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        title: { type: Type.STRING },
-                        highlights: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        tips: { type: Type.ARRAY, items: { type: Type.STRING } }
-                    }
-                }
-            }
-        });
-        return cleanAndParseJson(response.text);
-    } catch (error) {
-        console.error("Error generating template text:", error);
-        return { title: 'Error', highlights: ['Could not generate content.'], tips: [] };
+// Sends a message to the support chatbot. history is the conversation so far, as
+// returned in the turns of earlier replies; the service keeps no conversation of
+// its own, so threads belong to whoever holds them.
+// When the model asks for a check, it is run through the same analyzers as the
+// dashboard (quotas and cache included) and the envelopes are returned with the
+// reply so the chat can show them.
+// The reply streams in through onText; aborting the signal stops it and returns
+// the text that had arrived, marked as stopped.
+export const getChatbotResponse = async (message: string, history: ChatTurn[] = [], options: ChatbotOptions = {}): Promise<ChatbotReply> => {
+    const { onText, signal } = options;
+    const analyses: ChatAnalysis[] = [];
+    const turns: ChatTurn[] = [];
+    let text = '';
+    if (isQuotaReached('chat')) {
+        return { text: quotaMessage('chat', getToolUsage('chat')?.limit), analyses, turns, stopped: false };
     }
-};
-
-export const analyzeSmsForFraud = async (content: string, senderType: string): Promise<SmsAnalysisResult> => {
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Analyze the following SMS message for signs of fraud, considering its sender ID type.
-            Sender ID Type: "${senderType}"
-            Message: "${content}"
-            
-            Common fraud indicators include:
-            - Urgency (e.g., "act now", "limited time")
-            - Suspicious links (especially shortened URLs)
-            - Requests for personal information (passwords, OTPs, bank details)
-            - Unsolicited prize winnings or job offers
-            - Threats or warnings (e.g., "account will be suspended")
-            - Alphanumeric sender IDs for non-transactional messages.
-
-            Based on these indicators, determine if this is likely a fraudulent message.
-            Provide a classification ('safe' or 'fraud') and a brief, helpful explanation for the user.`,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        classification: { type: Type.STRING },
-                        explanation: { type: Type.STRING }
-                    }
+        const session = getDetectionProvider().createChatSession('support', history, getResponseLanguage());
+        const exchange = async (turn: ChatTurn, events: AsyncIterable<ChatStreamEvent>): Promise<ChatToolCall[]> => {
+            text = '';
+            const toolCalls: ChatToolCall[] = [];
+            for await (const event of events) {
+                if (event.type === 'toolCalls') {
+                    toolCalls.push(...event.toolCalls);
+                } else {
+                    text += event.text;
+                    onText?.(text);
                 }
             }
-        });
-        const result = cleanAndParseJson(response.text);
-        if (result.classification !== 'safe' && result.classification !== 'fraud') {
-            return { classification: 'safe', explanation: 'Received an unexpected classification. Defaulting to safe.' };
+            recordUsage('chat');
+            turns.push(turn, { role: 'model', text, toolCalls });
+            return toolCalls;
+        };
+
+        let toolCalls = await exchange({ role: 'user', text: message }, session.streamMessage(message, signal));
+        for (let round = 0; toolCalls.length > 0 && round < MAX_CHAT_TOOL_ROUNDS; round++) {
+            const outcomes = await Promise.all(toolCalls.map(call => runChatTool(call, signal)));
+            outcomes.forEach(({ analysis }) => analysis && analysis.envelope.status !== 'cancelled' && analyses.push(analysis));
+            const toolResults = outcomes.map(({ result }) => result);
+            toolCalls = await exchange({ role: 'user', text: '', toolResults }, session.streamToolResults(toolResults, signal));
         }
-        return result;
+        return { text: validateReplyText(text), analyses, turns, stopped: false };
     } catch (error) {
-        console.error("Error analyzing SMS:", error);
-        return { classification: 'safe', explanation: 'An error occurred during analysis.' };
+        if (signal?.aborted) {
+            // A stopped reply is kept as far as it got. Any tool exchanges behind it
+            // are left out of the history so no tool call goes unanswered.
+            const partial = text.trim();
+            return {
+                text: partial,
+                analyses,
+                turns: partial ? [{ role: 'user', text: message }, { role: 'model', text: partial }] : [],
+                stopped: true,
+            };
+        }
+        if (error instanceof QuotaExceededError) {
+            // The server counts across devices, so it can run out before the local count does
+            markQuotaReached('chat');
+            return { text: quotaMessage('chat', error.limit), analyses, turns: [], stopped: false };
+        }
+        console.error("Error with chatbot:", error);
+        // A half-finished exchange (e.g. tool calls without results) would break the
+        // conversation, so none of it is kept
+        return { text: "Sorry, I'm having trouble connecting. Please try again later.", analyses, turns: [], stopped: false };
     }
 };
 
-export const getTrendingTopics = async (): Promise<{ topic: string; risk: string; score: number }[]> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: "List the top 5 trending misinformation topics or narratives currently circulating online. For each topic, provide a short title, a risk level ('High', 'Medium', 'Low'), and a credibility score (0-100). Format each as: `Title - Risk: [level] - Credibility: [score]`",
-            config: {
-                tools: [{ googleSearch: {} }],
-            },
-        });
-
-        const text = response.text;
-        const topics = text.split('\n').map(line => {
-            const match = line.match(/(?:\d+\.\s*)?(.*?)\s*-\s*Risk:\s*(.*?)\s*-\s*Credibility:\s*(\d+)/);
-            if (match) {
-                return {
-                    topic: match[1].trim().replace(/^"|"$/g, ''),
-                    risk: match[2].trim(),
-                    score: parseInt(match[3], 10),
-                };
-            }
-            return null;
-        }).filter((item): item is { topic: string; risk: string; score: number } => item !== null);
-        
-        if(topics.length > 0) return topics.slice(0, 5);
-        
-        if(text) return [{ topic: "Could not parse trending topics.", risk: 'Medium', score: 50 }];
-
-        return [];
-    } catch (error) {
-        console.error("Error fetching trending topics:", error);
-        return [{ topic: 'Error fetching topics.', risk: 'High', score: 0 }];
-    }
+export interface ImageAnalysisOptions extends AnalysisOptions {
+  // Check the image as this kind of image instead of letting the model decide
+  imageType?: ImageType;
+}
+
+// The provider first has the image-type prompt decide what kind of image this
+// is, unless the caller says, and the image-forensics prompt then checks it with
+// the protocol for that kind (see providers/imageCheck.ts); both calls count as
+// one analysis. Prompt versions without protocols skip the first call.
+// What the file's own metadata says (EXIF, XMP, IPTC, C2PA) is read here,
+// without the model, and weighed with the model's verdict
+// Metadata only adds to the verdict, so a file the parsers choke on (e.g. a
+// malformed base64 payload) is analyzed without it
+const readMetadataEvidence = (base64Image: string): MetadataEvidence[] => {
+  try {
+    return findMetadataEvidence(readImageMetadata(base64ToBytes(base64Image)));
+  } catch (error) {
+    console.warn('Could not read the image metadata:', error);
+    return [];
+  }
+};
+
+export const analyzeImageForAI = (
+  base64Image: string,
+  mimeType: string,
+  { imageType, ...options }: ImageAnalysisOptions = {},
+): Promise<AnalysisEnvelope<ImageDetectionResult>> => {
+  const evidence = readMetadataEvidence(base64Image);
+  return runAnalysis(
+    'image',
+    async (provider, callOptions) => ({
+      check: await provider.checkImage(base64Image, mimeType, { ...callOptions, imageType }),
+      hasModes: Boolean(findPrompt('image-forensics', callOptions.promptVersion)?.protocols),
+    }),
+    ({ check, hasModes }) => {
+      const mode: ImageMode | undefined = !hasModes
+        ? undefined
+        : imageType
+          ? { type: imageType, source: 'chosen', reason: null }
+          : validateImageClassification(check.classification);
+      return { ...weighMetadataEvidence(validateImageDetectionResult(check.result), evidence), ...(mode ? { mode } : {}) };
+    },
+    options,
+    [mimeType, imageType ?? 'auto', base64Image],
+  );
+};
+
+export const analyzeVoiceForAI = (base64Audio: string, mimeType: string, options: AnalysisOptions = {}): Promise<AnalysisEnvelope<AiVoiceDetectionResult>> =>
+  runAnalysis('aivoice', (provider, callOptions) => provider.analyzeVoice(base64Audio, mimeType, callOptions), validateAiVoiceDetectionResult, options, [mimeType, base64Audio]);
+
+export const analyzeCallForFraud = (base64Audio: string, mimeType: string, options: AnalysisOptions = {}): Promise<AnalysisEnvelope<CallFraudAnalysisResult>> =>
+  runAnalysis('voice', (provider, callOptions) => provider.analyzeCall(base64Audio, mimeType, callOptions), validateCallFraudAnalysisResult, options, [mimeType, base64Audio]);
+
+export const analyzeArticleContent = (content: string, options: AnalysisOptions = {}): Promise<AnalysisEnvelope<ArticleAnalysisResult>> =>
+    runAnalysis('article', (provider, callOptions) => provider.analyzeArticle(content, callOptions), validateArticleAnalysisResult, options, [content], content);
+
+// Streams the analysis and reports the summary and each completed claim through
+// onProgress as they arrive. The returned envelope is the same as for
+// analyzeArticleContent; a retry starts the progress over from scratch.
+export const analyzeArticleContentStream = (
+  content: string,
+  onProgress: (progress: PartialArticleAnalysis) => void,
+  options: AnalysisOptions = {},
+): Promise<AnalysisEnvelope<ArticleAnalysisResult>> =>
+    runAnalysis('article', async (provider, callOptions) => {
+      let text = '';
+      let lastSnapshot = '';
+      let claimSources: SourceLink[][] | null = null;
+      for await (const event of provider.streamArticleAnalysis(content, callOptions)) {
+        if (event.type === 'sources') {
+          claimSources = event.claims;
+          continue;
+        }
+        text += event.text;
+        const progress = readPartialArticleAnalysis(parsePartialJson(text));
+        // Most chunks only extend a value that is still incomplete
+        const snapshot = JSON.stringify(progress);
+        if (snapshot !== lastSnapshot) {
+          lastSnapshot = snapshot;
+          onProgress(progress);
+        }
+      }
+      const raw = parseModelJson(text);
+      return claimSources ? attachClaimSources(raw, claimSources) : raw;
+    }, validateArticleAnalysisResult, options, [content], content);
+
+export const generateAwarenessTemplateText = (prompt: string, options: AnalysisOptions = {}): Promise<AnalysisEnvelope<AwarenessTemplateContent>> =>
+    runAnalysis('template', (provider, callOptions) => provider.generateAwarenessTemplate(prompt, callOptions), validateAwarenessTemplateContent, options, undefined, prompt);
+
+export const analyzeSmsForFraud = (content: string, senderType: string, options: AnalysisOptions = {}): Promise<AnalysisEnvelope<SmsAnalysisResult>> =>
+    runAnalysis('sms', (provider, callOptions) => provider.analyzeSms(content, senderType, callOptions), validateSmsAnalysisResult, options, [senderType, content], content);
+
+export const getTrendingTopics = (options: AnalysisOptions = {}): Promise<AnalysisEnvelope<TrendingTopic[]>> =>
+    runAnalysis('trending', (provider, callOptions) => provider.getTrendingTopics(callOptions), validateTrendingTopics, options);
+
+export const getPromptVersions = (tool: AnalysisTool): PromptVersionInfo[] => {
+  const promptId = TOOL_PROMPTS[tool];
+  return listPromptVersions(promptId).map(prompt => ({
+    version: prompt.version,
+    label: formatPromptVersion(promptId, prompt.version),
+    notes: prompt.notes,
+    active: prompt.version === getActivePromptVersion(promptId),
+  }));
 };
 
-export const getVoiceAssistantResponse = async (text: string): Promise<string> => {
+// Runs the same input through several prompt versions in parallel so analysts
+// can compare their verdicts. Cached verdicts are skipped so every run is fresh.
+export const comparePromptVariants = <T,>(
+  versions: number[],
+  analyze: (options: AnalysisOptions) => Promise<AnalysisEnvelope<T>>,
+  options: AnalysisOptions = {},
+): Promise<PromptVariantRun<T>[]> =>
+  Promise.all(versions.map(async version => ({
+    version,
+    envelope: await analyze({ ...options, promptVersion: version, bypassCache: true }),
+  })));
+
+// One turn of a spoken conversation. Like the chatbot, the service keeps no
+// dialogue of its own: history is the conversation so far, as returned in the
+// turns of earlier replies. The reply is in language, by default the one the
+// user reads results in.
+export const getVoiceConversationReply = async (
+    text: string,
+    history: ChatTurn[] = [],
+    { signal, language = getResponseLanguage() }: VoiceReplyOptions = {},
+): Promise<VoiceReply> => {
+    if (isQuotaReached('chat')) return { text: quotaMessage('chat', getToolUsage('chat')?.limit), turns: [] };
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: `You are a helpful voice assistant for CodeHustlers. Respond to the following user query concisely, as if you were speaking. Do not provide links or act like a search engine. Give a direct answer. Query: "${text}"`,
-        });
-        return response.text;
+        const session = getDetectionProvider().createChatSession('voice', history, language);
+        let reply = '';
+        for await (const event of session.streamMessage(text, signal)) {
+            if (event.type === 'text') reply += event.text;
+        }
+        recordUsage('chat');
+        const answer = validateReplyText(reply);
+        return { text: answer, turns: [{ role: 'user', text }, { role: 'model', text: answer }] };
     } catch (error) {
+        if (signal?.aborted) return { text: '', turns: [] };
+        if (error instanceof QuotaExceededError) {
+            markQuotaReached('chat');
+            return { text: quotaMessage('chat', error.limit), turns: [] };
+        }
         console.error("Error with voice assistant:", error);
-        return "Sorry, I couldn't process that. Please try again.";
+        return { text: "Sorry, I couldn't process that. Please try again.", turns: [] };
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,235 @@
+import { ForensicView } from "../types";
+
+// Forensic views of an image, computed in the browser so the image is not
+// uploaded again. Each view is a heatmap to lay over the image, where bright
+// areas are the ones worth a closer look:
+// - Error level analysis: the image is saved again as a JPEG and compared with
+//   itself. Areas pasted in or edited after the last save often re-compress
+//   differently from the rest.
+// - Noise residual: what is left after smoothing, averaged locally. Camera
+//   sensors leave an even grain, so patches that are much cleaner or noisier
+//   than their surroundings may come from another source.
+// - Copy-move: blocks of pixels that appear again elsewhere in the image at
+//   the same offset, as left by cloning parts of an image over others.
+
+// RGBA pixels, as in ImageData
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface ForensicOverlay {
+  pixels: PixelBuffer;
+  // Copy-move only: how many distinct offsets regions were found copied at
+  copies?: number;
+}
+
+// Larger images are scaled down first. Scaling blurs the JPEG block grid error
+// levels depend on, so those are kept near full size; the block search for
+// copies needs speed.
+const MAX_ANALYSIS_SIDE: Record<ForensicView, number> = { ela: 4096, noise: 2048, 'copy-move': 480 };
+// JPEG quality the image is saved again at for error level analysis
+const ELA_QUALITY = 0.9;
+
+// The brightest 1% of a map is shown at full strength, so faint maps stay visible
+const HEAT_PERCENTILE = 0.99;
+
+// Estimated from an even sample, as sorting every pixel of a large photo is slow
+const PERCENTILE_SAMPLES = 100_000;
+
+const percentile = (values: Float32Array, share: number) => {
+  const stride = Math.max(1, Math.floor(values.length / PERCENTILE_SAMPLES));
+  const sample = new Float32Array(Math.ceil(values.length / stride));
+  for (let index = 0; index < sample.length; index++) sample[index] = values[index * stride];
+  sample.sort();
+  return sample[Math.min(sample.length - 1, Math.floor(sample.length * share))];
+};
+
+// Dark red through yellow to white, more opaque as it gets hotter
+const toHeatmap = (values: Float32Array, width: number, height: number): PixelBuffer => {
+  const scale = percentile(values, HEAT_PERCENTILE) || 1;
+  const data = new Uint8ClampedArray(width * height * 4);
+  values.forEach((value, index) => {
+    const heat = Math.min(1, value / scale);
+    data[index * 4] = Math.min(255, heat * 3 * 255);
+    data[index * 4 + 1] = Math.max(0, Math.min(255, (heat * 3 - 1) * 255));
+    data[index * 4 + 2] = Math.max(0, Math.min(255, (heat * 3 - 2) * 255));
+    data[index * 4 + 3] = Math.min(255, heat * 1.5 * 255);
+  });
+  return { width, height, data };
+};
+
+const luminance = ({ width, height, data }: PixelBuffer) => {
+  const values = new Float32Array(width * height);
+  for (let index = 0; index < values.length; index++) {
+    values[index] = 0.299 * data[index * 4] + 0.587 * data[index * 4 + 1] + 0.114 * data[index * 4 + 2];
+  }
+  return values;
+};
+
+// Mean over a (2 * radius + 1)² window, from a summed-area table
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number) => {
+  const sums = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+  const blurred = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const sum = sums[bottom * (width + 1) + right] - sums[top * (width + 1) + right]
+        - sums[bottom * (width + 1) + left] + sums[top * (width + 1) + left];
+      blurred[y * width + x] = sum / ((bottom - top) * (right - left));
+    }
+  }
+  return blurred;
+};
+
+// The largest difference in any colour channel between the image and its re-saved copy
+export const errorLevelMap = (original: PixelBuffer, resaved: PixelBuffer): PixelBuffer => {
+  const { width, height } = original;
+  const values = new Float32Array(width * height);
+  for (let index = 0; index < values.length; index++) {
+    const offset = index * 4;
+    values[index] = Math.max(
+      Math.abs(original.data[offset] - resaved.data[offset]),
+      Math.abs(original.data[offset + 1] - resaved.data[offset + 1]),
+      Math.abs(original.data[offset + 2] - resaved.data[offset + 2]),
+    );
+  }
+  return toHeatmap(values, width, height);
+};
+
+const NOISE_RADIUS = 4;
+
+export const noiseResidualMap = (image: PixelBuffer): PixelBuffer => {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const smooth = boxBlur(gray, width, height, 1);
+  const residual = gray.map((value, index) => Math.abs(value - smooth[index]));
+  return toHeatmap(boxBlur(residual, width, height, NOISE_RADIUS), width, height);
+};
+
+const BLOCK = 8;
+const BLOCK_STEP = 2;
+// Flat blocks (sky, walls) match each other everywhere and are not compared
+const MIN_BLOCK_DEVIATION = 6;
+// Brightness steps a block is rounded to, so light re-compression still matches
+const QUANTUM = 8;
+// Copies closer than this overlap their source
+const MIN_SHIFT = BLOCK * 2;
+// Repeating textures make very common blocks, which say nothing about copying
+const MAX_GROUP = 12;
+// Matches at one offset needed before a region counts as copied
+const MIN_MATCHES = 10;
+
+export const copyMoveMap = (image: PixelBuffer): { pixels: PixelBuffer; copies: number } => {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const groups = new Map<string, number[]>();
+
+  for (let y = 0; y + BLOCK <= height; y += BLOCK_STEP) {
+    for (let x = 0; x + BLOCK <= width; x += BLOCK_STEP) {
+      // A 4x4 grid of 2x2 averages describes the block
+      const cells: number[] = [];
+      for (let cellY = 0; cellY < BLOCK; cellY += 2) {
+        for (let cellX = 0; cellX < BLOCK; cellX += 2) {
+          const at = (y + cellY) * width + x + cellX;
+          cells.push((gray[at] + gray[at + 1] + gray[at + width] + gray[at + width + 1]) / 4);
+        }
+      }
+      const mean = cells.reduce((sum, cell) => sum + cell, 0) / cells.length;
+      const deviation = Math.sqrt(cells.reduce((sum, cell) => sum + (cell - mean) ** 2, 0) / cells.length);
+      if (deviation < MIN_BLOCK_DEVIATION) continue;
+      const key = cells.map(cell => Math.round(cell / QUANTUM)).join(',');
+      const group = groups.get(key);
+      if (!group) groups.set(key, [y * width + x]);
+      else if (group.length <= MAX_GROUP) group.push(y * width + x);
+    }
+  }
+
+  // Copied regions show up as many matching block pairs at the same offset
+  const pairsByShift = new Map<string, [number, number][]>();
+  groups.forEach(group => {
+    if (group.length < 2 || group.length > MAX_GROUP) return;
+    for (let first = 0; first < group.length; first++) {
+      for (let second = first + 1; second < group.length; second++) {
+        const dx = (group[second] % width) - (group[first] % width);
+        const dy = Math.floor(group[second] / width) - Math.floor(group[first] / width);
+        if (Math.hypot(dx, dy) < MIN_SHIFT) continue;
+        const shift = `${dx},${dy}`;
+        const pairs = pairsByShift.get(shift);
+        if (pairs) pairs.push([group[first], group[second]]);
+        else pairsByShift.set(shift, [[group[first], group[second]]]);
+      }
+    }
+  });
+
+  const values = new Float32Array(width * height);
+  let copies = 0;
+  pairsByShift.forEach(pairs => {
+    if (pairs.length < MIN_MATCHES) return;
+    copies++;
+    pairs.flat().forEach(start => {
+      for (let y = 0; y < BLOCK; y++) values.fill(1, start + y * width, start + y * width + BLOCK);
+    });
+  });
+  return { pixels: toHeatmap(values, width, height), copies };
+};
+
+// --- Browser ---
+
+const loadImage = async (url: string) => {
+  const image = new Image();
+  image.src = url;
+  await image.decode();
+  return image;
+};
+
+const readPixels = (source: CanvasImageSource, width: number, height: number): PixelBuffer => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(source, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
+
+const resaveAsJpeg = async (pixels: PixelBuffer): Promise<PixelBuffer> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  canvas.getContext('2d')?.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', ELA_QUALITY));
+  if (!blob) throw new Error('Could not re-encode the image');
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return readPixels(bitmap, pixels.width, pixels.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Computes one view of the image at imageUrl (an object URL of the upload)
+export const computeForensicOverlay = async (imageUrl: string, view: ForensicView): Promise<ForensicOverlay> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, MAX_ANALYSIS_SIDE[view] / Math.max(image.naturalWidth, image.naturalHeight));
+  const pixels = readPixels(image, Math.max(1, Math.round(image.naturalWidth * scale)), Math.max(1, Math.round(image.naturalHeight * scale)));
+  switch (view) {
+    case 'ela':
+      return { pixels: errorLevelMap(pixels, await resaveAsJpeg(pixels)) };
+    case 'noise':
+      return { pixels: noiseResidualMap(pixels) };
+    case 'copy-move':
+      return copyMoveMap(pixels);
+  }
+};
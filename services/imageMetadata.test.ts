@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { base64ToBytes, readImageMetadata } from './imageMetadata';
+
+const latin1 = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const u16 = (value: number) => [value >> 8, value & 0xff];
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+
+// Checksums are not verified by the reader, so they are left as zeros
+const pngChunk = (type: string, data: number[]) => [...u32(data.length), ...latin1(type), ...data, 0, 0, 0, 0];
+
+const png = (...chunks: number[][]) =>
+  new Uint8Array([...latin1('\x89PNG\r\n\x1a\n'), ...pngChunk('IHDR', new Array(13).fill(0)), ...chunks.flat(), ...pngChunk('IEND', [])]);
+
+const jpegSegment = (marker: number, data: number[]) => [0xff, marker, ...u16(data.length + 2), ...data];
+
+const jpeg = (...segments: number[][]) => new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xda, 0, 2, 0xff, 0xd9]);
+
+// A big-endian TIFF block with ASCII tags in IFD0
+const tiff = (tags: [number, string][]) => {
+  const ifdSize = 2 + tags.length * 12 + 4;
+  let valueOffset = 8 + ifdSize;
+  const entries: number[] = [];
+  const values: number[] = [];
+  for (const [tag, text] of tags) {
+    const value = [...latin1(text), 0];
+    entries.push(...u16(tag), ...u16(2), ...u32(value.length));
+    if (value.length <= 4) {
+      entries.push(...value, ...new Array(4 - value.length).fill(0));
+    } else {
+      entries.push(...u32(valueOffset));
+      values.push(...value);
+      valueOffset += value.length;
+    }
+  }
+  return [...latin1('MM'), 0, 42, ...u32(8), ...u16(tags.length), ...entries, ...u32(0), ...values];
+};
+
+describe('readImageMetadata', () => {
+  it('reads PNG text chunks and marks generator settings', () => {
+    const metadata = readImageMetadata(png(
+      pngChunk('tEXt', [...latin1('parameters'), 0, ...latin1('a cat, Steps: 30, Sampler: Euler a')]),
+      pngChunk('tEXt', [...latin1('Author'), 0, ...latin1('  Jane   Doe ')]),
+    ));
+    expect(metadata.format).toBe('png');
+    expect(metadata.c2pa).toBeNull();
+    expect(metadata.fields).toEqual([
+      { source: 'PNG text', label: 'Generator parameters', value: 'a cat, Steps: 30, Sampler: Euler a' },
+      { source: 'PNG text', label: 'Author', value: 'Jane Doe' },
+    ]);
+  });
+
+  it('reads EXIF tags from a JPEG', () => {
+    const metadata = readImageMetadata(jpeg(jpegSegment(0xe1, [
+      ...latin1('Exif\0\0'),
+      ...tiff([[0x010f, 'Canon'], [0x0110, 'EOS R5'], [0x0131, 'Adobe Photoshop 25.0']]),
+    ])));
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.fields).toEqual([
+      { source: 'EXIF', label: 'Camera make', value: 'Canon' },
+      { source: 'EXIF', label: 'Camera model', value: 'EOS R5' },
+      { source: 'EXIF', label: 'Software', value: 'Adobe Photoshop 25.0' },
+    ]);
+  });
+
+  it('reads XMP properties written as attributes or lists', () => {
+    const xmp = `<x:xmpmeta><rdf:RDF><rdf:Description xmp:CreatorTool="Adobe Firefly"
+      Iptc4xmpExt:DigitalSourceType="http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia">
+      <dc:creator><rdf:Seq><rdf:li>Jane &amp; John</rdf:li></rdf:Seq></dc:creator>
+      </rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const metadata = readImageMetadata(jpeg(jpegSegment(0xe1, [...latin1('http://ns.adobe.com/xap/1.0/\0'), ...latin1(xmp)])));
+    expect(metadata.fields).toEqual([
+      { source: 'XMP', label: 'Creator tool', value: 'Adobe Firefly' },
+      { source: 'XMP', label: 'Digital source type', value: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia' },
+      { source: 'XMP', label: 'Creator', value: 'Jane & John' },
+    ]);
+  });
+
+  it('keeps what it could read from a damaged file', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      const damaged = [...latin1('Exif\0\0'), ...latin1('XX'), 0, 42];
+      const metadata = readImageMetadata(jpeg(
+        jpegSegment(0xe1, damaged),
+        jpegSegment(0xe1, [...latin1('Exif\0\0'), ...tiff([[0x0131, 'GIMP 2.10']])]),
+      ));
+      expect(metadata.fields).toEqual([{ source: 'EXIF', label: 'Software', value: 'GIMP 2.10' }]);
+      expect(warn).toHaveBeenCalledOnce();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('recognizes formats without metadata', () => {
+    expect(readImageMetadata(png())).toEqual({ format: 'png', fields: [], c2pa: null });
+    expect(readImageMetadata(new Uint8Array([...latin1('RIFF'), 4, 0, 0, 0, ...latin1('WEBP')])).format).toBe('webp');
+    expect(readImageMetadata(new Uint8Array(latin1('GIF89a'))).format).toBe('unknown');
+  });
+});
+
+describe('base64ToBytes', () => {
+  it('decodes base64 to bytes', () => {
+    expect(Array.from(base64ToBytes('/9j/'))).toEqual([0xff, 0xd8, 0xff]);
+  });
+});
@@ -0,0 +1,520 @@
+import { C2paManifest, ImageMetadata, MetadataField, MetadataSource } from "../types";
+
+// Reads the metadata stored inside an image file, in the browser and without
+// the model: EXIF, XMP and IPTC from JPEG, PNG and WebP files, PNG text chunks
+// (where Stable Diffusion tools write their settings) and the active C2PA
+// manifest (Content Credentials). Only what is useful for judging where an
+// image came from is kept. Damaged or unusual sections are skipped, so a file
+// always yields whatever could be read.
+
+const utf8 = new TextDecoder('utf-8');
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  Array.from(bytes.subarray(start, start + length), byte => String.fromCharCode(byte)).join('');
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => ascii(bytes, offset, text.length) === text;
+
+const clean = (value: string) => value.replace(/\0+$/, '').replace(/\s+/g, ' ').trim();
+
+// Values such as Stable Diffusion prompts can run to pages
+const MAX_VALUE_LENGTH = 500;
+
+interface Collector {
+  fields: MetadataField[];
+  c2pa: C2paManifest | null;
+}
+
+const addField = (collector: Collector, source: MetadataSource, label: string, value: string) => {
+  const text = clean(value);
+  if (!text || collector.fields.some(field => field.source === source && field.label === label && field.value === text)) return;
+  collector.fields.push({
+    source,
+    label,
+    value: text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text,
+  });
+};
+
+// A section that cannot be read is skipped rather than losing the rest of the file
+const tryRead = (section: string, read: () => void) => {
+  try {
+    read();
+  } catch (error) {
+    console.warn(`Skipped unreadable ${section} metadata:`, error);
+  }
+};
+
+// --- EXIF (TIFF structure) ---
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'Description',
+  0x010f: 'Camera make',
+  0x0110: 'Camera model',
+  0x0131: 'Software',
+  0x0132: 'Modified',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829a: 'Exposure time',
+  0x829d: 'F-number',
+  0x8827: 'ISO',
+  0x9003: 'Taken',
+  0x920a: 'Focal length',
+  0x9286: 'User comment',
+  0xa433: 'Lens make',
+  0xa434: 'Lens model',
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const formatRational = (tag: number, numerator: number, denominator: number) => {
+  if (denominator === 0) return '';
+  if (tag === 0x829a && numerator < denominator) return `1/${Math.round(denominator / numerator)} s`;
+  const value = Number((numerator / denominator).toFixed(2));
+  if (tag === 0x829d) return `f/${value}`;
+  if (tag === 0x920a) return `${value} mm`;
+  return String(value);
+};
+
+const readTiff = (bytes: Uint8Array, collector: Collector) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = startsWith(bytes, 0, 'II');
+  if (!little && !startsWith(bytes, 0, 'MM')) throw new Error('Not a TIFF header');
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+  const visited = new Set<number>();
+
+  const readIfd = (offset: number, tags: Record<number, string>) => {
+    if (visited.has(offset) || offset + 2 > bytes.length) return;
+    visited.add(offset);
+    const count = u16(offset);
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12;
+      if (entry + 12 > bytes.length) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const valueCount = u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+      const valueOffset = size <= 4 ? entry + 8 : u32(entry + 8);
+      if (size === 0 || valueOffset + size > bytes.length) continue;
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(u32(entry + 8), EXIF_TAGS);
+      } else if (tag === GPS_IFD_POINTER) {
+        addField(collector, 'EXIF', 'Location', 'GPS position recorded');
+      } else if (tags[tag]) {
+        let value = '';
+        if (type === 2) {
+          value = ascii(bytes, valueOffset, size);
+        } else if (type === 7 && tag === 0x9286) {
+          // The first 8 bytes name the character code
+          const unicode = startsWith(bytes, valueOffset, 'UNICODE');
+          const text = bytes.subarray(valueOffset + 8, valueOffset + size);
+          value = unicode ? new TextDecoder(little ? 'utf-16le' : 'utf-16be').decode(text) : utf8.decode(text);
+        } else if (type === 3) {
+          value = String(u16(valueOffset));
+        } else if (type === 4) {
+          value = String(u32(valueOffset));
+        } else if (type === 5) {
+          value = formatRational(tag, u32(valueOffset), u32(valueOffset + 4));
+        }
+        addField(collector, 'EXIF', tags[tag], value);
+      }
+    }
+  };
+
+  readIfd(u32(4), IFD0_TAGS);
+};
+
+// --- XMP ---
+
+const XMP_PROPERTIES: { name: string; label: string }[] = [
+  { name: 'xmp:CreatorTool', label: 'Creator tool' },
+  { name: 'Iptc4xmpExt:DigitalSourceType', label: 'Digital source type' },
+  { name: 'photoshop:Credit', label: 'Credit' },
+  { name: 'dc:creator', label: 'Creator' },
+  { name: 'dc:description', label: 'Description' },
+  { name: 'xmp:CreateDate', label: 'Created' },
+  { name: 'xmp:ModifyDate', label: 'Modified' },
+  { name: 'tiff:Make', label: 'Camera make' },
+  { name: 'tiff:Model', label: 'Camera model' },
+  { name: 'exif:DateTimeOriginal', label: 'Taken' },
+  { name: 'stEvt:softwareAgent', label: 'Edited with' },
+  { name: 'stEvt:action', label: 'Edit history' },
+  { name: 'photoshop:History', label: 'Edit history' },
+];
+
+const decodeEntities = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+
+// A property can be written as an attribute, as an element, or as an element
+// holding an rdf:Seq/Bag/Alt list
+const xmpValues = (xmp: string, name: string): string[] => {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const values: string[] = [];
+  for (const match of xmp.matchAll(new RegExp(`\\s${escaped}="([^"]*)"`, 'g'))) values.push(match[1]);
+  for (const match of xmp.matchAll(new RegExp(`<${escaped}(\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, 'g'))) {
+    const resource = match[1]?.match(/rdf:resource="([^"]*)"/);
+    if (resource) values.push(resource[1]);
+    const items = [...match[2].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g)].map(item => item[1]);
+    values.push(...(items.length > 0 ? items : [match[2]]).map(value => value.replace(/<[^>]+>/g, '')));
+  }
+  for (const match of xmp.matchAll(new RegExp(`<${escaped}\\s[^>]*rdf:resource="([^"]*)"[^>]*/>`, 'g'))) values.push(match[1]);
+  return values.map(decodeEntities);
+};
+
+const readXmp = (xmp: string, collector: Collector) => {
+  for (const { name, label } of XMP_PROPERTIES) {
+    const values = [...new Set(xmpValues(xmp, name).map(clean).filter(Boolean))];
+    if (values.length > 0) addField(collector, 'XMP', label, values.join(', '));
+  }
+};
+
+// --- IPTC (IIM records in a Photoshop image resource block) ---
+
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'Title',
+  25: 'Keywords',
+  55: 'Created',
+  65: 'Originating program',
+  80: 'By-line',
+  110: 'Credit',
+  115: 'Source',
+  116: 'Copyright',
+  120: 'Caption',
+};
+
+const IPTC_RESOURCE_ID = 0x0404;
+
+const readIptc = (bytes: Uint8Array, collector: Collector) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 12 <= bytes.length && startsWith(bytes, offset, '8BIM')) {
+    const id = view.getUint16(offset + 4);
+    // A Pascal string name, padded to an even length
+    const nameLength = bytes[offset + 6];
+    const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    const size = view.getUint32(sizeOffset);
+    const dataStart = sizeOffset + 4;
+    if (id === IPTC_RESOURCE_ID) {
+      const values: Record<string, string[]> = {};
+      let record = dataStart;
+      const end = Math.min(dataStart + size, bytes.length);
+      while (record + 5 <= end && bytes[record] === 0x1c) {
+        const dataset = bytes[record + 2];
+        const length = view.getUint16(record + 3);
+        // Extended lengths are only used for binary records
+        if (length & 0x8000) break;
+        if (bytes[record + 1] === 2 && IPTC_DATASETS[dataset]) {
+          (values[IPTC_DATASETS[dataset]] ??= []).push(utf8.decode(bytes.subarray(record + 5, record + 5 + length)));
+        }
+        record += 5 + length;
+      }
+      Object.entries(values).forEach(([label, items]) => addField(collector, 'IPTC', label, items.join(', ')));
+    }
+    offset = dataStart + size + (size % 2);
+  }
+};
+
+// --- C2PA (JUMBF boxes holding CBOR) ---
+
+// Enough of CBOR (RFC 8949) to read C2PA claims and assertions
+const decodeCbor = (bytes: Uint8Array): unknown => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  const BREAK = Symbol('break');
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    offset += info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : 8;
+    if (info === 24) return bytes[offset - 1];
+    if (info === 25) return view.getUint16(offset - 2);
+    if (info === 26) return view.getUint32(offset - 4);
+    if (info === 27) return Number(view.getBigUint64(offset - 8));
+    throw new Error(`Unsupported CBOR length ${info}`);
+  };
+
+  const readItem = (): unknown => {
+    if (offset >= bytes.length) throw new Error('Truncated CBOR');
+    const initial = bytes[offset++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22 || info === 23) return null;
+      if (info === 25) { offset += 2; return null; }
+      if (info === 26) { offset += 4; return view.getFloat32(offset - 4); }
+      if (info === 27) { offset += 8; return view.getFloat64(offset - 8); }
+      if (info === 31) return BREAK;
+      return null;
+    }
+    const indefinite = info === 31;
+    const length = indefinite ? Infinity : readLength(info);
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return -1 - length;
+      case 2:
+      case 3: {
+        let chunks: Uint8Array[] = [];
+        if (indefinite) {
+          for (let chunk = readItem(); chunk !== BREAK; chunk = readItem()) chunks.push(chunk as Uint8Array);
+        } else {
+          chunks = [bytes.subarray(offset, offset + length)];
+          offset += length;
+        }
+        const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+        chunks.reduce((position, chunk) => (joined.set(chunk, position), position + chunk.length), 0);
+        return major === 3 ? utf8.decode(joined) : joined;
+      }
+      case 4: {
+        const items: unknown[] = [];
+        for (let index = 0; index < length; index++) {
+          const item = readItem();
+          if (item === BREAK) break;
+          items.push(item);
+        }
+        return items;
+      }
+      case 5: {
+        const map: Record<string, unknown> = {};
+        for (let index = 0; index < length; index++) {
+          const key = readItem();
+          if (key === BREAK) break;
+          map[String(key)] = readItem();
+        }
+        return map;
+      }
+      default:
+        // A tag; the tagged item is all that matters here
+        return readItem();
+    }
+  };
+
+  return readItem();
+};
+
+interface JumbfBox {
+  type: string;
+  // From the description box of a superbox
+  label: string | null;
+  content: Uint8Array;
+  children: JumbfBox[];
+}
+
+const readBoxes = (bytes: Uint8Array): JumbfBox[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: JumbfBox[] = [];
+  let offset = 0;
+  while (offset + 8 <= bytes.length) {
+    let size = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < header || offset + size > bytes.length) break;
+    const content = bytes.subarray(offset + header, offset + size);
+    const box: JumbfBox = { type, label: null, content, children: [] };
+    if (type === 'jumb') {
+      const [description, ...children] = readBoxes(content);
+      // A 16-byte content type UUID and a toggles byte come before the label
+      if (description?.type === 'jumd' && description.content[16] & 0x02) {
+        const labelBytes = description.content.subarray(17);
+        box.label = utf8.decode(labelBytes.subarray(0, Math.max(0, labelBytes.indexOf(0))));
+      }
+      box.children = children;
+    }
+    boxes.push(box);
+    offset += size;
+  }
+  return boxes;
+};
+
+const findBox = (boxes: JumbfBox[], matches: (label: string) => boolean) =>
+  boxes.find(box => box.label !== null && matches(box.label));
+
+const cborContent = (box: JumbfBox | undefined) => {
+  const cbor = box?.children.find(child => child.type === 'cbor');
+  return cbor ? decodeCbor(cbor.content) : null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+// A generator is written as a string (claim v1) or as { name, version } (claim v2)
+const generatorName = (value: unknown): string | null => {
+  if (typeof value === 'string') return value;
+  const info = Array.isArray(value) ? value[0] : value;
+  if (!isRecord(info) || typeof info.name !== 'string') return null;
+  return typeof info.version === 'string' ? `${info.name} ${info.version}` : info.name;
+};
+
+const readC2pa = (bytes: Uint8Array, collector: Collector) => {
+  const store = findBox(readBoxes(bytes), label => label === 'c2pa');
+  // The active manifest is the last one in the store
+  const manifest = store?.children.filter(child => child.type === 'jumb').at(-1);
+  if (!manifest) return;
+
+  const claim = cborContent(findBox(manifest.children, label => label.startsWith('c2pa.claim')));
+  const assertions = findBox(manifest.children, label => label === 'c2pa.assertions')?.children ?? [];
+  const result: C2paManifest = {
+    claimGenerator: null,
+    title: null,
+    actions: [],
+    digitalSourceTypes: [],
+    softwareAgents: [],
+    assertions: assertions.flatMap(assertion => (assertion.label ? [assertion.label] : [])),
+  };
+  if (isRecord(claim)) {
+    result.claimGenerator = generatorName(claim.claim_generator_info) ?? generatorName(claim.claim_generator);
+    result.title = typeof claim['dc:title'] === 'string' ? claim['dc:title'] : null;
+  }
+  for (const assertion of assertions.filter(box => box.label?.startsWith('c2pa.actions'))) {
+    const content = cborContent(assertion);
+    const actions = isRecord(content) && Array.isArray(content.actions) ? content.actions.filter(isRecord) : [];
+    for (const action of actions) {
+      if (typeof action.action === 'string') result.actions.push(action.action);
+      if (typeof action.digitalSourceType === 'string') result.digitalSourceTypes.push(action.digitalSourceType);
+      const agent = generatorName(action.softwareAgent);
+      if (agent) result.softwareAgents.push(agent);
+    }
+  }
+  result.actions = [...new Set(result.actions)];
+  result.digitalSourceTypes = [...new Set(result.digitalSourceTypes)];
+  result.softwareAgents = [...new Set(result.softwareAgents)];
+  collector.c2pa = result;
+};
+
+// --- Containers ---
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+
+const readJpeg = (bytes: Uint8Array, collector: Collector) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // C2PA splits its JUMBF box across APP11 segments, numbered in order
+  const jumbf: Uint8Array[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the image data follows and no more metadata
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = view.getUint16(offset + 2);
+    const segment = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && startsWith(segment, 0, EXIF_HEADER)) {
+      tryRead('EXIF', () => readTiff(segment.subarray(EXIF_HEADER.length), collector));
+    } else if (marker === 0xe1 && startsWith(segment, 0, XMP_HEADER)) {
+      tryRead('XMP', () => readXmp(utf8.decode(segment.subarray(XMP_HEADER.length)), collector));
+    } else if (marker === 0xed && startsWith(segment, 0, PHOTOSHOP_HEADER)) {
+      tryRead('IPTC', () => readIptc(segment.subarray(PHOTOSHOP_HEADER.length), collector));
+    } else if (marker === 0xeb && startsWith(segment, 0, 'JP') && segment.length > 8) {
+      // Common identifier, box instance (2 bytes) and sequence number (4 bytes);
+      // later segments repeat the box header, which is dropped
+      const sequence = new DataView(segment.buffer, segment.byteOffset + 4, 4).getUint32(0);
+      const box = segment.subarray(8);
+      jumbf.push(sequence <= 1 ? box : box.subarray(new DataView(box.buffer, box.byteOffset, 4).getUint32(0) === 1 ? 16 : 8));
+    }
+    offset += 2 + length;
+  }
+  if (jumbf.length > 0) {
+    const joined = new Uint8Array(jumbf.reduce((total, part) => total + part.length, 0));
+    jumbf.reduce((position, part) => (joined.set(part, position), position + part.length), 0);
+    tryRead('C2PA', () => readC2pa(joined, collector));
+  }
+};
+
+// Keywords Stable Diffusion front ends write their settings under
+const GENERATOR_TEXT_KEYS = ['parameters', 'prompt', 'workflow', 'dream', 'sd-metadata', 'invokeai_metadata'];
+
+const readPngText = (keyword: string, text: string, collector: Collector) => {
+  if (keyword === 'XML:com.adobe.xmp') {
+    readXmp(text, collector);
+  } else {
+    addField(collector, 'PNG text', GENERATOR_TEXT_KEYS.includes(keyword.toLowerCase()) ? `Generator ${keyword}` : keyword, text);
+  }
+};
+
+const readPng = (bytes: Uint8Array, collector: Collector) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IEND') break;
+    if (type === 'tEXt') {
+      const split = data.indexOf(0);
+      tryRead('PNG text', () => readPngText(latin1.decode(data.subarray(0, split)), latin1.decode(data.subarray(split + 1)), collector));
+    } else if (type === 'iTXt') {
+      tryRead('PNG text', () => {
+        const keywordEnd = data.indexOf(0);
+        // Compressed text would need inflating and is left out
+        if (data[keywordEnd + 1] !== 0) return;
+        const languageEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, languageEnd + 1);
+        readPngText(latin1.decode(data.subarray(0, keywordEnd)), utf8.decode(data.subarray(translatedEnd + 1)), collector);
+      });
+    } else if (type === 'eXIf') {
+      tryRead('EXIF', () => readTiff(data, collector));
+    } else if (type === 'caBX') {
+      tryRead('C2PA', () => readC2pa(data, collector));
+    }
+    offset += 12 + length;
+  }
+};
+
+const readWebp = (bytes: Uint8Array, collector: Collector) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'EXIF') {
+      tryRead('EXIF', () => readTiff(startsWith(data, 0, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data, collector));
+    } else if (type === 'XMP ') {
+      tryRead('XMP', () => readXmp(utf8.decode(data), collector));
+    } else if (type === 'C2PA') {
+      tryRead('C2PA', () => readC2pa(data, collector));
+    }
+    // Chunks are padded to an even length
+    offset += 8 + length + (length % 2);
+  }
+};
+
+export const readImageMetadata = (bytes: Uint8Array): ImageMetadata => {
+  const collector: Collector = { fields: [], c2pa: null };
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    tryRead('JPEG', () => readJpeg(bytes, collector));
+    return { format: 'jpeg', ...collector };
+  }
+  if (startsWith(bytes, 0, '\x89PNG\r\n\x1a\n')) {
+    tryRead('PNG', () => readPng(bytes, collector));
+    return { format: 'png', ...collector };
+  }
+  if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) {
+    tryRead('WebP', () => readWebp(bytes, collector));
+    return { format: 'webp', ...collector };
+  }
+  return { format: 'unknown', ...collector };
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+};
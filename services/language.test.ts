@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { detectInputLanguage, languageInstruction } from './language';
+
+describe('detectInputLanguage', () => {
+  it('reads English', () => {
+    expect(detectInputLanguage('Your parcel is held at customs. Pay the fee at http://bit.ly/x today.')).toBe('en');
+  });
+
+  it('reads Hindi typed in Latin script as Hinglish', () => {
+    expect(detectInputLanguage('Aapka KYC pending hai, turant update karo warna account band hoga')).toBe('hinglish');
+    expect(detectInputLanguage('Congratulations! Aap ne 25 lakh ka inaam jeeta hai')).toBe('hinglish');
+  });
+
+  it('does not read a stray Hindi-looking word in English as Hinglish', () => {
+    // "ko" and "se" alone, or one Hindi word in a long message, are not enough
+    expect(detectInputLanguage('Meet me at the Ko Samui resort')).toBe('en');
+    expect(detectInputLanguage('Your bank account will be blocked today unless you verify your details, abhi click the link below')).toBe('en');
+  });
+
+  it('tells Hindi from Marathi in Devanagari', () => {
+    expect(detectInputLanguage('आपका खाता बंद होगा, तुरंत KYC अपडेट करें और लिंक पर क्लिक करें')).toBe('hi');
+    expect(detectInputLanguage('तुमचे खाते बंद होईल, लगेच KYC अपडेट करा आणि लिंकवर क्लिक करा')).toBe('mr');
+  });
+
+  it('goes by the script of most letters', () => {
+    // Devanagari with a few English words is still Hindi, not English or Hinglish
+    expect(detectInputLanguage('आपके SBI खाते में ₹5000 जमा हुए हैं')).toBe('hi');
+    // Latin with one Hindi word is English
+    expect(detectInputLanguage('Dear customer, your नमस्ते account is blocked, call now')).toBe('en');
+  });
+
+  it('reads the other Indian scripts', () => {
+    expect(detectInputLanguage('আপনার অ্যাকাউন্ট বন্ধ হয়ে যাবে')).toBe('bn');
+    expect(detectInputLanguage('உங்கள் கணக்கு முடக்கப்படும்')).toBe('ta');
+    expect(detectInputLanguage('మీ ఖాతా నిలిపివేయబడుతుంది')).toBe('te');
+    expect(detectInputLanguage('તમારું ખાતું બંધ થઈ જશે')).toBe('gu');
+    expect(detectInputLanguage('ನಿಮ್ಮ ಖಾತೆ ಸ್ಥಗಿತಗೊಳ್ಳುತ್ತದೆ')).toBe('kn');
+    expect(detectInputLanguage('നിങ്ങളുടെ അക്കൗണ്ട് തടയപ്പെടും')).toBe('ml');
+    expect(detectInputLanguage('ਤੁਹਾਡਾ ਖਾਤਾ ਬੰਦ ਹੋ ਜਾਵੇਗਾ')).toBe('pa');
+  });
+
+  it('gives up on text without letters', () => {
+    expect(detectInputLanguage('')).toBeNull();
+    expect(detectInputLanguage('₹5000 +91 98765 43210 🙂')).toBeNull();
+  });
+});
+
+describe('languageInstruction', () => {
+  it('adds nothing for English answers to English or unknown input', () => {
+    expect(languageInstruction()).toBe('');
+    expect(languageInstruction('en', 'en')).toBe('');
+  });
+
+  it('names the answer language and an input language that differs from it', () => {
+    expect(languageInstruction('hi')).toContain('Hindi');
+    expect(languageInstruction('en', 'hinglish')).toContain('Hinglish');
+    expect(languageInstruction('en', 'ta')).toContain('The input is written in Tamil.');
+    expect(languageInstruction('ta', 'ta')).not.toContain('The input is written in');
+  });
+});
@@ -0,0 +1,132 @@
+import { InputLanguage, LanguageCode } from "../types";
+import { getPrompt, renderPrompt } from "./prompts";
+
+// The languages the app answers in, and a lightweight guess at what language a
+// text input is written in. Most of the fraud reported to the 1930 helpline is
+// in Hindi or another Indian language, often typed in Latin script and mixed
+// with English, so Hinglish is recognised as a language of its own.
+
+interface LanguageInfo {
+  // English name, as used in prompts
+  name: string;
+  // Name in the language itself, as shown in the language picker
+  nativeName: string;
+  // BCP 47 tag for speech recognition and synthesis
+  speechLocale: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { name: 'English', nativeName: 'English', speechLocale: 'en-IN' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी', speechLocale: 'hi-IN' },
+  bn: { name: 'Bengali', nativeName: 'বাংলা', speechLocale: 'bn-IN' },
+  mr: { name: 'Marathi', nativeName: 'मराठी', speechLocale: 'mr-IN' },
+  ta: { name: 'Tamil', nativeName: 'தமிழ்', speechLocale: 'ta-IN' },
+  te: { name: 'Telugu', nativeName: 'తెలుగు', speechLocale: 'te-IN' },
+  gu: { name: 'Gujarati', nativeName: 'ગુજરાતી', speechLocale: 'gu-IN' },
+  kn: { name: 'Kannada', nativeName: 'ಕನ್ನಡ', speechLocale: 'kn-IN' },
+  ml: { name: 'Malayalam', nativeName: 'മലയാളം', speechLocale: 'ml-IN' },
+  pa: { name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', speechLocale: 'pa-IN' },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && (LANGUAGE_CODES as string[]).includes(value);
+
+export const isInputLanguage = (value: unknown): value is InputLanguage =>
+  value === 'hinglish' || isLanguageCode(value);
+
+export const inputLanguageName = (language: InputLanguage): string =>
+  language === 'hinglish' ? 'Hinglish' : LANGUAGES[language].name;
+
+// Each script is used by one supported language, except Devanagari (Hindi and Marathi)
+const SCRIPTS: { pattern: RegExp; language: LanguageCode }[] = [
+  { pattern: /\p{Script=Devanagari}/u, language: 'hi' },
+  { pattern: /\p{Script=Bengali}/u, language: 'bn' },
+  { pattern: /\p{Script=Tamil}/u, language: 'ta' },
+  { pattern: /\p{Script=Telugu}/u, language: 'te' },
+  { pattern: /\p{Script=Gujarati}/u, language: 'gu' },
+  { pattern: /\p{Script=Kannada}/u, language: 'kn' },
+  { pattern: /\p{Script=Malayalam}/u, language: 'ml' },
+  { pattern: /\p{Script=Gurmukhi}/u, language: 'pa' },
+  { pattern: /\p{Script=Latin}/u, language: 'en' },
+];
+
+const MARATHI_WORDS = new Set(['आहे', 'आहेत', 'आणि', 'नाही', 'तुमचे', 'तुमच्या', 'तुमचा', 'करा', 'होईल', 'मध्ये']);
+const HINDI_WORDS = new Set(['है', 'हैं', 'और', 'नहीं', 'आपका', 'आपके', 'आपकी', 'करें', 'होगा', 'में']);
+
+// Common Hindi words as they are usually spelled in Latin script. Words that are
+// also English (e.g. "band") are left out so English messages are not misread.
+const HINGLISH_WORDS = new Set([
+  'hai', 'hain', 'aap', 'aapka', 'aapke', 'aapki', 'apna', 'apne', 'tum', 'tumhara', 'karo', 'karein', 'karen', 'kare',
+  'nahi', 'nahin', 'mein', 'ko', 'ka', 'ki', 'ke', 'se', 'aur', 'abhi', 'jaldi', 'turant', 'paise', 'paisa', 'khata',
+  'hoga', 'gaya', 'raha', 'rahe', 'kripya', 'dijiye', 'bhejo', 'bhejein', 'milega', 'jeeta', 'jeete', 'inaam',
+  'yojana', 'sirf', 'wala', 'wali', 'kya', 'kyun', 'lekin', 'bhi', 'yeh', 'woh', 'tha', 'thi', 'hoon', 'batao', 'bataye',
+]);
+
+// Below this share of Hindi words a Latin-script message is treated as English
+const HINGLISH_MIN_SHARE = 0.15;
+
+const countWords = (words: string[], vocabulary: Set<string>) => words.filter(word => vocabulary.has(word)).length;
+
+// Picks the script most letters are written in, then tells Hindi from Marathi and
+// English from Hinglish by their most common words. Returns null when the text
+// has no letters to go on.
+export const detectInputLanguage = (text: string): InputLanguage | null => {
+  const counts = new Map<LanguageCode, number>();
+  for (const char of text) {
+    const script = SCRIPTS.find(({ pattern }) => pattern.test(char));
+    if (script) counts.set(script.language, (counts.get(script.language) ?? 0) + 1);
+  }
+  const [language] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (!language) return null;
+
+  const words = text.toLowerCase().split(/[^\p{L}\p{M}]+/u).filter(Boolean);
+  if (language === 'hi') {
+    return countWords(words, MARATHI_WORDS) > countWords(words, HINDI_WORDS) ? 'mr' : 'hi';
+  }
+  if (language === 'en') {
+    const hindiWords = countWords(words, HINGLISH_WORDS);
+    return hindiWords >= 2 && hindiWords / words.length >= HINGLISH_MIN_SHARE ? 'hinglish' : 'en';
+  }
+  return language;
+};
+
+// The instruction appended to a prompt so the model answers in the user's
+// language. English answers to English (or unknown) input need none, which keeps
+// those prompts exactly as they were.
+export const languageInstruction = (language: LanguageCode = DEFAULT_LANGUAGE, inputLanguage: InputLanguage | null = null): string => {
+  if (language === 'en' && (inputLanguage === null || inputLanguage === 'en')) return '';
+  const inputNote = inputLanguage === 'hinglish'
+    ? 'The input is written in Hinglish: Hindi typed in Latin script and mixed with English. '
+    : inputLanguage && inputLanguage !== language ? `The input is written in ${LANGUAGES[inputLanguage].name}. ` : '';
+  return renderPrompt(getPrompt('response-language'), { language: LANGUAGES[language].name, inputNote });
+};
+
+// The language the signed-in user reads results in. It is remembered on this
+// device; analyses use it unless a caller asks for another language.
+const STORAGE_KEY = 'codehustlers-language';
+
+const loadLanguage = (): LanguageCode => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLanguageCode(stored) ? stored : DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+let responseLanguage = loadLanguage();
+
+export const getResponseLanguage = () => responseLanguage;
+
+export const setResponseLanguage = (language: LanguageCode) => {
+  responseLanguage = language;
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Not remembered where localStorage is unavailable
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { C2paManifest, ImageDetectionResult, ImageMetadata, MetadataField } from '../types';
+import { findMetadataEvidence, weighMetadataEvidence } from './metadataEvidence';
+
+const IPTC_TYPES = 'http://cv.iptc.org/newscodes/digitalsourcetype/';
+
+const metadata = (fields: MetadataField[], c2pa: Partial<C2paManifest> | null = null): ImageMetadata => ({
+  format: 'jpeg',
+  fields,
+  c2pa: c2pa && {
+    claimGenerator: null,
+    title: null,
+    actions: [],
+    digitalSourceTypes: [],
+    softwareAgents: [],
+    assertions: [],
+    ...c2pa,
+  },
+});
+
+const xmp = (label: string, value: string): MetadataField => ({ source: 'XMP', label, value });
+
+const signals = (image: ImageMetadata) => findMetadataEvidence(image).map(item => item.signal);
+
+const AUTHENTIC: ImageDetectionResult = { classification: 'Authentic', confidence: 70, explanation: 'Looks real', findings: [] };
+
+describe('findMetadataEvidence', () => {
+  it('takes a generator that created the file as generated', () => {
+    expect(signals(metadata([xmp('Creator tool', 'Midjourney v6')]))).toEqual(['ai-generated']);
+    expect(signals(metadata([{ source: 'EXIF', label: 'Software', value: 'Adobe Firefly' }]))).toEqual(['ai-generated']);
+  });
+
+  it('takes a generator in the edit history as an edit', () => {
+    const evidence = findMetadataEvidence(metadata([xmp('Creator tool', 'Adobe Photoshop 25.0'), xmp('Edited with', 'Adobe Firefly')]));
+    expect(evidence.map(item => item.signal)).toEqual(['edited', 'ai-edited']);
+    expect(evidence[1].description).toContain('edit history');
+  });
+
+  it('takes a generator in a composite image as the tool it was edited with', () => {
+    const evidence = findMetadataEvidence(metadata([
+      xmp('Digital source type', `${IPTC_TYPES}compositeWithTrainedAlgorithmicMedia`),
+      xmp('Creator tool', 'Adobe Firefly'),
+    ]));
+    expect(evidence.map(item => item.signal)).toEqual(['ai-edited', 'ai-edited']);
+  });
+
+  it('names an AI software agent in Content Credentials as an edit', () => {
+    const c2pa = { claimGenerator: 'Adobe Photoshop', actions: ['c2pa.opened', 'c2pa.edited'], softwareAgents: ['Adobe Firefly'] };
+    expect(signals(metadata([], c2pa))).toEqual(['ai-edited', 'edited']);
+
+    const composite = findMetadataEvidence(metadata([], { ...c2pa, digitalSourceTypes: [`${IPTC_TYPES}compositeWithTrainedAlgorithmicMedia`] }));
+    expect(composite[0]).toMatchObject({ signal: 'ai-edited', description: expect.stringContaining('added with Adobe Firefly') });
+  });
+
+  it('takes an AI claim generator or source type in Content Credentials as generated', () => {
+    expect(signals(metadata([], { claimGenerator: 'DALL-E', actions: ['c2pa.created'] }))).toEqual(['ai-generated']);
+    expect(signals(metadata([], { digitalSourceTypes: [`${IPTC_TYPES}trainedAlgorithmicMedia`] }))).toEqual(['ai-generated']);
+  });
+});
+
+describe('weighMetadataEvidence', () => {
+  it('overrides the verdict when a generator created the file', () => {
+    const image = metadata([xmp('Creator tool', 'Midjourney v6')]);
+    const result = weighMetadataEvidence(AUTHENTIC, findMetadataEvidence(image));
+    expect(result).toMatchObject({
+      classification: 'AI-generated',
+      confidence: 90,
+      modelVerdict: { classification: 'Authentic', confidence: 70 },
+    });
+  });
+
+  it('leaves the verdict to the model for AI edits', () => {
+    for (const image of [
+      metadata([xmp('Edited with', 'Adobe Firefly')]),
+      metadata([xmp('Digital source type', `${IPTC_TYPES}compositeWithTrainedAlgorithmicMedia`), xmp('Creator tool', 'Adobe Firefly')]),
+      metadata([], { claimGenerator: 'Adobe Photoshop', softwareAgents: ['Adobe Firefly'] }),
+    ]) {
+      const result = weighMetadataEvidence(AUTHENTIC, findMetadataEvidence(image));
+      expect(result.classification).toBe('Authentic');
+      expect(result.modelVerdict).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { ImageDetectionResult, ImageMetadata, MetadataEvidence, MetadataField } from "../types";
+
+// Turns an image's metadata into evidence about where it came from, and weighs
+// that evidence with the model's verdict. Metadata saying an AI generator made
+// the image is rarely added to a real photo, so it decides the verdict. Metadata
+// saying AI only edited part of it (e.g. a generative fill) leaves the verdict to
+// the model, since the rest may be a real photo; so does an AI tool that only
+// shows up in the edit history. Camera details and editing software are listed
+// for context only: they are easily copied, and most AI images have their
+// metadata stripped anyway.
+
+// Confidence given to an AI-generated verdict that metadata supports
+const AI_METADATA_CONFIDENCE = 90;
+
+// Matched as whole words, case-insensitively
+const AI_GENERATORS = [
+  'midjourney', 'dall-e', 'dall·e', 'openai', 'chatgpt', 'stable diffusion', 'stability ai', 'sdxl', 'novelai',
+  'firefly', 'imagen', 'gemini', 'ideogram', 'leonardo.ai', 'flux', 'comfyui', 'automatic1111', 'invokeai',
+  'fooocus', 'craiyon', 'bing image creator', 'nightcafe', 'dreamstudio',
+];
+
+const EDITORS = [
+  'photoshop', 'lightroom', 'gimp', 'snapseed', 'canva', 'picsart', 'pixlr', 'affinity photo', 'facetune',
+  'paint.net', 'photopea', 'luminar',
+];
+
+// Fields that name the software that made the file
+const CREATOR_LABELS = ['Software', 'Creator tool', 'Originating program'];
+// Fields that name software used on the file somewhere in its edit history
+const EDIT_HISTORY_LABELS = ['Edited with'];
+
+// Fields Stable Diffusion web UIs write their generation settings into
+const SETTINGS_LABELS = ['Description', 'User comment', 'Caption'];
+
+// IPTC digital source types (https://cv.iptc.org/newscodes/digitalsourcetype/)
+const AI_SOURCE_TYPE = 'trainedAlgorithmicMedia';
+const AI_COMPOSITE_SOURCE_TYPE = 'compositeWithTrainedAlgorithmicMedia';
+const CAPTURE_SOURCE_TYPE = 'digitalCapture';
+
+const findName = (value: string, names: string[]) => {
+  const lower = value.toLowerCase();
+  return names.find(name => new RegExp(`(^|[^a-z0-9])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z0-9])`).test(lower));
+};
+
+const sourceTypeName = (value: string) => value.split('/').pop() ?? value;
+
+// composite is set when the image says AI only made part of it; a generator in
+// its creator tags is then the tool it was edited with
+const fieldEvidence = (field: MetadataField, composite: boolean): MetadataEvidence[] => {
+  const evidence: MetadataEvidence[] = [];
+  const add = (signal: MetadataEvidence['signal'], description: string) => evidence.push({ signal, source: field.source, description });
+
+  if (field.label.startsWith('Generator ')) {
+    add('ai-generated', `The "${field.label.slice('Generator '.length)}" text holds image generation settings, as written by Stable Diffusion tools.`);
+  } else if (field.label === 'Digital source type' && sourceTypeName(field.value) === AI_SOURCE_TYPE) {
+    add('ai-generated', `The ${field.source} digital source type says the image was generated by AI (${AI_SOURCE_TYPE}).`);
+  } else if (field.label === 'Digital source type' && sourceTypeName(field.value) === AI_COMPOSITE_SOURCE_TYPE) {
+    add('ai-edited', `The ${field.source} digital source type says the image includes AI-generated elements (${AI_COMPOSITE_SOURCE_TYPE}). The rest of it may be real.`);
+  } else if (CREATOR_LABELS.includes(field.label) || EDIT_HISTORY_LABELS.includes(field.label)) {
+    const generator = findName(field.value, AI_GENERATORS);
+    const editor = findName(field.value, EDITORS);
+    if (generator && composite) {
+      add('ai-edited', `${field.label} names the AI tool "${field.value}" that added to the image.`);
+    } else if (generator && EDIT_HISTORY_LABELS.includes(field.label)) {
+      add('ai-edited', `${field.label} names the AI tool "${field.value}" in the image's edit history. The rest of it may be real.`);
+    } else if (generator) {
+      add('ai-generated', `${field.label} names the AI image generator "${field.value}".`);
+    } else if (editor) {
+      add('edited', `${field.label} shows the image was saved by "${field.value}". Editing alone does not make an image AI-generated.`);
+    }
+  } else if (SETTINGS_LABELS.includes(field.label) && /\bsteps: \d+/i.test(field.value) && /\bsampler: /i.test(field.value)) {
+    add('ai-generated', `${field.label} holds Stable Diffusion generation settings (steps, sampler).`);
+  }
+  return evidence;
+};
+
+const cameraEvidence = (fields: MetadataField[]): MetadataEvidence[] => {
+  const value = (label: string) => fields.find(field => field.source === 'EXIF' && field.label === label)?.value;
+  const make = value('Camera make');
+  const model = value('Camera model');
+  if (!make && !model) return [];
+  // Phones and cameras usually repeat the make in the model name
+  const camera = make && model && !model.toLowerCase().startsWith(make.toLowerCase()) ? `${make} ${model}` : model ?? make;
+  const exposure = value('Exposure time') ? ', with exposure settings' : '';
+  return [{
+    signal: 'camera',
+    source: 'EXIF',
+    description: `EXIF names the camera as ${camera}${exposure}. Camera details can be copied into any file, so they do not prove it is authentic.`,
+  }];
+};
+
+const c2paEvidence = ({ c2pa }: ImageMetadata): MetadataEvidence[] => {
+  if (!c2pa) return [];
+  const evidence: MetadataEvidence[] = [];
+  const add = (signal: MetadataEvidence['signal'], description: string) => evidence.push({ signal, source: 'C2PA', description });
+  const madeWith = c2pa.claimGenerator ? `, made with ${c2pa.claimGenerator}` : '';
+  const sourceTypes = c2pa.digitalSourceTypes.map(sourceTypeName);
+  // The claim generator made the file; software agents only performed actions on it
+  const creator = c2pa.claimGenerator && findName(c2pa.claimGenerator, AI_GENERATORS) ? c2pa.claimGenerator : undefined;
+  const agent = c2pa.softwareAgents.find(name => findName(name, AI_GENERATORS));
+
+  // A composite names the AI tool that edited it, which is no sign the whole image was generated
+  if (sourceTypes.includes(AI_SOURCE_TYPE)) {
+    add('ai-generated', `Content Credentials say the image was generated by AI (${AI_SOURCE_TYPE})${madeWith}.`);
+  } else if (sourceTypes.includes(AI_COMPOSITE_SOURCE_TYPE)) {
+    const addedWith = agent ?? creator;
+    add('ai-edited', `Content Credentials say the image includes AI-generated elements (${AI_COMPOSITE_SOURCE_TYPE})${addedWith ? `, added with ${addedWith}` : madeWith}. The rest of it may be real.`);
+  } else if (creator) {
+    add('ai-generated', `Content Credentials name the AI image generator "${creator}".`);
+  } else if (agent) {
+    add('ai-edited', `Content Credentials record an edit made with the AI tool "${agent}". The rest of it may be real.`);
+  } else if (sourceTypes.includes(CAPTURE_SOURCE_TYPE)) {
+    add('camera', `Content Credentials say the image was captured by a camera${madeWith}. The signature is not verified here.`);
+  }
+  if (c2pa.actions.some(action => action !== 'c2pa.created' && action !== 'c2pa.opened')) {
+    add('edited', `Content Credentials record edits: ${c2pa.actions.join(', ')}.`);
+  }
+  return evidence;
+};
+
+const isComposite = ({ fields, c2pa }: ImageMetadata) =>
+  [...(c2pa?.digitalSourceTypes ?? []), ...fields.filter(field => field.label === 'Digital source type').map(field => field.value)]
+    .map(sourceTypeName)
+    .includes(AI_COMPOSITE_SOURCE_TYPE);
+
+export const findMetadataEvidence = (metadata: ImageMetadata): MetadataEvidence[] => {
+  const composite = isComposite(metadata);
+  return [
+    ...c2paEvidence(metadata),
+    ...metadata.fields.flatMap(field => fieldEvidence(field, composite)),
+    ...cameraEvidence(metadata.fields),
+  ];
+};
+
+// Adds the evidence to the model's verdict, overriding it only when the metadata
+// says an AI generator made the whole image. The model's own verdict is kept when it changes.
+export const weighMetadataEvidence = (result: ImageDetectionResult, evidence: MetadataEvidence[]): ImageDetectionResult => {
+  const weighed = { ...result, metadataEvidence: evidence };
+  if (!evidence.some(item => item.signal === 'ai-generated')) return weighed;
+  if (result.classification === 'AI-generated' && result.confidence >= AI_METADATA_CONFIDENCE) return weighed;
+  return {
+    ...weighed,
+    classification: 'AI-generated',
+    confidence: AI_METADATA_CONFIDENCE,
+    modelVerdict: { classification: result.classification, confidence: result.confidence },
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON', () => {
+    expect(parsePartialJson('{"a": [1, true, null], "b": "x"}')).toEqual({ a: [1, true, null], b: 'x' });
+  });
+
+  it('closes open containers and leaves out unfinished values', () => {
+    expect(parsePartialJson('{"summary": "Claims a cure", "claims": [{"claim": "Lemon')).toEqual({
+      summary: 'Claims a cure',
+      claims: [{}],
+    });
+    expect(parsePartialJson('{"tags": ["health", "sci')).toEqual({ tags: ['health'] });
+    expect(parsePartialJson('{"done": tr')).toEqual({});
+  });
+
+  it('treats a number at the end of the text as unfinished', () => {
+    expect(parsePartialJson('{"score": 4')).toEqual({});
+    expect(parsePartialJson('{"score": 45,')).toEqual({ score: 45 });
+  });
+
+  it('strips an opening markdown fence', () => {
+    expect(parsePartialJson('```json\n{"a": "b"')).toEqual({ a: 'b' });
+  });
+
+  it('returns undefined for text that is not JSON', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('Sure! Here is the analysis')).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+// Parses the prefix of a JSON document that is still being streamed. Objects and
+// arrays that are not closed yet are returned with the members received so far;
+// strings, numbers and literals are only included once they are complete, so a
+// half-written value never shows up. Returns undefined until anything is usable.
+
+interface ParseResult {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: ParseResult = { value: undefined, complete: false };
+
+const LITERALS: [string, unknown][] = [['true', true], ['false', false], ['null', null]];
+
+// Unfinished containers are useful; unfinished scalars are not
+const isUsable = ({ value, complete }: ParseResult) =>
+  value !== undefined && (complete || typeof value === 'object');
+
+const parsePrefix = (text: string): unknown => {
+  let index = 0;
+  const atEnd = () => index >= text.length;
+
+  const skipWhitespace = () => {
+    while (!atEnd() && /\s/.test(text[index])) index++;
+  };
+
+  const parseString = (): ParseResult => {
+    if (text[index] !== '"') return INCOMPLETE;
+    const start = index++;
+    while (!atEnd()) {
+      const char = text[index];
+      if (char === '\\') {
+        index += 2;
+        continue;
+      }
+      index++;
+      if (char === '"') {
+        return { value: JSON.parse(text.slice(start, index)), complete: true };
+      }
+    }
+    return INCOMPLETE;
+  };
+
+  const parseNumber = (): ParseResult => {
+    const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(index));
+    if (!match) return INCOMPLETE;
+    index += match[0].length;
+    // More digits may still be on their way
+    if (atEnd()) return INCOMPLETE;
+    return { value: Number(match[0]), complete: true };
+  };
+
+  const parseLiteral = (): ParseResult => {
+    const rest = text.slice(index);
+    for (const [literal, value] of LITERALS) {
+      if (rest.startsWith(literal)) {
+        index += literal.length;
+        return { value, complete: true };
+      }
+    }
+    index = text.length;
+    return INCOMPLETE;
+  };
+
+  const parseArray = (): ParseResult => {
+    const array: unknown[] = [];
+    index++;
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) return { value: array, complete: false };
+      if (text[index] === ']') {
+        index++;
+        return { value: array, complete: true };
+      }
+      const item = parseValue();
+      if (isUsable(item)) array.push(item.value);
+      if (!item.complete) return { value: array, complete: false };
+      skipWhitespace();
+      if (text[index] === ',') index++;
+    }
+  };
+
+  const parseObject = (): ParseResult => {
+    const object: Record<string, unknown> = {};
+    index++;
+    for (;;) {
+      skipWhitespace();
+      if (atEnd()) return { value: object, complete: false };
+      if (text[index] === '}') {
+        index++;
+        return { value: object, complete: true };
+      }
+      const key = parseString();
+      if (!key.complete) return { value: object, complete: false };
+      skipWhitespace();
+      if (text[index] !== ':') return { value: object, complete: false };
+      index++;
+      const member = parseValue();
+      if (isUsable(member)) object[key.value as string] = member.value;
+      if (!member.complete) return { value: object, complete: false };
+      skipWhitespace();
+      if (text[index] === ',') index++;
+    }
+  };
+
+  const parseValue = (): ParseResult => {
+    skipWhitespace();
+    if (atEnd()) return INCOMPLETE;
+    const char = text[index];
+    if (char === '{') return parseObject();
+    if (char === '[') return parseArray();
+    if (char === '"') return parseString();
+    if (char === '-' || (char >= '0' && char <= '9')) return parseNumber();
+    return parseLiteral();
+  };
+
+  return parseValue().value;
+};
+
+export const parsePartialJson = (text: string): unknown => {
+  // Models sometimes wrap JSON in a markdown fence
+  const body = text.replace(/^\s*```(?:json)?/i, '');
+  try {
+    return parsePrefix(body);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,27 @@
+import { PromptVersion } from "./types";
+
+export const ARTICLE_FACTCHECK_PROMPTS: PromptVersion[] = [
+  {
+    id: 'article-factcheck',
+    version: 1,
+    notes: 'Claim-by-claim fact check with overall risk level, credibility score, tags and summary.',
+    template: `Perform a deep, critical analysis of the following article content. Break it down into its core claims. Meticulously fact-check each individual claim against multiple reliable, independent sources. For your findings, provide source attribution. Conclude with an overall misinformation risk level ('Low', 'Medium', 'High'), a credibility score (0-100), a list of relevant topic tags, and a concise, neutral summary of the content. Article content: "{{content}}"`,
+  },
+  {
+    id: 'article-factcheck',
+    version: 2,
+    notes: 'Search-grounded fact check with a verdict and confidence per claim; summary and claims come before the overall verdict so streaming shows them early.',
+    template: `Fact-check the following article using Google Search. Break it down into its core factual claims and check each one against multiple reliable, independent sources. Respond with only a JSON object and no other text, with these fields in this order:
+- "summary": a concise, neutral summary of the content
+- "tags": a list of relevant topic tags
+- "claims": a list with one object per claim, each with these fields in this order:
+  - "claim": the claim as stated in the article
+  - "verdict": one of 'supported', 'refuted', 'misleading' or 'unverifiable'
+  - "confidence": how confident you are in the verdict, from 0 to 100
+  - "verification": what the sources say about the claim
+- "riskLevel": the overall misinformation risk, one of 'Low', 'Medium' or 'High'
+- "credibilityScore": a credibility score from 0 (not credible) to 100 (fully credible)
+Use 'misleading' for claims that are technically true but presented out of context, and 'unverifiable' when the search results neither confirm nor contradict a claim. Do not include URLs; the search results you used are cited automatically.
+Article content: "{{content}}"`,
+  },
+];
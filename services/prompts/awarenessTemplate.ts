@@ -0,0 +1,10 @@
+import { PromptVersion } from "./types";
+
+export const AWARENESS_TEMPLATE_PROMPTS: PromptVersion[] = [
+  {
+    id: 'awareness-template',
+    version: 1,
+    notes: 'Title, 3-4 highlights and 1-2 safety tips for an infographic.',
+    template: `Generate content for an awareness infographic based on this topic: "{{topic}}". Provide a catchy title, 3-4 key bullet points explaining why the content is misleading, and 1-2 safety tips or verified sources. Make it concise and easy to share.`,
+  },
+];
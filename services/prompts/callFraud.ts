@@ -0,0 +1,26 @@
+import { PromptVersion } from "./types";
+
+export const CALL_FRAUD_PROMPTS: PromptVersion[] = [
+  {
+    id: 'call-fraud',
+    version: 1,
+    notes: 'Voice analysis plus suspicious keyword checklist; fraudulent if the voice is synthetic or keywords are present.',
+    template: `Perform a multi-faceted fraud analysis on this audio call.
+            1. Voice Analysis: Determine if the voice is an AI-generated voice or a human voice.
+            2. Keyword Detection: Transcribe the audio and identify any suspicious keywords like 'loan', 'OTP', 'password', 'account details', 'bank', 'card number', 'verify', 'urgent', 'prize'.
+            3. Fraud Assessment: Based on the voice and keywords, provide a final assessment ('Fraudulent Call' or 'Safe Call'). Classify as 'Fraudulent Call' if the voice is AI-generated OR if suspicious keywords are present.
+            4. Confidence Score: Provide a confidence score (0-100) for the overall assessment, aiming for over 90% accuracy.
+            5. Explanation: Briefly explain your reasoning.`,
+  },
+  {
+    id: 'call-fraud',
+    version: 2,
+    notes: 'Keyword checklist covers Hindi and Hinglish as well as English, since most scam calls in India are not in English.',
+    template: `Perform a multi-faceted fraud analysis on this audio call. The call may be in English, Hindi, another Indian language, or a mix of Hindi and English.
+            1. Voice Analysis: Determine if the voice is an AI-generated voice or a human voice.
+            2. Keyword Detection: Transcribe the audio and identify any suspicious keywords in whatever language is spoken, such as 'loan', 'OTP', 'password', 'account details', 'bank', 'card number', 'verify', 'urgent', 'prize', or their Hindi and Hinglish equivalents like 'OTP batao', 'khata band', 'KYC update', 'inaam', 'lottery', 'turant', 'paise bhejo', 'police case'.
+            3. Fraud Assessment: Based on the voice and keywords, provide a final assessment ('Fraudulent Call' or 'Safe Call'). Classify as 'Fraudulent Call' if the voice is AI-generated OR if suspicious keywords are present.
+            4. Confidence Score: Provide a confidence score (0-100) for the overall assessment, aiming for over 90% accuracy.
+            5. Explanation: Briefly explain your reasoning.`,
+  },
+];
@@ -0,0 +1,21 @@
+import { PromptVersion } from "./types";
+
+export const IMAGE_TYPE_PROMPTS: PromptVersion[] = [
+  {
+    id: 'image-type',
+    version: 1,
+    notes: 'Initial image type classifier: picks the forensic protocol an image is checked with, without judging authenticity.',
+    template: `Decide what kind of image this is, so it can be checked with the right forensic protocol. Do not judge whether the image is real or AI-generated; a photorealistic AI image is still a photograph.
+
+Pick exactly one type:
+*   'photograph': a camera photo of a scene, place, object, animal or group of people, where no single face is the main subject.
+*   'portrait': a photo or photorealistic image whose main subject is one or a few human faces, such as a headshot, selfie, profile picture or close-up of a speaker.
+*   'illustration': a drawing, painting, digital art, anime, cartoon, comic or 3D render.
+*   'screenshot': a capture of a screen, such as a chat, social media post, app, website, payment confirmation or video frame with an interface around it.
+*   'document': a photo or scan of paper or a card, such as an ID card, certificate, letter, receipt, bill, form or newspaper cutting.
+
+When an image fits more than one type, pick the one whose checks matter most: 'portrait' over 'photograph' when a face is the subject, and 'screenshot' over 'document' for anything shown on a screen.
+
+Provide your output as a JSON object with 'imageType' and 'reason', one short sentence saying what in the image decided the type.`,
+  },
+];
@@ -0,0 +1,75 @@
+import { ARTICLE_FACTCHECK_PROMPTS } from "./articleFactcheck";
+import { AWARENESS_TEMPLATE_PROMPTS } from "./awarenessTemplate";
+import { CALL_FRAUD_PROMPTS } from "./callFraud";
+import { IMAGE_FORENSICS_PROMPTS } from "./imageForensics";
+import { IMAGE_TYPE_PROMPTS } from "./imageType";
+import { RESPONSE_LANGUAGE_PROMPTS } from "./responseLanguage";
+import { SMS_FRAUD_PROMPTS } from "./smsFraud";
+import { SUPPORT_CHAT_PROMPTS } from "./supportChat";
+import { TRENDING_TOPICS_PROMPTS } from "./trendingTopics";
+import { VOICE_CONVERSATION_PROMPTS } from "./voiceConversation";
+import { VOICE_AI_DETECTION_PROMPTS } from "./voiceDetection";
+import { ImageType } from "../../types";
+import { PromptId, PromptVersion } from "./types";
+
+export type { PromptId, PromptVersion } from "./types";
+
+const REGISTRY: Record<PromptId, PromptVersion[]> = {
+  'image-forensics': IMAGE_FORENSICS_PROMPTS,
+  'image-type': IMAGE_TYPE_PROMPTS,
+  'voice-ai-detection': VOICE_AI_DETECTION_PROMPTS,
+  'call-fraud': CALL_FRAUD_PROMPTS,
+  'article-factcheck': ARTICLE_FACTCHECK_PROMPTS,
+  'sms-fraud': SMS_FRAUD_PROMPTS,
+  'awareness-template': AWARENESS_TEMPLATE_PROMPTS,
+  'trending-topics': TRENDING_TOPICS_PROMPTS,
+  'response-language': RESPONSE_LANGUAGE_PROMPTS,
+  'support-chat': SUPPORT_CHAT_PROMPTS,
+  'voice-conversation': VOICE_CONVERSATION_PROMPTS,
+};
+
+// The version each analysis uses unless a caller asks for another one. Newer
+// versions can be registered and compared before they are made active here.
+const ACTIVE_VERSIONS: Record<PromptId, number> = {
+  'image-forensics': 3,
+  'image-type': 1,
+  'voice-ai-detection': 1,
+  'call-fraud': 2,
+  'article-factcheck': 2,
+  'sms-fraud': 3,
+  'awareness-template': 1,
+  'trending-topics': 2,
+  'response-language': 1,
+  'support-chat': 1,
+  'voice-conversation': 1,
+};
+
+export const listPromptVersions = (id: PromptId): PromptVersion[] => REGISTRY[id];
+
+export const getActivePromptVersion = (id: PromptId): number => ACTIVE_VERSIONS[id];
+
+export const findPrompt = (id: PromptId, version = ACTIVE_VERSIONS[id]): PromptVersion | undefined =>
+  REGISTRY[id].find(prompt => prompt.version === version);
+
+export const getPrompt = (id: PromptId, version = ACTIVE_VERSIONS[id]): PromptVersion => {
+  const prompt = findPrompt(id, version);
+  if (!prompt) {
+    throw new Error(`Unknown prompt version ${formatPromptVersion(id, version)}`);
+  }
+  return prompt;
+};
+
+// The label recorded on results, e.g. "sms-fraud@2"
+export const formatPromptVersion = (id: PromptId, version: number) => `${id}@${version}`;
+
+export const renderPrompt = (prompt: PromptVersion, values: Record<string, string> = {}): string =>
+  prompt.template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (!(name in values)) {
+      throw new Error(`Prompt ${formatPromptVersion(prompt.id, prompt.version)} needs a value for '${name}'`);
+    }
+    return values[name];
+  });
+
+// Versions without protocols have a single protocol, for illustrations, and ignore the type
+export const renderImagePrompt = (prompt: PromptVersion, imageType: ImageType = 'illustration'): string =>
+  renderPrompt(prompt, prompt.protocols ? { protocol: prompt.protocols[imageType] } : {});
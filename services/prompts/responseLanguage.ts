@@ -0,0 +1,14 @@
+import { PromptVersion } from "./types";
+
+// Appended to another tool's prompt when the user reads a language other than
+// English or the input is not in English. {{inputNote}} is empty for files and
+// English text.
+export const RESPONSE_LANGUAGE_PROMPTS: PromptVersion[] = [
+  {
+    id: 'response-language',
+    version: 1,
+    notes: 'Free text in the chosen language; fixed values such as classifications stay in English so results can be validated.',
+    template: `
+{{inputNote}}Write every free-text value in your response (explanations, summaries, claims, verifications, keywords, titles, highlights, tips and spoken answers) in {{language}}, using its native script. When quoting words from the input, translate them into {{language}} and keep the original in parentheses if it differs. Field names and fixed values such as classifications, verdicts and risk levels must stay exactly as specified above, in English.`,
+  },
+];
@@ -0,0 +1,69 @@
+import { PromptVersion } from "./types";
+
+export const SMS_FRAUD_PROMPTS: PromptVersion[] = [
+  {
+    id: 'sms-fraud',
+    version: 1,
+    notes: 'Sender ID type plus common fraud indicators; safe or fraud with a short explanation.',
+    template: `Analyze the following SMS message for signs of fraud, considering its sender ID type.
+            Sender ID Type: "{{senderType}}"
+            Message: "{{content}}"
+
+            Common fraud indicators include:
+            - Urgency (e.g., "act now", "limited time")
+            - Suspicious links (especially shortened URLs)
+            - Requests for personal information (passwords, OTPs, bank details)
+            - Unsolicited prize winnings or job offers
+            - Threats or warnings (e.g., "account will be suspended")
+            - Alphanumeric sender IDs for non-transactional messages.
+
+            Based on these indicators, determine if this is likely a fraudulent message.
+            Provide a classification ('safe' or 'fraud') and a brief, helpful explanation for the user.`,
+  },
+  {
+    id: 'sms-fraud',
+    version: 2,
+    notes: 'Adds India-specific lures (KYC updates, UPI collect requests, utility disconnection) and DLT sender header rules, and asks for the matched indicators to be named in the explanation.',
+    template: `You are a fraud analyst reviewing an SMS received in India. Decide whether it is a scam.
+
+Sender ID Type: "{{senderType}}"
+Message: "{{content}}"
+
+Check the message against each indicator below and note every one that applies:
+- Urgency or deadlines ("act now", "within 24 hours", "last reminder")
+- Links, especially shortened URLs, lookalike bank domains or APK downloads
+- Requests for OTPs, PINs, passwords, card numbers or Aadhaar/PAN details
+- KYC or account update demands, electricity or gas disconnection warnings
+- UPI collect requests or instructions to "scan to receive" money
+- Unsolicited prizes, lotteries, cashback, loans or work-from-home job offers
+- Threats of account suspension, legal action or police cases
+- Sender mismatch: genuine transactional and service messages in India come from registered DLT headers (e.g. "AX-HDFCBK"); a personal mobile number claiming to be a bank or company is a strong fraud signal
+
+A message is 'fraud' if it asks the recipient to act on a link, share credentials or send money under pressure or false pretences. Routine OTPs, delivery updates and bills from registered headers that ask for nothing are 'safe'.
+
+Provide a classification ('safe' or 'fraud') and a brief, helpful explanation for the user that names the indicators you found.`,
+  },
+  {
+    id: 'sms-fraud',
+    version: 3,
+    notes: 'Version 2 with Hindi, Hinglish and regional-language examples of each indicator, since most scam SMS in India are not in English.',
+    template: `You are a fraud analyst reviewing an SMS received in India. Decide whether it is a scam. The message may be in English, Hindi, another Indian language, or Hinglish (Hindi typed in Latin script and mixed with English); apply every indicator whatever the language.
+
+Sender ID Type: "{{senderType}}"
+Message: "{{content}}"
+
+Check the message against each indicator below and note every one that applies:
+- Urgency or deadlines ("act now", "within 24 hours", "turant", "abhi karein", "aakhri mauka", "तुरंत", "अंतिम चेतावनी")
+- Links, especially shortened URLs, lookalike bank domains or APK downloads
+- Requests for OTPs, PINs, passwords, card numbers or Aadhaar/PAN details ("OTP batao", "OTP share karein", "अपना OTP भेजें")
+- KYC or account update demands, electricity or gas disconnection warnings ("KYC update karein", "aaj raat bijli kaat di jayegi", "बिजली कनेक्शन काट दिया जाएगा")
+- UPI collect requests or instructions to "scan to receive" money ("paise receive karne ke liye PIN daalein")
+- Unsolicited prizes, lotteries, cashback, loans or work-from-home job offers ("aapne inaam jeeta hai", "lottery lagi hai", "ghar baithe kamaayein", "आपने इनाम जीता है")
+- Threats of account suspension, legal action or police cases ("khata band ho jayega", "aapka account block ho gaya hai", "खाता बंद हो जाएगा")
+- Sender mismatch: genuine transactional and service messages in India come from registered DLT headers (e.g. "AX-HDFCBK"); a personal mobile number claiming to be a bank or company is a strong fraud signal
+
+A message is 'fraud' if it asks the recipient to act on a link, share credentials or send money under pressure or false pretences. Routine OTPs, delivery updates and bills from registered headers that ask for nothing are 'safe'.
+
+Provide a classification ('safe' or 'fraud') and a brief, helpful explanation for the user that names the indicators you found.`,
+  },
+];
@@ -0,0 +1,22 @@
+import { PromptVersion } from "./types";
+
+export const TRENDING_TOPICS_PROMPTS: PromptVersion[] = [
+  {
+    id: 'trending-topics',
+    version: 1,
+    notes: 'Top 5 topics as one "Title - Risk - Credibility" line each, grounded with Google Search.',
+    template: `List the top 5 trending misinformation topics or narratives currently circulating online. For each topic, provide a short title, a risk level ('High', 'Medium', 'Low'), and a credibility score (0-100). Format each as: \`Title - Risk: [level] - Credibility: [score]\``,
+  },
+  {
+    id: 'trending-topics',
+    version: 2,
+    notes: 'Top 5 topics as a JSON array with summary and first-seen date; sources come from Google Search grounding.',
+    template: `Use Google Search to find the top 5 misinformation topics or narratives currently circulating online. Respond with only a JSON array and no other text. Each item must be an object with these fields, in this order:
+- "topic": a short title for the narrative
+- "summary": one or two sentences on what the narrative claims and why it is false or misleading
+- "firstSeen": the date the narrative was first reported, as YYYY-MM-DD, or null if you cannot tell
+- "risk": the risk level, one of 'High', 'Medium' or 'Low'
+- "score": a credibility score from 0 (not credible) to 100 (fully credible)
+Do not include URLs; the search results you used are cited automatically.`,
+  },
+];
@@ -0,0 +1,28 @@
+import { ImageType } from "../../types";
+
+export type PromptId =
+  | 'image-forensics'
+  | 'image-type'
+  | 'voice-ai-detection'
+  | 'call-fraud'
+  | 'article-factcheck'
+  | 'sms-fraud'
+  | 'awareness-template'
+  | 'trending-topics'
+  | 'response-language'
+  | 'support-chat'
+  | 'voice-conversation';
+
+// One immutable revision of a prompt. To change a prompt, add a new version
+// instead of editing an existing one, so past verdicts stay traceable to the text
+// that produced them. Placeholders such as {{content}} are filled in at call time.
+export interface PromptVersion {
+  id: PromptId;
+  version: number;
+  // What changed compared to the previous version and why
+  notes: string;
+  template: string;
+  // Image prompts from image-forensics@3 on hold a protocol for each kind of
+  // image; the one for the image at hand fills the {{protocol}} placeholder
+  protocols?: Record<ImageType, string>;
+}
@@ -0,0 +1,10 @@
+import { PromptVersion } from "./types";
+
+export const VOICE_AI_DETECTION_PROMPTS: PromptVersion[] = [
+  {
+    id: 'voice-ai-detection',
+    version: 1,
+    notes: 'Initial AI voice detection prompt.',
+    template: `Analyze this audio and determine if the voice is AI-generated or a human voice. Provide a classification ('AI-Generated Voice', 'Human Voice', or 'Uncertain'), a confidence score (0-100) for your classification, aiming for over 90% accuracy, and a brief explanation for your reasoning.`,
+  },
+];
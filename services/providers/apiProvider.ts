@@ -0,0 +1,129 @@
+import { LanguageCode } from "../../types";
+import { ApiRequestError, QuotaExceededError, ResponseValidationError } from "../errors";
+import { getUsageUser } from "../usageTracker";
+import { ArticleStreamEvent, ChatSession, ChatStreamEvent, ChatToolCall, ChatTurn, DetectionProvider, ImageCheck, ProviderCallOptions } from "./types";
+
+// Talks to the backend in server/, which holds the Gemini key. The browser only
+// ever sees model output, never the key.
+const API_BASE = '/api';
+
+interface ApiErrorBody {
+  error?: string;
+  // Present when the server rejected the model output itself
+  field?: string;
+  reason?: string;
+  received?: unknown;
+  // Present when the user has used up a daily quota
+  quota?: { tool: string; limit: number };
+}
+
+// The model behind the backend is only known once it has answered a request
+let serverModelId: string | null = null;
+
+// Sends a request and turns error responses into the errors the service layer expects
+const send = async (path: string, body: unknown, options?: ProviderCallOptions): Promise<Response> => {
+  // The server meters usage per user; until there are real accounts it trusts this header
+  const userId = getUsageUser();
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(userId ? { 'X-User-Id': userId } : {}) },
+    body: JSON.stringify(body),
+    signal: options?.signal,
+  });
+  if (!response.ok) {
+    const { error, field, reason, received, quota } = (await response.json().catch(() => ({}))) as ApiErrorBody;
+    if (quota) {
+      throw new QuotaExceededError(quota.tool, quota.limit);
+    }
+    if (field) {
+      throw new ResponseValidationError(field, reason ?? 'was rejected by the server', received);
+    }
+    throw new ApiRequestError(response.status, error ?? `Request to ${path} failed with status ${response.status}`);
+  }
+  return response;
+};
+
+const post = async <T,>(path: string, body: unknown, options?: ProviderCallOptions): Promise<T> => {
+  const data = await (await send(path, body, options)).json();
+  const { modelId, ...payload } = data as { modelId?: string } & T;
+  if (modelId) serverModelId = modelId;
+  return payload as T;
+};
+
+// The server resolves the prompt version against its own copy of the prompt registry
+const withPromptOptions = (body: object, options?: ProviderCallOptions) =>
+  ({ ...body, promptVersion: options?.promptVersion, language: options?.language, inputLanguage: options?.inputLanguage });
+
+// Streamed routes answer with one JSON event per line instead of a JSON envelope
+async function* postForEvents<T>(path: string, body: unknown, options?: ProviderCallOptions): AsyncGenerator<T> {
+  const response = await send(path, body, options);
+  serverModelId = response.headers.get('X-Model-Id') ?? serverModelId;
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    const lines = (buffered + value).split('\n');
+    // The last line is incomplete until its newline arrives
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+}
+
+const postForResult = async (path: string, body: object, options?: ProviderCallOptions): Promise<unknown> =>
+  (await post<{ result: unknown }>(path, withPromptOptions(body, options), options)).result;
+
+export const apiProvider: DetectionProvider = {
+  id: 'api',
+  get modelId() {
+    return serverModelId ?? 'server';
+  },
+
+  // The server classifies the image as well, so a check is a single request
+  checkImage: async (base64Image, mimeType, options) =>
+    await postForResult('/analyze/image', { data: base64Image, mimeType, imageType: options?.imageType }, options) as ImageCheck,
+
+  analyzeVoice: (base64Audio, mimeType, options) =>
+    postForResult('/analyze/voice', { data: base64Audio, mimeType }, options),
+
+  analyzeCall: (base64Audio, mimeType, options) =>
+    postForResult('/analyze/call', { data: base64Audio, mimeType }, options),
+
+  analyzeArticle: (content, options) =>
+    postForResult('/analyze/article', { content }, options),
+
+  streamArticleAnalysis: (content, options) =>
+    postForEvents<ArticleStreamEvent>('/analyze/article/stream', withPromptOptions({ content }, options), options),
+
+  generateAwarenessTemplate: (prompt, options) =>
+    postForResult('/template', { prompt }, options),
+
+  analyzeSms: (content, senderType, options) =>
+    postForResult('/analyze/sms', { content, senderType }, options),
+
+  getTrendingTopics: (options) =>
+    postForResult('/trending', {}, options),
+
+  // The server is stateless, so the session keeps the history and sends it along
+  // with every message. The server builds the instructions and tools for the kind.
+  createChatSession: (kind, initialHistory: ChatTurn[] = [], language: LanguageCode = 'en'): ChatSession => {
+    const history = [...initialHistory];
+    async function* exchange(turn: ChatTurn, body: object, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+      let text = '';
+      const toolCalls: ChatToolCall[] = [];
+      for await (const event of postForEvents<ChatStreamEvent>('/chat/stream', { kind, language, history, ...body }, { signal })) {
+        if (event.type === 'text') text += event.text;
+        else toolCalls.push(...event.toolCalls);
+        yield event;
+      }
+      history.push(turn, { role: 'model', text, toolCalls });
+    }
+    return {
+      streamMessage: (message, signal) => exchange({ role: 'user', text: message }, { message }, signal),
+      streamToolResults: (toolResults, signal) => exchange({ role: 'user', text: '', toolResults }, { toolResults }, signal),
+    };
+  },
+};
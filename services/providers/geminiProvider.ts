@@ -0,0 +1,371 @@
+import { Content, GoogleGenAI, GenerateContentResponse, GroundingMetadata, Schema, Type } from "@google/genai";
+import { LanguageCode } from "../../types";
+import { chatSystemInstruction, chatTools } from "../chatSetup";
+import { ResponseValidationError } from "../errors";
+import { languageInstruction } from "../language";
+import { getPrompt, PromptId, renderImagePrompt, renderPrompt } from "../prompts";
+import { parsePartialJson } from "../partialJson";
+import { parseModelJson } from "../validation";
+import { attachClaimSources, claimAnchors, sourcesBySection } from "./grounding";
+import { runImageCheck } from "./imageCheck";
+import { ChatSession, ChatStreamEvent, ChatTurn, DetectionProvider, ImageModelCalls, ProviderCallOptions } from "./types";
+
+const MODEL = 'gemini-2.5-flash';
+
+let ai: GoogleGenAI | null = null;
+
+// The client is created on first use so that importing this module never fails,
+// even when no key is configured and another provider is active.
+const getClient = (): GoogleGenAI => {
+  if (!ai) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable not set");
+    }
+    ai = new GoogleGenAI({ apiKey });
+  }
+  return ai;
+};
+
+const buildPrompt = (id: PromptId, options?: ProviderCallOptions, values?: Record<string, string>) =>
+  renderPrompt(getPrompt(id, options?.promptVersion), values) + languageInstruction(options?.language, options?.inputLanguage);
+
+// Search grounding cannot be combined with a response schema, so the article and
+// trending prompts describe their JSON themselves
+const groundedConfig = (options?: ProviderCallOptions) => ({
+  abortSignal: options?.signal,
+  tools: [{ googleSearch: {} }],
+});
+
+// trending-topics@1 answers with one "Title - Risk: High - Credibility: 20" line
+// per topic rather than JSON, and has no summaries or dates
+const readTopicLines = (text: string) =>
+  text.split('\n').flatMap(line => {
+    const match = line.match(/(?:\d+\.\s*)?(.*?)\s*-\s*Risk:\s*(.*?)\s*-\s*Credibility:\s*(\d+)/);
+    if (!match) return [];
+    const topic = { topic: match[1].trim().replace(/^"|"$/g, ''), risk: match[2].trim(), score: parseInt(match[3], 10) };
+    return [{ line, topic }];
+  });
+
+// article-factcheck@1 predates search grounding: it answers through a response
+// schema, and its claims have a verification but no verdict or sources
+const ARTICLE_V1_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    riskLevel: { type: Type.STRING },
+    credibilityScore: { type: Type.INTEGER },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    summary: { type: Type.STRING },
+    claims: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          claim: { type: Type.STRING },
+          verification: { type: Type.STRING }
+        },
+        propertyOrdering: ['claim', 'verification'],
+      }
+    }
+  },
+  propertyOrdering: ['summary', 'tags', 'claims', 'riskLevel', 'credibilityScore'],
+};
+
+const articleConfig = (options?: ProviderCallOptions) =>
+  getPrompt('article-factcheck', options?.promptVersion).version === 1
+    ? { abortSignal: options?.signal, responseMimeType: 'application/json', responseSchema: ARTICLE_V1_RESPONSE_SCHEMA }
+    : groundedConfig(options);
+
+// Tool calls and their results travel as parts of the turn alongside the text
+const toChatContent = (turn: ChatTurn): Content => ({
+  role: turn.role,
+  parts: [
+    ...(turn.text ? [{ text: turn.text }] : []),
+    ...(turn.toolCalls ?? []).map(({ id, name, args }) => ({ functionCall: { id, name, args } })),
+    ...(turn.toolResults ?? []).map(({ id, name, response }) => ({ functionResponse: { id, name, response } })),
+  ],
+});
+
+// Text arrives a few words at a time; function calls come whole
+async function* toChatEvents(stream: AsyncIterable<GenerateContentResponse>): AsyncGenerator<ChatStreamEvent> {
+  for await (const chunk of stream) {
+    if (chunk.text) yield { type: 'text', text: chunk.text };
+    const toolCalls = (chunk.functionCalls ?? []).map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+    if (toolCalls.length > 0) yield { type: 'toolCalls', toolCalls };
+  }
+}
+
+export const geminiProvider: DetectionProvider & ImageModelCalls = {
+  id: 'gemini',
+  modelId: MODEL,
+
+  checkImage: (base64Image, mimeType, options) => runImageCheck(geminiProvider, base64Image, mimeType, options),
+
+  classifyImage: async (base64Image, mimeType, options) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Image,
+            },
+          },
+          {
+            text: buildPrompt('image-type', options),
+          },
+        ],
+      },
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            imageType: { type: Type.STRING },
+            reason: { type: Type.STRING },
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  analyzeImage: async (base64Image, mimeType, options) => {
+    const prompt = renderImagePrompt(getPrompt('image-forensics', options?.promptVersion), options?.imageType);
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Image,
+            },
+          },
+          {
+            text: prompt + languageInstruction(options?.language, options?.inputLanguage),
+          },
+        ],
+      },
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            classification: { type: Type.STRING },
+            confidence: { type: Type.INTEGER },
+            explanation: { type: Type.STRING },
+            findings: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  category: { type: Type.STRING },
+                  severity: { type: Type.STRING },
+                  box: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                  description: { type: Type.STRING },
+                  excerpt: { type: Type.STRING },
+                },
+              },
+            },
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  analyzeVoice: async (base64Audio, mimeType, options) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Audio,
+            },
+          },
+          {
+            text: buildPrompt('voice-ai-detection', options),
+          },
+        ],
+      },
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            classification: { type: Type.STRING },
+            confidence: { type: Type.INTEGER },
+            explanation: { type: Type.STRING }
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  analyzeCall: async (base64Audio, mimeType, options) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: MODEL,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType,
+              data: base64Audio,
+            },
+          },
+          {
+            text: buildPrompt('call-fraud', options),
+          },
+        ],
+      },
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            classification: { type: Type.STRING },
+            keywordsFound: { type: Type.ARRAY, items: { type: Type.STRING } },
+            fraudAssessment: { type: Type.STRING },
+            confidence: { type: Type.INTEGER },
+            explanation: { type: Type.STRING }
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  analyzeArticle: async (content, options) => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: buildPrompt('article-factcheck', options, { content }),
+      config: articleConfig(options),
+    });
+    const text = response.text ?? '';
+    const raw = parseModelJson(text);
+    return attachClaimSources(raw, sourcesBySection(text, claimAnchors(raw), response.candidates?.[0]?.groundingMetadata));
+  },
+
+  // Grounding metadata comes with the last chunks, so the sources are sent once
+  // all the text is in
+  async *streamArticleAnalysis(content, options) {
+    const stream = await getClient().models.generateContentStream({
+      model: MODEL,
+      contents: buildPrompt('article-factcheck', options, { content }),
+      config: articleConfig(options),
+    });
+    let text = '';
+    let metadata: GroundingMetadata | undefined;
+    for await (const chunk of stream) {
+      metadata = chunk.candidates?.[0]?.groundingMetadata ?? metadata;
+      if (chunk.text) {
+        text += chunk.text;
+        yield { type: 'text', text: chunk.text };
+      }
+    }
+    yield { type: 'sources', claims: sourcesBySection(text, claimAnchors(parsePartialJson(text)), metadata) };
+  },
+
+  generateAwarenessTemplate: async (prompt, options) => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: buildPrompt('awareness-template', options, { topic: prompt }),
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            highlights: { type: Type.ARRAY, items: { type: Type.STRING } },
+            tips: { type: Type.ARRAY, items: { type: Type.STRING } }
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  analyzeSms: async (content, senderType, options) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: MODEL,
+      contents: buildPrompt('sms-fraud', options, { content, senderType }),
+      config: {
+        abortSignal: options?.signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            classification: { type: Type.STRING },
+            explanation: { type: Type.STRING }
+          }
+        }
+      }
+    });
+    return parseModelJson(response.text);
+  },
+
+  // Each topic gets the search results that support it
+  getTrendingTopics: async (options) => {
+    const response = await getClient().models.generateContent({
+      model: MODEL,
+      contents: buildPrompt('trending-topics', options),
+      config: groundedConfig(options),
+    });
+
+    const text = response.text ?? '';
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    if (getPrompt('trending-topics', options?.promptVersion).version === 1) {
+      const lines = readTopicLines(text);
+      if (lines.length === 0 && text) {
+        throw new ResponseValidationError('topics', 'could not be parsed from the response text', text);
+      }
+      const sources = sourcesBySection(text, lines.map(({ line }) => line), metadata);
+      return lines.slice(0, 5).map(({ topic }, index) => ({ ...topic, sources: sources[index] }));
+    }
+    const topics = parseModelJson(text);
+    if (!Array.isArray(topics)) return topics;
+    const anchors = topics.map(item => {
+      const { topic } = (item ?? {}) as { topic?: unknown };
+      return typeof topic === 'string' ? JSON.stringify(topic) : '';
+    });
+    const sources = sourcesBySection(text, anchors, metadata);
+    // Anything that is not an object is left for validation to reject
+    return topics.slice(0, 5).map((item, index) =>
+      typeof item === 'object' && item !== null ? { ...item, sources: sources[index] } : item);
+  },
+
+  createChatSession: (kind, history: ChatTurn[] = [], language: LanguageCode = 'en'): ChatSession => {
+    const tools = chatTools(kind);
+    const config = {
+      systemInstruction: chatSystemInstruction(kind, language),
+      ...(tools.length > 0 ? {
+        tools: [{
+          functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })),
+        }],
+      } : {}),
+    };
+    const chat = getClient().chats.create({ model: MODEL, config, history: history.map(toChatContent) });
+    // A per-message config replaces the session's, so it is repeated alongside the signal
+    return {
+      async *streamMessage(message, signal) {
+        yield* toChatEvents(await chat.sendMessageStream({ message, config: { ...config, abortSignal: signal } }));
+      },
+      async *streamToolResults(results, signal) {
+        yield* toChatEvents(await chat.sendMessageStream({
+          message: results.map(({ id, name, response }) => ({ functionResponse: { id, name, response } })),
+          config: { ...config, abortSignal: signal },
+        }));
+      },
+    };
+  },
+};
@@ -0,0 +1,142 @@
+import { GroundingMetadata } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { attachClaimSources, claimAnchors, sourcesBySection } from './grounding';
+
+const encoder = new TextEncoder();
+
+const TEXT = '[{"topic":"Fake toll SMS","risk":"High"},{"topic":"Digital arrest calls","risk":"High"}]';
+const ANCHORS = ['"Fake toll SMS"', '"Digital arrest calls"'];
+
+const chunk = (uri: string, title?: string, domain?: string) => ({ web: { uri, title, domain } });
+
+// A support for the text starting at the first occurrence of marker
+const supportAt = (text: string, marker: string, groundingChunkIndices: number[]) => ({
+  segment: { startIndex: encoder.encode(text.slice(0, text.indexOf(marker))).length },
+  groundingChunkIndices,
+});
+
+describe('sourcesBySection', () => {
+  it('gives each section the sources of the supports inside it', () => {
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example/toll', 'Toll scam'), chunk('https://b.example/arrest', 'Arrest scam'), chunk('https://c.example', 'Both')],
+      groundingSupports: [
+        supportAt(TEXT, '"risk":"High"},', [0, 2]),
+        supportAt(TEXT, '"Digital', [1, 2]),
+      ],
+    };
+    expect(sourcesBySection(TEXT, ANCHORS, metadata)).toEqual([
+      [{ url: 'https://a.example/toll', title: 'Toll scam' }, { url: 'https://c.example', title: 'Both' }],
+      [{ url: 'https://b.example/arrest', title: 'Arrest scam' }, { url: 'https://c.example', title: 'Both' }],
+    ]);
+  });
+
+  it('counts segment offsets in UTF-8 bytes', () => {
+    const text = '[{"topic":"फर्जी बिजली बिल"},{"topic":"KYC update"}]';
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example'), chunk('https://b.example')],
+      groundingSupports: [supportAt(text, '"KYC', [1])],
+    };
+    // In characters the support would fall inside the first, longer-in-bytes section
+    expect(sourcesBySection(text, ['"फर्जी बिजली बिल"', '"KYC update"'], metadata)).toEqual([
+      [],
+      [{ url: 'https://b.example', title: 'https://b.example' }],
+    ]);
+  });
+
+  it('lists each source once and falls back to the domain or address for a title', () => {
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example/1', '', 'a.example'), chunk('https://a.example/1', 'Again'), chunk('https://b.example/2')],
+      groundingSupports: [supportAt(TEXT, '"Fake', [0, 1, 2])],
+    };
+    expect(sourcesBySection(TEXT, ANCHORS, metadata)[0]).toEqual([
+      { url: 'https://a.example/1', title: 'a.example' },
+      { url: 'https://b.example/2', title: 'https://b.example/2' },
+    ]);
+  });
+
+  it('gives no sources without grounding metadata', () => {
+    expect(sourcesBySection(TEXT, ANCHORS, undefined)).toEqual([[], []]);
+    expect(sourcesBySection(TEXT, ANCHORS, {})).toEqual([[], []]);
+    expect(sourcesBySection('', [], undefined)).toEqual([]);
+  });
+
+  it('counts a support without an offset from the start of the text', () => {
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example')],
+      groundingSupports: [{ groundingChunkIndices: [0] }],
+    };
+    expect(sourcesBySection(TEXT, ANCHORS, metadata)).toEqual([[], []]);
+    expect(sourcesBySection(TEXT.slice(TEXT.indexOf('"Fake')), ANCHORS, metadata)[0]).toEqual([{ url: 'https://a.example', title: 'https://a.example' }]);
+  });
+
+  it('skips supports and chunks it cannot use', () => {
+    const metadata: GroundingMetadata = {
+      groundingChunks: [{}, { web: {} }, { web: { title: 'No address' } }, chunk('https://ok.example', 'Fine')],
+      groundingSupports: [
+        { segment: { startIndex: 1 } },
+        { segment: {}, groundingChunkIndices: [0, 1, 2, 7, -1] },
+        supportAt(TEXT, '"Digital', [3]),
+      ],
+    };
+    expect(sourcesBySection(TEXT, ANCHORS, metadata)).toEqual([[], [{ url: 'https://ok.example', title: 'Fine' }]]);
+  });
+
+  it('survives metadata whose lists are not lists', () => {
+    const broken = { groundingChunks: 'none', groundingSupports: { 0: {} } } as unknown as GroundingMetadata;
+    expect(sourcesBySection(TEXT, ANCHORS, broken)).toEqual([[], []]);
+    const brokenSupports = {
+      groundingChunks: [chunk('https://a.example')],
+      groundingSupports: [null, { groundingChunkIndices: 0 }, supportAt(TEXT, '"Fake', [0])],
+    } as unknown as GroundingMetadata;
+    expect(sourcesBySection(TEXT, ANCHORS, brokenSupports)).toEqual([[{ url: 'https://a.example', title: 'https://a.example' }], []]);
+  });
+
+  it('gives no sources to items whose anchor is not in the text', () => {
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example'), chunk('https://b.example')],
+      groundingSupports: [supportAt(TEXT, '"Fake', [0]), supportAt(TEXT, '"Digital', [1])],
+    };
+    const sources = sourcesBySection(TEXT, ['"Fake toll SMS"', '', '"Not there"', '"Digital arrest calls"'], metadata);
+    expect(sources.map(links => links.map(link => link.url))).toEqual([['https://a.example'], [], [], ['https://b.example']]);
+  });
+});
+
+describe('claimAnchors', () => {
+  it('anchors each claim on its JSON-encoded text', () => {
+    expect(claimAnchors({ claims: [{ claim: 'Banks "never" call' }, { claim: 3 }, null, 'bare'] }))
+      .toEqual(['"Banks \\"never\\" call"', '', '', '']);
+  });
+
+  it('has no anchors without a claims list', () => {
+    expect(claimAnchors(null)).toEqual([]);
+    expect(claimAnchors({ claims: 'none' })).toEqual([]);
+  });
+
+  it('finds each claim in the raw response', () => {
+    const raw = { riskLevel: 'High', claims: [{ claim: 'खाता बंद होगा', verdict: 'False' }, { claim: 'Call 1930', verdict: 'True' }] };
+    const text = JSON.stringify(raw, null, 2);
+    const metadata: GroundingMetadata = {
+      groundingChunks: [chunk('https://a.example'), chunk('https://b.example')],
+      groundingSupports: [supportAt(text, '"खाता', [0]), supportAt(text, '"Call', [1])],
+    };
+    expect(sourcesBySection(text, claimAnchors(raw), metadata).map(links => links.map(link => link.url)))
+      .toEqual([['https://a.example'], ['https://b.example']]);
+  });
+});
+
+describe('attachClaimSources', () => {
+  const link = { url: 'https://a.example', title: 'A' };
+
+  it('gives each claim its sources, or none', () => {
+    expect(attachClaimSources({ summary: 'x', claims: [{ claim: 'a' }, { claim: 'b' }] }, [[link]])).toEqual({
+      summary: 'x',
+      claims: [{ claim: 'a', sources: [link] }, { claim: 'b', sources: [] }],
+    });
+  });
+
+  it('leaves malformed analyses for validation to reject', () => {
+    expect(attachClaimSources(null, [[link]])).toBeNull();
+    expect(attachClaimSources({ claims: 'none' }, [[link]])).toEqual({ claims: 'none' });
+    expect(attachClaimSources({ claims: ['bare', null] }, [[link], [link]])).toEqual({ claims: ['bare', null] });
+  });
+});
@@ -0,0 +1,69 @@
+import { GroundingMetadata } from "@google/genai";
+import { SourceLink } from "../../types";
+
+// Google Search grounding returns its sources for the response as a whole, plus
+// "supports" that tie a segment of the response text to some of those sources.
+// This splits the response into sections, one per item the model listed, and
+// hands each item the sources that support text inside its section.
+
+const encoder = new TextEncoder();
+
+// Segment offsets are counted in UTF-8 bytes, not string characters
+const byteOffset = (text: string, charIndex: number) => encoder.encode(text.slice(0, charIndex)).length;
+
+// anchors are strings that open each item's section in the text, in order (e.g. the
+// JSON-encoded title of each topic). Items whose anchor is missing get no sources.
+export const sourcesBySection = (text: string, anchors: string[], metadata: GroundingMetadata | undefined): SourceLink[][] => {
+  // The metadata comes straight off the wire, so lists that are not lists count as empty
+  const chunks = Array.isArray(metadata?.groundingChunks) ? metadata.groundingChunks : [];
+  const supports = Array.isArray(metadata?.groundingSupports) ? metadata.groundingSupports : [];
+
+  let searchFrom = 0;
+  const starts = anchors.map(anchor => {
+    const index = anchor ? text.indexOf(anchor, searchFrom) : -1;
+    if (index === -1) return null;
+    searchFrom = index + anchor.length;
+    return byteOffset(text, index);
+  });
+  const textEnd = byteOffset(text, text.length);
+
+  return starts.map((start, item) => {
+    if (start === null) return [];
+    const end = starts.slice(item + 1).find(next => next !== null) ?? textEnd;
+    const links = new Map<string, SourceLink>();
+    for (const support of supports) {
+      const position = support?.segment?.startIndex ?? 0;
+      if (position < start || position >= end) continue;
+      const indices = support?.groundingChunkIndices;
+      for (const chunkIndex of Array.isArray(indices) ? indices : []) {
+        const web = chunks[chunkIndex]?.web;
+        if (web?.uri && !links.has(web.uri)) {
+          links.set(web.uri, { url: web.uri, title: web.title || web.domain || web.uri });
+        }
+      }
+    }
+    return [...links.values()];
+  });
+};
+
+// The JSON-encoded text of each claim in a raw article analysis, for sourcesBySection
+export const claimAnchors = (raw: unknown): string[] => {
+  const claims = (raw as { claims?: unknown } | null)?.claims;
+  if (!Array.isArray(claims)) return [];
+  return claims.map(item => {
+    const { claim } = (item ?? {}) as { claim?: unknown };
+    return typeof claim === 'string' ? JSON.stringify(claim) : '';
+  });
+};
+
+// Adds each claim's sources to a raw article analysis; anything malformed is left
+// as it is for validation to reject
+export const attachClaimSources = (raw: unknown, sources: SourceLink[][]): unknown => {
+  const claims = (raw as { claims?: unknown } | null)?.claims;
+  if (!Array.isArray(claims)) return raw;
+  return {
+    ...(raw as object),
+    claims: claims.map((item, index) =>
+      typeof item === 'object' && item !== null ? { ...item, sources: sources[index] ?? [] } : item),
+  };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseValidationError } from '../errors';
+import { runImageCheck } from './imageCheck';
+import { ImageModelCalls, ProviderCallOptions } from './types';
+
+// Records the calls made and answers with the given classification
+const fakeCalls = (classification: unknown = { imageType: 'portrait', reason: 'One face' }) => {
+  const calls: { method: string; options?: ProviderCallOptions }[] = [];
+  const model: ImageModelCalls = {
+    classifyImage: async (_image, _mimeType, options) => {
+      calls.push({ method: 'classify', options });
+      return classification;
+    },
+    analyzeImage: async (_image, _mimeType, options) => {
+      calls.push({ method: 'analyze', options });
+      return { classification: 'Authentic' };
+    },
+  };
+  return { model, calls };
+};
+
+describe('runImageCheck', () => {
+  it('classifies first and checks with the picked protocol', async () => {
+    const { model, calls } = fakeCalls();
+    const check = await runImageCheck(model, 'data', 'image/png', { promptVersion: 3, language: 'hi' });
+    expect(check).toEqual({ classification: { imageType: 'portrait', reason: 'One face' }, result: { classification: 'Authentic' } });
+    expect(calls.map(call => call.method)).toEqual(['classify', 'analyze']);
+    expect(calls[0].options).toMatchObject({ promptVersion: undefined, language: 'hi' });
+    expect(calls[1].options).toMatchObject({ promptVersion: 3, imageType: 'portrait' });
+  });
+
+  it('skips the classification when the type is given', async () => {
+    const { model, calls } = fakeCalls();
+    const check = await runImageCheck(model, 'data', 'image/png', { imageType: 'document' });
+    expect(check.classification).toBeNull();
+    expect(calls).toEqual([{ method: 'analyze', options: { imageType: 'document' } }]);
+  });
+
+  it('skips the classification for prompt versions without protocols', async () => {
+    const { model, calls } = fakeCalls();
+    await runImageCheck(model, 'data', 'image/png', { promptVersion: 1, imageType: 'document' });
+    expect(calls).toEqual([{ method: 'analyze', options: { promptVersion: 1, imageType: undefined } }]);
+  });
+
+  it('stops when the pick cannot be read', async () => {
+    const { model, calls } = fakeCalls({ imageType: 'meme' });
+    await expect(runImageCheck(model, 'data', 'image/png')).rejects.toThrow(ResponseValidationError);
+    expect(calls.map(call => call.method)).toEqual(['classify']);
+  });
+});
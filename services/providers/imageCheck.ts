@@ -0,0 +1,26 @@
+import { findPrompt } from "../prompts";
+import { validateImageClassification } from "../validation";
+import { ImageCheck, ImageModelCalls, ProviderCallOptions } from "./types";
+
+// An image check is two model calls: the image-type prompt decides what kind of
+// image it is, unless the caller says, and the image-forensics prompt then checks
+// it with the protocol for that kind. Prompt versions without protocols skip the
+// first call. The pick has to be read before the second call can be made, so it
+// is validated here as well as in the service layer.
+export const runImageCheck = async (
+  calls: ImageModelCalls,
+  base64Image: string,
+  mimeType: string,
+  options?: ProviderCallOptions,
+): Promise<ImageCheck> => {
+  if (!findPrompt('image-forensics', options?.promptVersion)?.protocols) {
+    return { classification: null, result: await calls.analyzeImage(base64Image, mimeType, { ...options, imageType: undefined }) };
+  }
+  if (options?.imageType) {
+    return { classification: null, result: await calls.analyzeImage(base64Image, mimeType, options) };
+  }
+  // The requested prompt version is image-forensics', not the classifier's
+  const classification = await calls.classifyImage(base64Image, mimeType, { ...options, promptVersion: undefined });
+  const { type } = validateImageClassification(classification);
+  return { classification, result: await calls.analyzeImage(base64Image, mimeType, { ...options, imageType: type }) };
+};
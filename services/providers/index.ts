@@ -0,0 +1,51 @@
+import { apiProvider } from "./apiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { DetectionProvider, DetectionProviderId } from "./types";
+
+export type {
+  ArticleStreamEvent,
+  ChatKind,
+  ChatSession,
+  ChatStreamEvent,
+  ChatTool,
+  ChatToolCall,
+  ChatToolResult,
+  ChatTurn,
+  DetectionProvider,
+  DetectionProviderId,
+  ProviderCallOptions,
+} from "./types";
+
+// Replay providers are built from a recording, so they cannot be selected by id
+const providers: Record<Exclude<DetectionProviderId, 'replay'>, DetectionProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  api: apiProvider,
+};
+
+// DETECTION_PROVIDER picks the backend explicitly. When it is not set the browser
+// goes through our server, which holds the Gemini key. Scripts running under Node
+// use Gemini directly if a key is configured and the offline mock otherwise.
+const resolveProviderId = (): keyof typeof providers => {
+  const configured = process.env.DETECTION_PROVIDER;
+  if (configured) {
+    if (configured in providers) {
+      return configured as keyof typeof providers;
+    }
+    console.warn(`Unknown DETECTION_PROVIDER "${configured}", falling back to the default provider.`);
+  }
+  if (typeof window !== 'undefined') {
+    return 'api';
+  }
+  return process.env.GEMINI_API_KEY ? 'gemini' : 'mock';
+};
+
+let activeProvider: DetectionProvider = providers[resolveProviderId()];
+
+export const getDetectionProvider = (): DetectionProvider => activeProvider;
+
+// Swaps the provider at runtime, e.g. to force the mock provider in tests.
+export const setDetectionProvider = (provider: keyof typeof providers | DetectionProvider) => {
+  activeProvider = typeof provider === 'string' ? providers[provider] : provider;
+};
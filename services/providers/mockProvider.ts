@@ -0,0 +1,363 @@
+import { FAQ_DATA } from "../../constants";
+import {
+  AiVoiceDetectionResult,
+  ArticleAnalysisResult,
+  CallFraudAnalysisResult,
+  ImageDetectionResult,
+  ImageFinding,
+  ImageType,
+  SmsAnalysisResult,
+  TrendingTopic,
+} from "../../types";
+import { chatTools } from "../chatSetup";
+import { runImageCheck } from "./imageCheck";
+import { ChatSession, ChatStreamEvent, ChatTool, ChatToolCall, ChatToolResult, DetectionProvider, ImageModelCalls } from "./types";
+
+// An offline provider for demos, development and tests. It never touches the
+// network: every verdict is derived from simple heuristics and a hash of the
+// input, so the same input always produces the same result. It cannot translate,
+// so it answers in English whatever language is asked for.
+
+const MOCK_LATENCY_MS = 400;
+
+// Streamed responses arrive in small chunks so progressive rendering is visible
+const MOCK_STREAM_CHUNK_LENGTH = 24;
+const MOCK_STREAM_CHUNK_DELAY_MS = 60;
+
+const MOCK_NOTE = '(Offline demo mode: this result was produced locally without an AI model.)';
+
+// English and Hinglish words are matched as whole words; \b does not work with
+// Devanagari, so Hindi words are matched anywhere
+const SMS_FRAUD_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\b(urgent|immediately|act now|limited time|within 24 ?h(ou)?rs?|turant|jaldi|aakhri mauka)\b|तुरंत|जल्दी|अंतिम/i, reason: 'it creates a sense of urgency' },
+  { pattern: /\b(otp|password|pin|cvv|kyc|aadhaar|pan card|bank details|card number)\b|ओटीपी|पिन|आधार|केवाईसी/i, reason: 'it asks for personal or banking details' },
+  { pattern: /\b(won|winner|prize|lottery|reward|cashback|gift|inaam|jeeta|jeete)\b|इनाम|लॉटरी|जीता|जीते/i, reason: 'it promises an unsolicited prize or reward' },
+  { pattern: /\b(suspend(ed)?|block(ed)?|deactivat(e|ed)|expire[sd]?|legal action|band ho jayega|kaat di jayegi)\b|बंद हो जाएगा|ब्लॉक|काट दिया जाएगा/i, reason: 'it threatens you with a penalty' },
+  { pattern: /(bit\.ly|tinyurl|t\.co|goo\.gl|rb\.gy|cutt\.ly)\//i, reason: 'it contains a shortened link' },
+  { pattern: /\b(work from home|part[- ]time job|earn rs\.?|earn ₹|ghar baithe)\b|घर बैठे/i, reason: 'it offers an unsolicited job' },
+];
+
+const SENSATIONAL_PATTERNS = [
+  /\b(shocking|miracle|secret|they don't want you to know|100% (cure|proof)|exposed|banned)\b/i,
+  /\b(share (this )?before|forward to all|must watch|breaking)\b/i,
+  /\b(cure[sd]? (cancer|diabetes|covid)|doctors hate)\b/i,
+  /!{2,}/,
+];
+
+// Fact-checking sites stand in for the search results Gemini would cite
+const FACT_CHECK_SOURCES = {
+  pib: { url: 'https://factcheck.pib.gov.in/', title: 'PIB Fact Check' },
+  boom: { url: 'https://www.boomlive.in/', title: 'BOOM' },
+  altNews: { url: 'https://www.altnews.in/', title: 'Alt News' },
+  factly: { url: 'https://factly.in/', title: 'Factly' },
+};
+
+// Dates are relative to today so the demo always looks current
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const mockTrendingTopics = (): TrendingTopic[] => [
+  {
+    topic: 'Fake government subsidy registration links',
+    summary: `Messages claim a new government scheme pays a subsidy to anyone who registers through a link, which actually collects bank details. ${MOCK_NOTE}`,
+    firstSeen: daysAgo(6),
+    risk: 'High',
+    score: 12,
+    sources: [FACT_CHECK_SOURCES.pib, FACT_CHECK_SOURCES.factly],
+  },
+  {
+    topic: 'AI-generated celebrity investment endorsements',
+    summary: `Deepfake videos show well-known actors and business leaders recommending a trading app they have no connection to. ${MOCK_NOTE}`,
+    firstSeen: daysAgo(14),
+    risk: 'High',
+    score: 18,
+    sources: [FACT_CHECK_SOURCES.boom],
+  },
+  {
+    topic: 'Miracle home remedies for seasonal flu',
+    summary: `Forwarded posts say a kitchen remedy cures the flu within a day and makes vaccination unnecessary. ${MOCK_NOTE}`,
+    firstSeen: daysAgo(21),
+    risk: 'Medium',
+    score: 35,
+    sources: [FACT_CHECK_SOURCES.altNews],
+  },
+  {
+    topic: 'Doctored images of flooded city streets',
+    summary: `Photos from earlier floods and other countries are being shared as pictures of this week's rain. ${MOCK_NOTE}`,
+    firstSeen: daysAgo(3),
+    risk: 'Medium',
+    score: 41,
+    sources: [FACT_CHECK_SOURCES.boom, FACT_CHECK_SOURCES.altNews],
+  },
+  {
+    topic: 'Misleading claims about new traffic fines',
+    summary: `Posts list inflated fines for minor traffic offences that were never notified. ${MOCK_NOTE}`,
+    firstSeen: null,
+    risk: 'Low',
+    score: 62,
+    sources: [],
+  },
+];
+
+// FNV-1a; stable across runs and cheap enough for multi-megabyte base64 payloads.
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T,>(items: readonly T[], seed: number): T => items[seed % items.length];
+
+const scoreBetween = (seed: number, min: number, max: number) => min + (seed % (max - min + 1));
+
+// Flaws the mock detector "finds" in images it calls AI-generated, by kind of
+// image and placed from the image hash
+type MockFlaw = Pick<ImageFinding, 'category' | 'severity' | 'description' | 'excerpt'>;
+
+const MOCK_IMAGE_FLAWS: Record<ImageType, MockFlaw[]> = {
+  illustration: [
+    { category: 'hands', severity: 'high', description: 'A hand has an extra finger.', excerpt: 'One hand appears to have six fingers.' },
+    { category: 'background', severity: 'medium', description: 'Background objects blend into each other.', excerpt: 'Objects in the background melt into one another.' },
+    { category: 'text', severity: 'low', description: 'Lettering is not legible.', excerpt: 'A sign in the scene has letter-like shapes instead of words.' },
+  ],
+  photograph: [
+    { category: 'lighting', severity: 'high', description: 'Shadows fall in two directions.', excerpt: 'Shadows on the left fall the opposite way to those on the right.' },
+    { category: 'background', severity: 'medium', description: 'A railing warps and merges.', excerpt: 'The railing behind the subject bends and merges into the wall.' },
+    { category: 'text', severity: 'low', description: 'A sign is not legible.', excerpt: 'A shop sign has letter-like shapes instead of words.' },
+  ],
+  portrait: [
+    { category: 'face', severity: 'high', description: 'A seam runs along the jawline.', excerpt: 'The skin tone changes sharply along the jawline.' },
+    { category: 'face', severity: 'medium', description: 'The catchlights in the eyes differ.', excerpt: 'The two eyes reflect different light sources.' },
+    { category: 'lighting', severity: 'low', description: 'The face is lit from another side than the scene.', excerpt: 'The face is lit from the left while the room is lit from the right.' },
+  ],
+  screenshot: [
+    { category: 'layout', severity: 'high', description: 'An amount sits on a different baseline.', excerpt: 'One amount sits lower than the text around it.' },
+    { category: 'text', severity: 'medium', description: 'A name uses a different font weight.', excerpt: 'The contact name is bolder than elsewhere in the app.' },
+    { category: 'layout', severity: 'low', description: 'Timestamps are out of order.', excerpt: 'A later message shows an earlier time.' },
+  ],
+  document: [
+    { category: 'layout', severity: 'high', description: 'A date uses a different font.', excerpt: 'The issue date is printed in a different font from the other fields.' },
+    { category: 'background', severity: 'medium', description: 'A stamp has pixelated edges.', excerpt: 'The stamp looks pasted on, with pixelated edges.' },
+    { category: 'text', severity: 'low', description: 'The fine print is not legible.', excerpt: 'The fine print along the bottom does not form real words.' },
+  ],
+};
+
+const MOCK_IMAGE_TYPES: ImageType[] = ['photograph', 'illustration', 'portrait', 'screenshot', 'document'];
+
+// Boxes as the model gives them: [ymin, xmin, ymax, xmax] on a 0-1000 scale
+const mockFlawBox = (seed: number) => {
+  const top = scoreBetween(seed, 50, 600);
+  const left = scoreBetween(seed >>> 8, 50, 600);
+  return [top, left, top + scoreBetween(seed >>> 4, 120, 350), left + scoreBetween(seed >>> 12, 120, 350)];
+};
+
+// Resolves after a short delay so loading states can be seen, unless aborted first
+const withLatency = <T,>(value: T, signal?: AbortSignal, latencyMs = MOCK_LATENCY_MS): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(value);
+    }, latencyMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const findFaqAnswer = (text: string): string | null => {
+  const words = text.toLowerCase().split(/\W+/).filter(word => word.length > 3);
+  let best: { answer: string; hits: number } | null = null;
+  for (const { question, answer } of FAQ_DATA) {
+    const haystack = `${question} ${answer}`.toLowerCase();
+    const hits = words.filter(word => haystack.includes(word)).length;
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { answer, hits };
+    }
+  }
+  return best ? best.answer : null;
+};
+
+// Same key order as the Gemini schema: summary and claims before the verdict
+// Sensational claims are marked misleading and pointed at fact-checking sites;
+// nothing else can be judged without a model, so it stays unverifiable
+const mockArticleAnalysis = (content: string): ArticleAnalysisResult => {
+  const hits = SENSATIONAL_PATTERNS.filter(pattern => pattern.test(content)).length;
+  const sentences = content.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+  return {
+    summary: sentences.slice(0, 2).join(' ') || content.slice(0, 200),
+    tags: hits > 0 ? ['sensational language', 'unverified'] : ['general'],
+    claims: sentences.slice(0, 3).map(claim => SENSATIONAL_PATTERNS.some(pattern => pattern.test(claim))
+      ? {
+        claim,
+        verdict: 'misleading',
+        confidence: scoreBetween(hashString(claim), 55, 70),
+        verification: `This claim uses sensational wording typical of misinformation. ${MOCK_NOTE}`,
+        sources: [FACT_CHECK_SOURCES.boom, FACT_CHECK_SOURCES.altNews],
+      }
+      : {
+        claim,
+        verdict: 'unverifiable',
+        confidence: scoreBetween(hashString(claim), 30, 45),
+        verification: `No red-flag wording detected; the claim was not checked against sources. ${MOCK_NOTE}`,
+        sources: [],
+      }),
+    riskLevel: hits >= 2 ? 'High' : hits === 1 ? 'Medium' : 'Low',
+    credibilityScore: Math.max(5, 85 - hits * 25 - (hashString(content) % 10)),
+  };
+};
+
+// Replies arrive in chunks like the model's, so the chat window can be tried offline
+async function* streamMockText(text: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  for (let start = 0; start < text.length; start += MOCK_STREAM_CHUNK_LENGTH) {
+    await withLatency(null, signal, MOCK_STREAM_CHUNK_DELAY_MS);
+    yield { type: 'text', text: text.slice(start, start + MOCK_STREAM_CHUNK_LENGTH) };
+  }
+}
+
+const mockReply = (text: string): string =>
+  findFaqAnswer(text)
+  ?? "I'm running in offline demo mode, so I can only answer questions about the CodeHustlers tools. Try asking how image detection or article analysis works.";
+
+// Pasted articles are long and run over several sentences
+const MOCK_ARTICLE_MIN_LENGTH = 280;
+
+// Calls a tool the way the model would for pasted content: long text is an
+// article, text with a fraud indicator or a link is a message. Questions are
+// answered from the FAQ instead.
+const pickMockToolCall = (message: string, tools: ChatTool[]): ChatToolCall | null => {
+  const content = message.trim();
+  const offered = (name: string) => tools.some(tool => tool.name === name);
+  if (content.endsWith('?')) return null;
+  if (offered('analyze_article') && content.length >= MOCK_ARTICLE_MIN_LENGTH && content.split(/(?<=[.!?])\s+/).length >= 3) {
+    return { name: 'analyze_article', args: { content } };
+  }
+  if (offered('analyze_sms') && (SMS_FRAUD_PATTERNS.some(({ pattern }) => pattern.test(content)) || /https?:\/\//i.test(content))) {
+    return { name: 'analyze_sms', args: { content } };
+  }
+  return null;
+};
+
+const summarizeToolResult = ({ response }: ChatToolResult): string => {
+  const result = response.result as Partial<SmsAnalysisResult & ArticleAnalysisResult> | undefined;
+  if (response.status !== 'ok' || !result) {
+    return `I couldn't finish that check (${String(response.error ?? 'unknown error')}). Please try the tool on the dashboard instead.`;
+  }
+  if (result.classification === 'fraud') {
+    return 'This message shows common signs of fraud. Do not open its links or share any codes, and call the Cybercrime Helpline at 1930 if you have lost money.';
+  }
+  if (result.classification === 'safe') {
+    return 'I found no common fraud indicators in this message, but stay careful with links and requests for codes.';
+  }
+  return `This article has a ${result.riskLevel} misinformation risk and a credibility score of ${result.credibilityScore}/100. Look through the checked claims before sharing it.`;
+};
+
+export const mockProvider: DetectionProvider & ImageModelCalls = {
+  id: 'mock',
+  modelId: 'mock-heuristics',
+
+  checkImage: (base64Image, mimeType, options) => runImageCheck(mockProvider, base64Image, mimeType, options),
+
+  classifyImage: async (base64Image, _mimeType, options) => {
+    const imageType = pick(MOCK_IMAGE_TYPES, hashString(`type:${base64Image}`));
+    return withLatency({
+      imageType,
+      reason: `The mock detector picked this type from a fingerprint of the image data. ${MOCK_NOTE}`,
+    }, options?.signal);
+  },
+
+  analyzeImage: async (base64Image, _mimeType, options) => {
+    const seed = hashString(base64Image);
+    const classification = pick<ImageDetectionResult['classification']>(['AI-generated', 'Authentic', 'Uncertain'], seed);
+    const typeFlaws = MOCK_IMAGE_FLAWS[options?.imageType ?? 'illustration'];
+    const flaws = classification === 'AI-generated' ? typeFlaws.slice(0, 1 + (seed % typeFlaws.length)) : [];
+    return withLatency({
+      classification,
+      confidence: classification === 'Uncertain' ? scoreBetween(seed, 40, 60) : scoreBetween(seed, 70, 97),
+      explanation: [
+        'The mock detector assigned this verdict from a fingerprint of the image data.',
+        ...flaws.map(flaw => flaw.excerpt),
+        MOCK_NOTE,
+      ].join(' '),
+      findings: flaws.map((flaw, index) => ({ ...flaw, box: mockFlawBox(hashString(`${seed}:${index}`)) })),
+    }, options?.signal);
+  },
+
+  analyzeVoice: async (base64Audio, _mimeType, options) => {
+    const seed = hashString(base64Audio);
+    const classification = pick<AiVoiceDetectionResult['classification']>(['AI-Generated Voice', 'Human Voice', 'Uncertain'], seed);
+    return withLatency({
+      classification,
+      confidence: classification === 'Uncertain' ? scoreBetween(seed, 40, 60) : scoreBetween(seed, 70, 97),
+      explanation: `The mock detector assigned this verdict from a fingerprint of the audio data. ${MOCK_NOTE}`,
+    }, options?.signal);
+  },
+
+  analyzeCall: async (base64Audio, _mimeType, options) => {
+    const seed = hashString(base64Audio);
+    const classification = pick<CallFraudAnalysisResult['classification']>(['AI-Generated Voice', 'Human Voice'], seed);
+    const keywordsFound = seed % 2 === 0 ? [] : [pick(['OTP', 'bank', 'verify', 'urgent', 'prize'], seed >>> 3)];
+    const isFraud = classification === 'AI-Generated Voice' || keywordsFound.length > 0;
+    return withLatency({
+      classification,
+      keywordsFound,
+      fraudAssessment: isFraud ? 'Fraudulent Call' : 'Safe Call',
+      confidence: scoreBetween(seed, 70, 95),
+      explanation: `The mock detector cannot transcribe audio; the voice verdict and keywords are derived from a fingerprint of the file. ${MOCK_NOTE}`,
+    }, options?.signal);
+  },
+
+  analyzeArticle: async (content, options) => withLatency(mockArticleAnalysis(content), options?.signal),
+
+  // Like Gemini, the text streams without sources and they follow at the end
+  async *streamArticleAnalysis(content, options) {
+    const analysis = mockArticleAnalysis(content);
+    const text = JSON.stringify({ ...analysis, claims: analysis.claims.map(({ sources: _sources, ...claim }) => claim) });
+    for (let start = 0; start < text.length; start += MOCK_STREAM_CHUNK_LENGTH) {
+      await withLatency(null, options?.signal, MOCK_STREAM_CHUNK_DELAY_MS);
+      yield { type: 'text', text: text.slice(start, start + MOCK_STREAM_CHUNK_LENGTH) };
+    }
+    yield { type: 'sources', claims: analysis.claims.map(claim => claim.sources) };
+  },
+
+  generateAwarenessTemplate: async (prompt, options) => withLatency({
+    title: `Think Before You Share: ${prompt.slice(0, 60)}`,
+    highlights: [
+      'The claim spreads mostly through forwarded messages without a named source.',
+      'Emotional or urgent wording is used to discourage fact-checking.',
+      'Official sources have not confirmed the story.',
+    ],
+    tips: [
+      'Check the claim on a trusted fact-checking site before forwarding it.',
+      'Report suspected fraud to the Cybercrime Helpline at 1930.',
+    ],
+  }, options?.signal),
+
+  analyzeSms: async (content, senderType, options) => {
+    const reasons = SMS_FRAUD_PATTERNS.filter(({ pattern }) => pattern.test(content)).map(({ reason }) => reason);
+    if (senderType === 'numeric' && /https?:\/\//i.test(content)) {
+      reasons.push('a personal phone number is sending links');
+    }
+    const result: SmsAnalysisResult = reasons.length > 0
+      ? { classification: 'fraud', explanation: `This message looks suspicious because ${reasons.join(', ')}. ${MOCK_NOTE}` }
+      : { classification: 'safe', explanation: `No common fraud indicators were found in this message. ${MOCK_NOTE}` };
+    return withLatency(result, options?.signal);
+  },
+
+  getTrendingTopics: async (options) => withLatency(mockTrendingTopics(), options?.signal),
+
+
+  createChatSession: (kind): ChatSession => ({
+    async *streamMessage(message, signal) {
+      const toolCall = pickMockToolCall(message, chatTools(kind));
+      if (toolCall) {
+        yield withLatency<ChatStreamEvent>({ type: 'toolCalls', toolCalls: [toolCall] }, signal);
+      } else {
+        yield* streamMockText(mockReply(message), signal);
+      }
+    },
+    streamToolResults: (results, signal) => streamMockText(results.map(summarizeToolResult).join('\n\n'), signal),
+  }),
+};
@@ -0,0 +1,111 @@
+import { hashAnalysisInput } from "../resultCache";
+import { runImageCheck } from "./imageCheck";
+import { ArticleStreamEvent, ChatSession, DetectionProvider, ImageModelCalls, ProviderCallOptions } from "./types";
+
+// Raw provider responses captured from a real run, keyed by a hash of the call
+// (method, arguments, prompt version and languages). Replaying them reproduces an evaluation
+// exactly, without network access or API costs.
+export interface Recording {
+  modelId: string;
+  responses: Record<string, { method: string; promptVersion?: number; response: unknown }>;
+}
+
+type RecordedMethod =
+  | 'classifyImage'
+  | 'analyzeImage'
+  | 'analyzeVoice'
+  | 'analyzeCall'
+  | 'analyzeArticle'
+  | 'streamArticleAnalysis'
+  | 'generateAwarenessTemplate'
+  | 'analyzeSms'
+  | 'getTrendingTopics';
+
+const recordingKey = (method: RecordedMethod, args: string[], options?: ProviderCallOptions) =>
+  hashAnalysisInput([method, String(options?.promptVersion ?? 'active'), options?.language ?? 'en', options?.inputLanguage ?? '', ...args]);
+
+// Recording needs the model calls themselves, so image checks are kept call by call
+type RecordableProvider = DetectionProvider & ImageModelCalls;
+
+type Invoke = (provider: RecordableProvider) => Promise<unknown>;
+
+// Builds a provider whose calls all go through the given handler. invoke makes
+// the same call on another provider.
+const wrapCalls = (
+  base: Pick<DetectionProvider, 'id' | 'modelId' | 'createChatSession'>,
+  handle: (method: RecordedMethod, args: string[], options: ProviderCallOptions | undefined, invoke: Invoke) => Promise<unknown>,
+): RecordableProvider => {
+  const imageCalls: ImageModelCalls = {
+    classifyImage: (base64Image, mimeType, options) =>
+      handle('classifyImage', [base64Image, mimeType], options, provider => provider.classifyImage(base64Image, mimeType, options)),
+    // The image type is only part of the key when set, so older recordings still replay
+    analyzeImage: (base64Image, mimeType, options) =>
+      handle('analyzeImage', [base64Image, mimeType, ...(options?.imageType ? [options.imageType] : [])], options, provider => provider.analyzeImage(base64Image, mimeType, options)),
+  };
+  return {
+    id: base.id,
+    modelId: base.modelId,
+    createChatSession: base.createChatSession,
+    ...imageCalls,
+    checkImage: (base64Image, mimeType, options) => runImageCheck(imageCalls, base64Image, mimeType, options),
+    analyzeVoice: (base64Audio, mimeType, options) =>
+      handle('analyzeVoice', [base64Audio, mimeType], options, provider => provider.analyzeVoice(base64Audio, mimeType, options)),
+    analyzeCall: (base64Audio, mimeType, options) =>
+      handle('analyzeCall', [base64Audio, mimeType], options, provider => provider.analyzeCall(base64Audio, mimeType, options)),
+    analyzeArticle: (content, options) =>
+      handle('analyzeArticle', [content], options, provider => provider.analyzeArticle(content, options)),
+    // Streams are recorded as their full text plus any sources and replayed in one go.
+    // Older recordings hold only the text.
+    async *streamArticleAnalysis(content, options) {
+      const recorded = await handle('streamArticleAnalysis', [content], options, async provider => {
+        let text = '';
+        const others: ArticleStreamEvent[] = [];
+        for await (const event of provider.streamArticleAnalysis(content, options)) {
+          if (event.type === 'text') text += event.text;
+          else others.push(event);
+        }
+        return [{ type: 'text', text }, ...others];
+      });
+      if (typeof recorded === 'string') {
+        yield { type: 'text', text: recorded };
+        return;
+      }
+      yield* recorded as ArticleStreamEvent[];
+    },
+
+    generateAwarenessTemplate: (prompt, options) =>
+      handle('generateAwarenessTemplate', [prompt], options, provider => provider.generateAwarenessTemplate(prompt, options)),
+    analyzeSms: (content, senderType, options) =>
+      handle('analyzeSms', [content, senderType], options, provider => provider.analyzeSms(content, senderType, options)),
+    getTrendingTopics: (options) =>
+      handle('getTrendingTopics', [], options, provider => provider.getTrendingTopics(options)),
+  };
+};
+
+// Passes every call through to the inner provider and stores successful responses
+// in the recording. Failures are not recorded, so a replay reports them as misses.
+export const createRecordingProvider = (inner: RecordableProvider, recording: Recording): DetectionProvider =>
+  wrapCalls(inner, async (method, args, options, invoke) => {
+    const response = await invoke(inner);
+    recording.responses[await recordingKey(method, args, options)] = { method, promptVersion: options?.promptVersion, response };
+    return response;
+  });
+
+async function* chatUnavailable(): AsyncGenerator<never> {
+  throw new Error('Chat is not available when replaying a recording');
+}
+
+const unsupportedChat = (): ChatSession => ({
+  streamMessage: chatUnavailable,
+  streamToolResults: chatUnavailable,
+});
+
+// Answers every call from the recording and fails calls that were never recorded.
+export const createReplayProvider = (recording: Recording): DetectionProvider =>
+  wrapCalls({ id: 'replay', modelId: recording.modelId, createChatSession: unsupportedChat }, async (method, args, options) => {
+    const entry = recording.responses[await recordingKey(method, args, options)];
+    if (!entry) {
+      throw new Error(`No recorded response for ${method} with prompt version ${options?.promptVersion ?? 'active'}`);
+    }
+    return entry.response;
+  });
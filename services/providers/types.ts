@@ -0,0 +1,82 @@
+import { ChatToolCall, ChatToolResult, ChatTurn, ImageType, InputLanguage, LanguageCode, SourceLink } from "../../types";
+
+export type { ChatToolCall, ChatToolResult, ChatTurn } from "../../types";
+
+export type DetectionProviderId = 'gemini' | 'mock' | 'api' | 'replay';
+
+// Per-call settings the service layer hands to a provider.
+export interface ProviderCallOptions {
+    // Fires when the request times out or the user cancels it
+    signal?: AbortSignal;
+    // Prompt version to use instead of the active one from the prompt registry
+    promptVersion?: number;
+    // Language to write free-text fields in; English when not set
+    language?: LanguageCode;
+    // Detected language of a text input, so the model reads Hinglish as Hindi
+    inputLanguage?: InputLanguage | null;
+    // Kind of image, which picks the protocol of an image prompt; illustration when not set
+    imageType?: ImageType;
+}
+
+// The conversations the app holds: the support chatbot, which can run checks,
+// and the voice assistant. Each one's instructions and tools come from chatSetup.ts.
+export type ChatKind = 'support' | 'voice';
+
+// A function the chat model may ask the app to run. parameters is a JSON Schema
+// object describing its arguments.
+export interface ChatTool {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+}
+
+// A streamed article analysis: the raw JSON text as the model generates it and,
+// once it is done, the sources grounding found for each claim (in claim order).
+export type ArticleStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'sources'; claims: SourceLink[][] };
+
+// A streamed chat reply: text for the user as the model writes it, and tool calls
+// the app must run and answer with streamToolResults before the model can go on
+export type ChatStreamEvent =
+    | { type: 'text'; text: string }
+    | { type: 'toolCalls'; toolCalls: ChatToolCall[] };
+
+// A conversation with the model that keeps its own history between messages. A
+// reply only joins the history once it has been streamed to the end.
+export interface ChatSession {
+    streamMessage(message: string, signal?: AbortSignal): AsyncIterable<ChatStreamEvent>;
+    streamToolResults(results: ChatToolResult[], signal?: AbortSignal): AsyncIterable<ChatStreamEvent>;
+}
+
+// The raw answers of an image check: the image-type prompt's pick (null when the
+// caller chose the type or the prompt version has no protocols) and the analysis
+export interface ImageCheck {
+    classification: unknown;
+    result: unknown;
+}
+
+// The model calls an image check is made of, for providers that call the model
+// themselves; their checkImage runs them with runImageCheck (imageCheck.ts)
+export interface ImageModelCalls {
+    classifyImage(base64Image: string, mimeType: string, options?: ProviderCallOptions): Promise<unknown>;
+    analyzeImage(base64Image: string, mimeType: string, options?: ProviderCallOptions): Promise<unknown>;
+}
+
+// Everything the app asks of a model backend. The pages never talk to a provider
+// directly; they go through the functions exported from geminiService.ts.
+// Analysis results are returned unvalidated: geminiService.ts checks them
+// against the result types before handing them to the UI.
+export interface DetectionProvider {
+    readonly id: DetectionProviderId;
+    readonly modelId: string;
+    checkImage(base64Image: string, mimeType: string, options?: ProviderCallOptions): Promise<ImageCheck>;
+    analyzeVoice(base64Audio: string, mimeType: string, options?: ProviderCallOptions): Promise<unknown>;
+    analyzeCall(base64Audio: string, mimeType: string, options?: ProviderCallOptions): Promise<unknown>;
+    analyzeArticle(content: string, options?: ProviderCallOptions): Promise<unknown>;
+    streamArticleAnalysis(content: string, options?: ProviderCallOptions): AsyncIterable<ArticleStreamEvent>;
+    generateAwarenessTemplate(prompt: string, options?: ProviderCallOptions): Promise<unknown>;
+    analyzeSms(content: string, senderType: string, options?: ProviderCallOptions): Promise<unknown>;
+    getTrendingTopics(options?: ProviderCallOptions): Promise<unknown>;
+    createChatSession(kind: ChatKind, history?: ChatTurn[], language?: LanguageCode): ChatSession;
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createUsageMeter, DEFAULT_DAILY_QUOTAS, nextQuotaReset, parseQuotaConfig, UsageRecord, UsageStore, usageDay } from './quotas';
+
+const memoryStore = (): UsageStore & { records: Record<string, UsageRecord> } => {
+  const records: Record<string, UsageRecord> = {};
+  return { records, load: userId => records[userId], save: (userId, record) => { records[userId] = record; } };
+};
+
+describe('parseQuotaConfig', () => {
+  it('overrides the defaults it names', () => {
+    const quotas = parseQuotaConfig(' image=5, voice=none ,');
+    expect(quotas).toEqual({ ...DEFAULT_DAILY_QUOTAS, image: 5, voice: null });
+  });
+
+  it('ignores unknown tools and invalid values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(parseQuotaConfig('video=3,sms=-1,chat=lots')).toEqual(DEFAULT_DAILY_QUOTAS);
+      expect(warn).toHaveBeenCalledTimes(3);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
+
+describe('createUsageMeter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T23:59:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts each user and tool against its limit', () => {
+    const meter = createUsageMeter(memoryStore(), { ...DEFAULT_DAILY_QUOTAS, image: 2 });
+    meter.record('asha@example.com', 'image');
+    expect(meter.getUsage('asha@example.com', 'image')).toEqual({ tool: 'image', used: 1, limit: 2, remaining: 1 });
+    meter.record('asha@example.com', 'image');
+    expect(meter.isExhausted('asha@example.com', 'image')).toBe(true);
+    expect(meter.isExhausted('ravi@example.com', 'image')).toBe(false);
+    expect(meter.isExhausted('asha@example.com', 'sms')).toBe(false);
+  });
+
+  it('never runs out of an unlimited tool', () => {
+    const meter = createUsageMeter(memoryStore(), DEFAULT_DAILY_QUOTAS);
+    for (let i = 0; i < 3; i++) meter.record('asha@example.com', 'trending');
+    expect(meter.getUsage('asha@example.com', 'trending')).toEqual({ tool: 'trending', used: 3, limit: null, remaining: null });
+    expect(meter.isExhausted('asha@example.com', 'trending')).toBe(false);
+  });
+
+  it('starts from zero on the next UTC day', () => {
+    const store = memoryStore();
+    const meter = createUsageMeter(store, { ...DEFAULT_DAILY_QUOTAS, image: 1 });
+    meter.record('asha@example.com', 'image');
+    meter.record('asha@example.com', 'sms');
+    expect(meter.isExhausted('asha@example.com', 'image')).toBe(true);
+
+    vi.setSystemTime(nextQuotaReset());
+    expect(usageDay()).toBe('2026-10-20');
+    expect(meter.isExhausted('asha@example.com', 'image')).toBe(false);
+    meter.record('asha@example.com', 'image');
+    // Yesterday's counts are dropped, not carried over
+    expect(store.records['asha@example.com']).toEqual({ day: '2026-10-20', counts: { image: 1 } });
+  });
+
+  it('gives back a released analysis without going below zero', () => {
+    const meter = createUsageMeter(memoryStore(), { ...DEFAULT_DAILY_QUOTAS, image: 1 });
+    meter.record('asha@example.com', 'image');
+    meter.release('asha@example.com', 'image');
+    expect(meter.getUsage('asha@example.com', 'image').used).toBe(0);
+    meter.release('asha@example.com', 'image');
+    expect(meter.getUsage('asha@example.com', 'image').used).toBe(0);
+  });
+
+  it('marks a tool used up when the server says so', () => {
+    const meter = createUsageMeter(memoryStore(), { ...DEFAULT_DAILY_QUOTAS, sms: 5 });
+    meter.record('asha@example.com', 'sms');
+    meter.markExhausted('asha@example.com', 'sms');
+    expect(meter.getUsage('asha@example.com', 'sms')).toMatchObject({ used: 5, remaining: 0 });
+    meter.markExhausted('asha@example.com', 'trending');
+    expect(meter.getUsage('asha@example.com', 'trending').used).toBe(0);
+  });
+});
@@ -0,0 +1,103 @@
+import { AnalysisTool, ToolUsage } from "../types";
+
+// Daily analysis allowance per user and tool; null means unlimited. Audio analyses
+// cost the most, so they get the smallest allowance. Override any of them with
+// USAGE_QUOTAS, e.g. USAGE_QUOTAS="image=10,voice=5,trending=none".
+export const DEFAULT_DAILY_QUOTAS: Record<AnalysisTool, number | null> = {
+  image: 20,
+  aivoice: 10,
+  voice: 10,
+  article: 30,
+  sms: 50,
+  template: 20,
+  trending: null,
+  chat: 100,
+};
+
+export const USAGE_LABELS: Record<AnalysisTool, string> = {
+  image: 'image analyses',
+  aivoice: 'AI voice checks',
+  voice: 'call analyses',
+  article: 'article analyses',
+  sms: 'SMS checks',
+  template: 'template generations',
+  trending: 'trending topic refreshes',
+  chat: 'chat messages',
+};
+
+export const parseQuotaConfig = (config: string | undefined): Record<AnalysisTool, number | null> => {
+  const quotas = { ...DEFAULT_DAILY_QUOTAS };
+  for (const entry of (config ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const [tool, value = ''] = entry.split('=').map(part => part.trim());
+    if (!(tool in quotas)) {
+      console.warn(`Ignoring quota for unknown tool "${tool}"`);
+      continue;
+    }
+    if (value === 'none') {
+      quotas[tool as AnalysisTool] = null;
+    } else if (/^\d+$/.test(value)) {
+      quotas[tool as AnalysisTool] = Number(value);
+    } else {
+      console.warn(`Ignoring invalid quota "${entry}"`);
+    }
+  }
+  return quotas;
+};
+
+// Usage is counted per UTC day so the browser and the server agree on when it resets
+export const usageDay = (date = new Date()) => date.toISOString().slice(0, 10);
+
+export const nextQuotaReset = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+
+export interface UsageRecord {
+  day: string;
+  counts: Partial<Record<AnalysisTool, number>>;
+}
+
+export interface UsageStore {
+  load: (userId: string) => UsageRecord | undefined;
+  save: (userId: string, record: UsageRecord) => void;
+}
+
+export type UsageMeter = ReturnType<typeof createUsageMeter>;
+
+// Counts analyses per user and tool for the current day on top of a store, which
+// is localStorage in the browser and a JSON file (or memory) on the server.
+export const createUsageMeter = (store: UsageStore, quotas: Record<AnalysisTool, number | null>) => {
+  const todaysCounts = (userId: string): UsageRecord['counts'] => {
+    const record = store.load(userId);
+    return record?.day === usageDay() ? record.counts : {};
+  };
+
+  const getUsage = (userId: string, tool: AnalysisTool): ToolUsage => {
+    const used = todaysCounts(userId)[tool] ?? 0;
+    const limit = quotas[tool];
+    return { tool, used, limit, remaining: limit === null ? null : Math.max(limit - used, 0) };
+  };
+
+  const setCount = (userId: string, tool: AnalysisTool, count: number) => {
+    store.save(userId, { day: usageDay(), counts: { ...todaysCounts(userId), [tool]: count } });
+  };
+
+  return {
+    getUsage,
+    getAllUsage: (userId: string): ToolUsage[] =>
+      (Object.keys(quotas) as AnalysisTool[]).map(tool => getUsage(userId, tool)),
+    isExhausted: (userId: string, tool: AnalysisTool) => getUsage(userId, tool).remaining === 0,
+    record: (userId: string, tool: AnalysisTool) => {
+      setCount(userId, tool, getUsage(userId, tool).used + 1);
+    },
+    // Gives back an analysis that was counted but never ran
+    release: (userId: string, tool: AnalysisTool) => {
+      const { used } = getUsage(userId, tool);
+      if (used > 0) setCount(userId, tool, used - 1);
+    },
+    // Used when the server reports a quota the local count had not caught up with
+    markExhausted: (userId: string, tool: AnalysisTool) => {
+      const { used, limit } = getUsage(userId, tool);
+      if (limit !== null) setCount(userId, tool, Math.max(used, limit));
+    },
+  };
+};
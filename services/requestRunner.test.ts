@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiRequestError, RequestCancelledError, RequestTimeoutError, ResponseValidationError } from './errors';
+import { runRequest } from './requestRunner';
+
+// A task that never settles on its own, like a model call that hangs
+const hang = () => new Promise<never>(() => {});
+
+describe('runRequest', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // No jitter, so the backoff delays are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('times out an attempt and aborts its signal', async () => {
+    let signal: AbortSignal | null = null;
+    const request = runRequest(taskSignal => {
+      signal = taskSignal;
+      return hang();
+    }, { timeoutMs: 1_000, retries: 0 });
+    const failure = expect(request).rejects.toThrow(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await failure;
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('retries transient failures with doubling delays', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new ApiRequestError(503, 'Unavailable'))
+      .mockRejectedValueOnce(new ApiRequestError(429, 'Slow down'))
+      .mockResolvedValueOnce('done');
+    const request = runRequest(task, { retries: 2, baseDelayMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(request).resolves.toBe('done');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a timed out attempt and gives up after the last retry', async () => {
+    const task = vi.fn(hang);
+    const request = runRequest(task, { timeoutMs: 1_000, retries: 1, baseDelayMs: 100 });
+    const failure = expect(request).rejects.toThrow(RequestTimeoutError);
+    await vi.advanceTimersByTimeAsync(1_000 + 100 + 1_000);
+    await failure;
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    for (const error of [
+      new ApiRequestError(400, 'Bad request'),
+      new ApiRequestError(401, 'Unauthorized'),
+      new ApiRequestError(404, 'Not found'),
+      new ResponseValidationError('confidence', 'must be a number'),
+    ]) {
+      const task = vi.fn().mockRejectedValue(error);
+      await expect(runRequest(task, { retries: 2, baseDelayMs: 100 })).rejects.toBe(error);
+      expect(task).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('cancels the current attempt when the caller aborts', async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | null = null;
+    const request = runRequest(taskSignal => {
+      signal = taskSignal;
+      return hang();
+    }, { signal: controller.signal });
+    const failure = expect(request).rejects.toThrow(RequestCancelledError);
+    controller.abort();
+    await failure;
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('stops waiting to retry when the caller aborts during the backoff', async () => {
+    const controller = new AbortController();
+    const task = vi.fn().mockRejectedValue(new ApiRequestError(503, 'Unavailable'));
+    const request = runRequest(task, { retries: 2, baseDelayMs: 1_000, signal: controller.signal });
+    const failure = expect(request).rejects.toThrow(RequestCancelledError);
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await failure;
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const task = vi.fn();
+    await expect(runRequest(task, { signal: AbortSignal.abort() })).rejects.toThrow(RequestCancelledError);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import { RequestCancelledError, RequestTimeoutError } from "./errors";
+
+export interface RequestOptions {
+  // Time allowed for a single attempt
+  timeoutMs?: number;
+  // Additional attempts after the first one fails with a transient error
+  retries?: number;
+  // Delay before the first retry; doubled for every further retry
+  baseDelayMs?: number;
+  // Aborting this signal cancels the current attempt and any pending retries
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: Required<Omit<RequestOptions, 'signal'>> = {
+  timeoutMs: 60_000,
+  retries: 2,
+  baseDelayMs: 1_000,
+};
+
+const TRANSIENT_HTTP_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Timeouts, rate limiting, server hiccups and dropped connections are worth
+// retrying; bad requests, invalid output and cancellations are not.
+const isTransientError = (error: unknown): boolean => {
+  if (error instanceof RequestTimeoutError) return true;
+  if (error instanceof RequestCancelledError) return false;
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return TRANSIENT_HTTP_STATUSES.has(status);
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new RequestCancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own abort signal, which fires when the caller
+// cancels or the attempt runs out of time.
+const runAttempt = async <T,>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  // Not every SDK call stops promptly when aborted, so we also race the task
+  // against the abort signal instead of waiting for it to settle.
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => {
+      reject(timedOut ? new RequestTimeoutError(timeoutMs) : new RequestCancelledError());
+    }, { once: true });
+  });
+
+  try {
+    return await Promise.race([task(controller.signal), aborted]);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw timedOut ? new RequestTimeoutError(timeoutMs) : new RequestCancelledError();
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Shared runner for every model request: applies a per-attempt timeout, retries
+// transient failures with exponential backoff and honours cancellation.
+export const runRequest = async <T,>(task: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  const { timeoutMs, retries, baseDelayMs } = { ...DEFAULT_REQUEST_OPTIONS, ...options };
+  const { signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = baseDelayMs * 2 ** attempt;
+      console.warn(`Request failed (attempt ${attempt + 1} of ${retries + 1}), retrying in ${delay}ms:`, error);
+      await wait(delay + Math.random() * delay * 0.2, signal);
+    }
+  }
+};
@@ -0,0 +1,81 @@
+import { AnalysisEnvelope, AnalysisTool } from "../types";
+
+// Verdicts are cached in IndexedDB under a SHA-256 hash of everything that
+// influences them, so re-checking the same SMS, image or clip gives the same
+// answer without another model call. Where IndexedDB is unavailable (private
+// browsing, Node) the cache silently does nothing.
+
+const DB_NAME = 'codehustlers-cache';
+const STORE_NAME = 'analysis-results';
+const DB_VERSION = 1;
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface CacheRecord {
+  key: string;
+  tool: AnalysisTool;
+  storedAt: number;
+  envelope: AnalysisEnvelope<unknown>;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  dbPromise ??= new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Result cache unavailable:', request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+};
+
+const runTransaction = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return new Promise(resolve => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn('Result cache request failed:', request.error);
+      resolve(undefined);
+    };
+  });
+};
+
+// Hashes the parts that identify an analysis, e.g. payload, mime type and prompt version
+export const hashAnalysisInput = async (parts: string[]): Promise<string> => {
+  const bytes = new TextEncoder().encode(parts.join('\u0000'));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getCachedEnvelope = async <T,>(key: string, ttlMs = DEFAULT_CACHE_TTL_MS): Promise<AnalysisEnvelope<T> | null> => {
+  const record = await runTransaction<CacheRecord | undefined>('readonly', store => store.get(key));
+  if (!record) return null;
+  if (Date.now() - record.storedAt > ttlMs) {
+    await runTransaction('readwrite', store => store.delete(key));
+    return null;
+  }
+  return record.envelope as AnalysisEnvelope<T>;
+};
+
+// Only verdicts are worth keeping; failures should be retried, not replayed
+export const putCachedEnvelope = async (key: string, tool: AnalysisTool, envelope: AnalysisEnvelope<unknown>) => {
+  if (envelope.status !== 'ok') return;
+  const record: CacheRecord = { key, tool, storedAt: Date.now(), envelope };
+  await runTransaction('readwrite', store => store.put(record));
+};
+
+export const clearResultCache = async () => {
+  await runTransaction('readwrite', store => store.clear());
+};
@@ -0,0 +1,23 @@
+import { AnalysisTool, CheckResults, LastResult } from "../types";
+import { getUsageUser } from "./usageTracker";
+
+// Remembers the latest verdict of the signed-in user's checks so it can be read
+// back (e.g. by the voice assistant) without the page that produced it. Results
+// can quote private messages, so they are only kept in memory for this tab.
+
+const lastResults = new Map<string, LastResult>();
+
+const isCheckTool = (tool: AnalysisTool): tool is keyof CheckResults =>
+  tool === 'image' || tool === 'aivoice' || tool === 'voice' || tool === 'article' || tool === 'sms';
+
+export const recordLastResult = (tool: AnalysisTool, result: unknown, timestamp: string) => {
+  const userId = getUsageUser();
+  if (!userId || !isCheckTool(tool)) return;
+  // runAnalysis has validated result against the tool's result type
+  lastResults.set(userId, { tool, result, timestamp } as LastResult);
+};
+
+export const getLastResult = (): LastResult | null => {
+  const userId = getUsageUser();
+  return userId ? lastResults.get(userId) ?? null : null;
+};
@@ -0,0 +1,184 @@
+// Speech recognition and synthesis behind small interfaces, so the voice
+// conversation flow does not depend on the browser's Web Speech API and can be
+// driven by fakes.
+
+export interface RecognizerHandlers {
+  // Words heard so far in the current utterance; they may still change
+  onInterim: (transcript: string) => void;
+  // The finished utterance
+  onFinal: (transcript: string) => void;
+  // e.g. 'no-speech', 'not-allowed' or 'network'
+  onError: (error: string) => void;
+  // Listening stopped, after a final result, an error, stop() or abort()
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizer {
+  // Listens for one utterance in the given BCP 47 locale
+  start(locale: string, handlers: RecognizerHandlers): void;
+  // Stops listening and delivers what was heard
+  stop(): void;
+  // Stops listening and discards what was heard
+  abort(): void;
+}
+
+export interface SynthesizerHandlers {
+  onEnd: () => void;
+  onError: (error: string) => void;
+}
+
+// How to speak: a BCP 47 locale, optionally a particular voice, and the rate and
+// pitch as SpeechSynthesisUtterance takes them
+export interface SpeakingVoice {
+  locale: string;
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeechSynthesizer {
+  // Handlers are not called for speech that is cancelled
+  speak(text: string, voice: SpeakingVoice, handlers: SynthesizerHandlers): void;
+  cancel(): void;
+}
+
+// A voice the browser can speak with
+export interface VoiceOption {
+  voiceURI: string;
+  name: string;
+  lang: string;
+}
+
+// The parts of the Web Speech API used here; TypeScript's DOM library does not
+// declare speech recognition yet
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+  message: string;
+}
+
+interface SpeechRecognitionEvent extends Event {
+  resultIndex: number;
+  results: {
+    length: number;
+    [index: number]: {
+      [alternative: number]: {
+        transcript: string;
+        confidence: number;
+      };
+      isFinal: boolean;
+    };
+  };
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  start(): void;
+  stop(): void;
+  abort(): void;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+}
+
+declare global {
+  interface Window {
+    webkitSpeechRecognition?: new () => SpeechRecognition;
+    SpeechRecognition?: new () => SpeechRecognition;
+  }
+}
+
+// Null where the browser has no speech recognition (e.g. Firefox)
+export const createBrowserRecognizer = (): SpeechRecognizer | null => {
+  const Recognition = typeof window === 'undefined' ? undefined : window.SpeechRecognition ?? window.webkitSpeechRecognition;
+  if (!Recognition) return null;
+  let current: SpeechRecognition | null = null;
+
+  return {
+    start: (locale, handlers) => {
+      const recognition = new Recognition();
+      // A recognition that has been replaced by a newer one reports nothing more
+      const isCurrent = () => current === recognition;
+      recognition.continuous = false;
+      recognition.interimResults = true;
+      recognition.lang = locale;
+      recognition.onresult = (event) => {
+        if (!isCurrent()) return;
+        let interim = '';
+        for (let index = event.resultIndex; index < event.results.length; index++) {
+          const result = event.results[index];
+          if (result.isFinal) {
+            handlers.onFinal(result[0].transcript.trim());
+          } else {
+            interim += result[0].transcript;
+          }
+        }
+        if (interim.trim()) handlers.onInterim(interim.trim());
+      };
+      recognition.onerror = (event) => {
+        if (isCurrent()) handlers.onError(event.error);
+      };
+      recognition.onend = () => {
+        if (!isCurrent()) return;
+        current = null;
+        handlers.onEnd();
+      };
+      const previous = current;
+      current = recognition;
+      previous?.abort();
+      recognition.start();
+    },
+    stop: () => current?.stop(),
+    abort: () => current?.abort(),
+  };
+};
+
+export const createBrowserSynthesizer = (): SpeechSynthesizer | null => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) return null;
+  let current: SpeechSynthesisUtterance | null = null;
+
+  return {
+    speak: (text, { locale, voiceURI, rate, pitch }, handlers) => {
+      // Speech is queued otherwise, and anything still playing is out of date
+      current = null;
+      window.speechSynthesis.cancel();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = locale;
+      // A voice that is no longer installed falls back to the default for the locale
+      utterance.voice = window.speechSynthesis.getVoices().find(voice => voice.voiceURI === voiceURI) ?? null;
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+      utterance.onend = () => {
+        if (current !== utterance) return;
+        current = null;
+        handlers.onEnd();
+      };
+      utterance.onerror = (event) => {
+        // cancel() reports the utterance it cut off as 'interrupted' or 'canceled'
+        if (current !== utterance) return;
+        current = null;
+        handlers.onError(event.error);
+      };
+      current = utterance;
+      window.speechSynthesis.speak(utterance);
+    },
+    cancel: () => {
+      current = null;
+      window.speechSynthesis.cancel();
+    },
+  };
+};
+
+// Reports the installed voices now and whenever they change. Chrome loads them
+// after the page, so the first list is often empty. Returns an unsubscribe function.
+export const watchBrowserVoices = (onChange: (voices: VoiceOption[]) => void): (() => void) => {
+  if (typeof window === 'undefined' || !window.speechSynthesis) {
+    onChange([]);
+    return () => {};
+  }
+  const report = () => onChange(window.speechSynthesis.getVoices().map(({ voiceURI, name, lang }) => ({ voiceURI, name, lang })));
+  report();
+  window.speechSynthesis.addEventListener('voiceschanged', report);
+  return () => window.speechSynthesis.removeEventListener('voiceschanged', report);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createTaskQueue } from './taskQueue';
+
+// A task that runs until it is released, recording when it starts
+const controlled = (log: string[], id: string) => {
+  let release = () => {};
+  let signal: AbortSignal | null = null;
+  const task = (taskSignal: AbortSignal) => {
+    signal = taskSignal;
+    log.push(id);
+    return new Promise<void>(resolve => { release = resolve; });
+  };
+  return { task, release: () => release(), signal: () => signal };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createTaskQueue', () => {
+  it('runs a few tasks at a time, in order', async () => {
+    const queue = createTaskQueue(2);
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map(id => controlled(log, id));
+    tasks.forEach((task, index) => queue.add(String(index), task.task));
+    expect(log).toEqual(['a', 'b']);
+    tasks[1].release();
+    await settle();
+    expect(log).toEqual(['a', 'b', 'c']);
+    tasks[0].release();
+    await settle();
+    expect(log).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('aborts a running task and never starts a waiting one', async () => {
+    const queue = createTaskQueue(1);
+    const log: string[] = [];
+    const running = controlled(log, 'running');
+    const waiting = controlled(log, 'waiting');
+    const last = controlled(log, 'last');
+    queue.add('running', running.task);
+    queue.add('waiting', waiting.task);
+    queue.add('last', last.task);
+    queue.cancel('waiting');
+    queue.cancel('running');
+    expect(running.signal()?.aborted).toBe(true);
+    expect(log).toEqual(['running', 'last']);
+  });
+
+  it('cancels the previous task when an id is added again', () => {
+    const queue = createTaskQueue(2);
+    const log: string[] = [];
+    const first = controlled(log, 'first');
+    const second = controlled(log, 'second');
+    queue.add('same', first.task);
+    queue.add('same', second.task);
+    expect(first.signal()?.aborted).toBe(true);
+    expect(second.signal()?.aborted).toBe(false);
+  });
+
+  it('cancels everything at once', () => {
+    const queue = createTaskQueue(1);
+    const log: string[] = [];
+    const running = controlled(log, 'running');
+    queue.add('running', running.task);
+    queue.add('waiting', controlled(log, 'waiting').task);
+    queue.cancelAll();
+    expect(running.signal()?.aborted).toBe(true);
+    expect(log).toEqual(['running']);
+  });
+
+  it('keeps going after a task fails', async () => {
+    const queue = createTaskQueue(1);
+    const log: string[] = [];
+    const error = console.error;
+    console.error = () => {};
+    try {
+      queue.add('failing', async () => { throw new Error('boom'); });
+      queue.add('next', async () => { log.push('next'); });
+      await settle();
+    } finally {
+      console.error = error;
+    }
+    expect(log).toEqual(['next']);
+  });
+});
@@ -0,0 +1,55 @@
+// Runs tasks a few at a time, in the order they were added. Each task gets a
+// signal that is aborted when it is cancelled, whether it is running or still
+// waiting its turn (a waiting task is then never started).
+
+export type QueuedTask = (signal: AbortSignal) => Promise<void>;
+
+export interface TaskQueue {
+  // Adds a task under an id; a task already queued or running under it is cancelled
+  add(id: string, task: QueuedTask): void;
+  cancel(id: string): void;
+  cancelAll(): void;
+}
+
+export const createTaskQueue = (concurrency: number): TaskQueue => {
+  const waiting: { id: string; task: QueuedTask; controller: AbortController }[] = [];
+  const running = new Map<string, AbortController>();
+
+  const next = () => {
+    while (running.size < concurrency && waiting.length > 0) {
+      const { id, task, controller } = waiting.shift()!;
+      running.set(id, controller);
+      task(controller.signal)
+        .catch(error => console.error(`Queued task ${id} failed:`, error))
+        .finally(() => {
+          // A task added again under the same id has replaced this one
+          if (running.get(id) === controller) running.delete(id);
+          next();
+        });
+    }
+  };
+
+  const cancel = (id: string) => {
+    const index = waiting.findIndex(item => item.id === id);
+    if (index >= 0) waiting.splice(index, 1)[0].controller.abort();
+    running.get(id)?.abort();
+    running.delete(id);
+  };
+
+  return {
+    add: (id, task) => {
+      cancel(id);
+      waiting.push({ id, task, controller: new AbortController() });
+      next();
+    },
+    cancel: (id) => {
+      cancel(id);
+      next();
+    },
+    cancelAll: () => {
+      waiting.splice(0).forEach(item => item.controller.abort());
+      running.forEach(controller => controller.abort());
+      running.clear();
+    },
+  };
+};
@@ -0,0 +1,82 @@
+import { AnalysisTool, ToolUsage } from "../types";
+import { createUsageMeter, parseQuotaConfig, UsageRecord, UsageStore } from "./quotas";
+
+// Meters the signed-in user's analyses in the browser so pages can show what is
+// left and stop before calling the model. This count is only a convenience:
+// clearing localStorage resets it. What holds is the server's own count, per
+// user and per address (see server/usage.ts).
+
+const STORAGE_KEY = 'codehustlers-usage';
+
+// Falls back to memory where localStorage is unavailable (Node, some private modes)
+const memoryRecords: Record<string, UsageRecord> = {};
+
+const readRecords = (): Record<string, UsageRecord> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, UsageRecord>;
+  } catch {
+    return memoryRecords;
+  }
+};
+
+const browserStore: UsageStore = {
+  load: userId => readRecords()[userId],
+  save: (userId, record) => {
+    const records = { ...readRecords(), [userId]: record };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+    } catch {
+      memoryRecords[userId] = record;
+    }
+  },
+};
+
+const meter = createUsageMeter(browserStore, parseQuotaConfig(process.env.USAGE_QUOTAS));
+
+// Only signed-in users are metered; scripts and the signed-out app are not
+let activeUserId: string | null = null;
+let version = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  version++;
+  listeners.forEach(listener => listener());
+};
+
+export const setUsageUser = (userId: string | null) => {
+  activeUserId = userId;
+  notify();
+};
+
+export const getUsageUser = () => activeUserId;
+
+export const getToolUsage = (tool: AnalysisTool): ToolUsage | null =>
+  activeUserId ? meter.getUsage(activeUserId, tool) : null;
+
+export const getAllToolUsage = (): ToolUsage[] =>
+  activeUserId ? meter.getAllUsage(activeUserId) : [];
+
+export const isQuotaReached = (tool: AnalysisTool) =>
+  activeUserId !== null && meter.isExhausted(activeUserId, tool);
+
+export const recordUsage = (tool: AnalysisTool) => {
+  if (!activeUserId) return;
+  meter.record(activeUserId, tool);
+  notify();
+};
+
+export const markQuotaReached = (tool: AnalysisTool) => {
+  if (!activeUserId) return;
+  meter.markExhausted(activeUserId, tool);
+  notify();
+};
+
+// For useSyncExternalStore: the version changes whenever any usage does
+export const subscribeToUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUsageVersion = () => version;
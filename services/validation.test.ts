@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+import { ResponseValidationError } from './errors';
+import {
+  isImageType,
+  parseModelJson,
+  readPartialArticleAnalysis,
+  validateArticleAnalysisResult,
+  validateImageClassification,
+  validateImageDetectionResult,
+  validateTrendingTopics,
+} from './validation';
+
+const finding = (overrides: Record<string, unknown> = {}) => ({
+  category: 'hands',
+  severity: 'high',
+  box: [100, 200, 300, 400],
+  description: 'Six fingers on the left hand',
+  ...overrides,
+});
+
+describe('parseModelJson', () => {
+  it('strips a markdown fence', () => {
+    expect(parseModelJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseModelJson('```\n[1, 2]\n```')).toEqual([1, 2]);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseModelJson('The image looks real.')).toThrow(ResponseValidationError);
+    expect(() => parseModelJson(undefined)).toThrow(ResponseValidationError);
+  });
+});
+
+describe('validateImageDetectionResult', () => {
+  it('normalizes labels and scores', () => {
+    const result = validateImageDetectionResult({
+      classification: 'ai_generated',
+      confidence: '85%',
+      explanation: '  Smooth skin and warped text.  ',
+    });
+    expect(result).toEqual({
+      classification: 'AI-generated',
+      confidence: 85,
+      explanation: 'Smooth skin and warped text.',
+      findings: [],
+    });
+    expect(validateImageDetectionResult({ classification: 'real', confidence: 0.42, explanation: 'x' }).confidence).toBe(42);
+  });
+
+  it('rejects unknown classifications and out-of-range scores', () => {
+    expect(() => validateImageDetectionResult({ classification: 'maybe', confidence: 50, explanation: 'x' }))
+      .toThrow(/'classification' must be one of/);
+    expect(() => validateImageDetectionResult({ classification: 'Authentic', confidence: 150, explanation: 'x' }))
+      .toThrow(/'confidence' must be between 0 and 100/);
+    expect(() => validateImageDetectionResult({ classification: 'Authentic', confidence: 50, explanation: ' ' }))
+      .toThrow(/'explanation' must be a non-empty string/);
+    expect(() => validateImageDetectionResult(['Authentic'])).toThrow(/'response' must be an object/);
+  });
+
+  it('reads finding boxes on a 0-1000 scale', () => {
+    const [middle, corner] = validateImageDetectionResult({
+      classification: 'AI-generated',
+      confidence: 90,
+      explanation: 'x',
+      findings: [finding(), finding({ box: [0, 0, 1, 1], severity: 'minor', category: 'shadows', excerpt: 'SALE' })],
+    }).findings;
+    expect(middle.box.x).toBeCloseTo(0.2);
+    expect(middle.box.y).toBeCloseTo(0.1);
+    expect(middle.box.width).toBeCloseTo(0.2);
+    expect(middle.box.height).toBeCloseTo(0.2);
+    expect(middle.excerpt).toBeNull();
+    // A tiny box in the corner, not the middle image
+    expect(corner).toMatchObject({ category: 'lighting', severity: 'low', excerpt: 'SALE' });
+    expect(corner.box).toEqual({ x: 0, y: 0, width: 0.001, height: 0.001 });
+  });
+
+  it('clamps box edges to the image', () => {
+    const [{ box }] = validateImageDetectionResult({
+      classification: 'AI-generated',
+      confidence: 90,
+      explanation: 'x',
+      findings: [finding({ box: [-50, 900, 500, 1200] })],
+    }).findings;
+    expect(box).toMatchObject({ y: 0, height: 0.5 });
+    expect(box.x + box.width).toBe(1);
+  });
+
+  it('skips unreadable findings and keeps the verdict', () => {
+    const result = validateImageDetectionResult({
+      classification: 'AI-generated',
+      confidence: 90,
+      explanation: 'x',
+      findings: [finding({ box: [300, 400, 100, 200] }), finding({ category: 'colour' }), 'hands', finding()],
+    });
+    expect(result.classification).toBe('AI-generated');
+    expect(result.findings).toHaveLength(1);
+    expect(validateImageDetectionResult({ classification: 'Authentic', confidence: 10, explanation: 'x', findings: 'none' }).findings).toEqual([]);
+  });
+});
+
+describe('validateImageClassification', () => {
+  it('reads the detected type and reason', () => {
+    expect(validateImageClassification({ imageType: 'Selfie', reason: ' One face fills the frame. ' })).toEqual({
+      type: 'portrait',
+      source: 'detected',
+      reason: 'One face fills the frame.',
+    });
+    expect(validateImageClassification({ imageType: 'screen shot' }).reason).toBeNull();
+    expect(() => validateImageClassification({ imageType: 'meme' })).toThrow(ResponseValidationError);
+  });
+
+  it('tells image types apart from other strings', () => {
+    expect(isImageType('document')).toBe(true);
+    expect(isImageType('toString')).toBe(false);
+    expect(isImageType(null)).toBe(false);
+  });
+});
+
+describe('validateArticleAnalysisResult', () => {
+  const article = {
+    riskLevel: 'high risk',
+    credibilityScore: 20,
+    tags: ['health', ' ', 5],
+    summary: 'Claims a cure.',
+    claims: [{
+      claim: 'Lemon water cures diabetes',
+      verdict: 'false',
+      confidence: 95,
+      verification: 'No study supports this.',
+      sources: [{ url: 'https://example.org/study', title: '' }],
+    }],
+  };
+
+  it('normalizes the result and its claims', () => {
+    const result = validateArticleAnalysisResult(article);
+    expect(result.riskLevel).toBe('High');
+    expect(result.tags).toEqual(['health', '5']);
+    expect(result.claims[0]).toEqual({
+      claim: 'Lemon water cures diabetes',
+      verdict: 'refuted',
+      confidence: 95,
+      verification: 'No study supports this.',
+      sources: [{ url: 'https://example.org/study', title: 'https://example.org/study' }],
+    });
+  });
+
+  it('accepts claims without a verdict, as article-factcheck@1 writes them', () => {
+    const claim = validateArticleAnalysisResult({ ...article, claims: [{ claim: 'A', verification: 'B' }] }).claims[0];
+    expect(claim).toEqual({ claim: 'A', verdict: undefined, confidence: undefined, verification: 'B', sources: [] });
+  });
+
+  it('rejects sources that are not web pages', () => {
+    const claims = [{ ...article.claims[0], sources: [{ url: 'javascript:alert(1)' }] }];
+    expect(() => validateArticleAnalysisResult({ ...article, claims })).toThrow(/'sources\[0\]\.url' must be an http\(s\) URL/);
+  });
+});
+
+describe('readPartialArticleAnalysis', () => {
+  it('keeps what is complete and never throws', () => {
+    expect(readPartialArticleAnalysis(undefined)).toEqual({ summary: undefined, tags: [], claims: [] });
+    expect(readPartialArticleAnalysis({
+      summary: ' Half ',
+      tags: ['a', 1],
+      claims: [{ claim: 'Done', verification: 'Checked' }, { claim: 'Still streaming' }],
+    })).toEqual({
+      summary: 'Half',
+      tags: ['a'],
+      claims: [{ claim: 'Done', verdict: undefined, confidence: undefined, verification: 'Checked', sources: [] }],
+    });
+  });
+});
+
+describe('validateTrendingTopics', () => {
+  it('reads topics with optional summaries and dates', () => {
+    const [topic] = validateTrendingTopics([{ topic: 'Fake toll SMS', firstSeen: 'unknown', risk: 'moderate', score: '70' }]);
+    expect(topic).toEqual({ topic: 'Fake toll SMS', summary: undefined, firstSeen: null, risk: 'Medium', score: 70, sources: [] });
+    expect(validateTrendingTopics([{ topic: 'A', summary: 'B', firstSeen: '2025-05-03T10:00:00Z', risk: 'Low', score: 5 }])[0].firstSeen)
+      .toBe('2025-05-03');
+  });
+
+  it('reads firstSeen as a calendar date or null', () => {
+    const firstSeen = (value: unknown) =>
+      validateTrendingTopics([{ topic: 'A', risk: 'Low', score: 5, firstSeen: value }])[0].firstSeen;
+    expect(firstSeen(undefined)).toBeNull();
+    expect(firstSeen(null)).toBeNull();
+    expect(firstSeen('  ')).toBeNull();
+    expect(firstSeen('N/A')).toBeNull();
+    expect(firstSeen(' 2025-05-03 ')).toBe('2025-05-03');
+    expect(firstSeen('2025-05-03T23:30:00-05:00')).toBe('2025-05-03');
+    expect(firstSeen('May 3, 2025')).toBe('2025-05-03');
+    expect(validateTrendingTopics([{ topic: 'A', risk: 'Low', score: 5 }])[0].firstSeen).toBeNull();
+  });
+
+  it('rejects a firstSeen that is not a date', () => {
+    const withFirstSeen = (value: unknown) => () =>
+      validateTrendingTopics([{ topic: 'A', risk: 'Low', score: 5, firstSeen: value }]);
+    expect(withFirstSeen('last week')).toThrow(/'firstSeen' must be a date/);
+    expect(withFirstSeen(20250503)).toThrow(/'firstSeen' must be a date/);
+    expect(withFirstSeen({ date: '2025-05-03' })).toThrow(/'firstSeen' must be a date/);
+  });
+
+  it('names the topic that failed', () => {
+    expect(() => validateTrendingTopics({})).toThrow(/'topics' must be an array/);
+    expect(() => validateTrendingTopics([{ topic: 'A', risk: 'Low', score: 5, firstSeen: 'soon' }])).toThrow(/'firstSeen'/);
+    expect(() => validateTrendingTopics(['A'])).toThrow(/'topics\[0\]' must be an object/);
+  });
+});
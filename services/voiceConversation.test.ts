@@ -0,0 +1,258 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ChatTurn, VoiceReply } from '../types';
+import { RecognizerHandlers, SpeakingVoice, SpeechRecognizer, SpeechSynthesizer, SynthesizerHandlers } from './speech';
+import { createVoiceConversation, VoiceConversationState } from './voiceConversation';
+
+const VOICE: SpeakingVoice = { locale: 'en-IN', voiceURI: null, rate: 1, pitch: 1 };
+
+// A recognizer driven by the test: hear() and say() deliver interim and final
+// results, and the browser's end event is sent with finish()
+const fakeRecognizer = () => {
+  let handlers: RecognizerHandlers | null = null;
+  const recognizer = {
+    starts: [] as string[],
+    stops: 0,
+    aborts: 0,
+    listening: () => handlers !== null,
+    hear: (transcript: string) => handlers?.onInterim(transcript),
+    say: (transcript: string) => handlers?.onFinal(transcript),
+    fail: (error: string) => handlers?.onError(error),
+    finish: () => {
+      const current = handlers;
+      handlers = null;
+      current?.onEnd();
+    },
+    start: (locale: string, next: RecognizerHandlers) => {
+      recognizer.starts.push(locale);
+      handlers = next;
+    },
+    stop: () => {
+      recognizer.stops++;
+    },
+    abort: () => {
+      recognizer.aborts++;
+      handlers = null;
+    },
+  };
+  return recognizer satisfies SpeechRecognizer;
+};
+
+// A synthesizer that speaks until the test finishes or fails the speech
+const fakeSynthesizer = () => {
+  let handlers: SynthesizerHandlers | null = null;
+  const synthesizer = {
+    spoken: [] as string[],
+    cancels: 0,
+    speaking: () => handlers !== null,
+    finish: () => {
+      const current = handlers;
+      handlers = null;
+      current?.onEnd();
+    },
+    fail: (error: string) => {
+      const current = handlers;
+      handlers = null;
+      current?.onError(error);
+    },
+    speak: (text: string, _voice: SpeakingVoice, next: SynthesizerHandlers) => {
+      synthesizer.spoken.push(text);
+      handlers = next;
+    },
+    cancel: () => {
+      synthesizer.cancels++;
+      handlers = null;
+    },
+  };
+  return synthesizer satisfies SpeechSynthesizer;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const setUp = ({ keepListening = true, respond }: {
+  keepListening?: boolean;
+  respond?: (transcript: string, history: ChatTurn[], signal: AbortSignal) => Promise<VoiceReply>;
+} = {}) => {
+  const recognizer = fakeRecognizer();
+  const synthesizer = fakeSynthesizer();
+  const states: VoiceConversationState[] = [];
+  const histories: ChatTurn[][] = [];
+  const conversation = createVoiceConversation({
+    recognizer,
+    synthesizer,
+    respond: respond ?? (async (transcript, history) => {
+      histories.push(history);
+      const reply = `You said ${transcript}`;
+      return { text: reply, turns: [{ role: 'user', text: transcript }, { role: 'model', text: reply }] };
+    }),
+    voice: () => VOICE,
+    keepListening: () => keepListening,
+    onChange: state => states.push(state),
+  });
+  const status = () => states.at(-1)?.status;
+  return { recognizer, synthesizer, conversation, states, histories, status };
+};
+
+describe('createVoiceConversation', () => {
+  it('listens, answers, speaks and listens again with the dialogue so far', async () => {
+    const { recognizer, synthesizer, conversation, histories, status, states } = setUp();
+    conversation.start();
+    expect(status()).toBe('listening');
+    expect(recognizer.starts).toEqual(['en-IN']);
+
+    recognizer.hear('what is');
+    expect(states.at(-1)?.interimTranscript).toBe('what is');
+    recognizer.say('what is phishing');
+    expect(status()).toBe('thinking');
+    await settle();
+    expect(status()).toBe('speaking');
+    expect(synthesizer.spoken).toEqual(['You said what is phishing']);
+
+    recognizer.finish();
+    expect(recognizer.starts).toHaveLength(2);
+    synthesizer.finish();
+    expect(status()).toBe('listening');
+
+    recognizer.say('and smishing');
+    await settle();
+    expect(histories[1]).toEqual([
+      { role: 'user', text: 'what is phishing' },
+      { role: 'model', text: 'You said what is phishing' },
+    ]);
+  });
+
+  it('ends after each reply when it should not keep listening', async () => {
+    const { recognizer, synthesizer, conversation, status } = setUp({ keepListening: false });
+    conversation.start();
+    recognizer.say('hello');
+    await settle();
+    synthesizer.finish();
+    expect(status()).toBe('idle');
+    expect(recognizer.aborts).toBe(1);
+  });
+
+  it('lets the user talk over the reply', async () => {
+    const { recognizer, synthesizer, conversation, status, histories } = setUp();
+    conversation.start();
+    recognizer.say('tell me about fake loan apps');
+    await settle();
+    expect(synthesizer.speaking()).toBe(true);
+
+    recognizer.hear('wait stop');
+    expect(synthesizer.speaking()).toBe(false);
+    expect(status()).toBe('listening');
+    recognizer.say('wait stop what about upi');
+    await settle();
+    expect(histories).toHaveLength(2);
+    expect(synthesizer.spoken.at(-1)).toBe('You said wait stop what about upi');
+  });
+
+  it('ignores the reply picked up by the microphone', async () => {
+    const { recognizer, synthesizer, conversation, status, histories } = setUp();
+    conversation.start();
+    recognizer.say('hello');
+    await settle();
+
+    recognizer.hear('you said hello');
+    recognizer.say('You said hello');
+    expect(synthesizer.speaking()).toBe(true);
+    expect(status()).toBe('speaking');
+    expect(histories).toHaveLength(1);
+  });
+
+  it('cuts the reply short when the mic is tapped', async () => {
+    const { recognizer, synthesizer, conversation, status } = setUp();
+    conversation.start();
+    recognizer.say('hello');
+    await settle();
+    conversation.start();
+    expect(synthesizer.cancels).toBeGreaterThan(0);
+    expect(synthesizer.speaking()).toBe(false);
+    expect(status()).toBe('listening');
+  });
+
+  it('ends the utterance when the mic is tapped while listening', () => {
+    const { recognizer, conversation } = setUp();
+    conversation.start();
+    conversation.start();
+    expect(recognizer.stops).toBe(1);
+  });
+
+  it('drops a reply that arrives after stop', async () => {
+    let resolve: (reply: VoiceReply) => void = () => {};
+    let signal: AbortSignal | null = null;
+    const { recognizer, synthesizer, conversation, status } = setUp({
+      respond: (_transcript, _history, replySignal) => {
+        signal = replySignal;
+        return new Promise(next => { resolve = next; });
+      },
+    });
+    conversation.start();
+    recognizer.say('hello');
+    conversation.stop();
+    expect(signal!.aborted).toBe(true);
+    expect(status()).toBe('idle');
+    resolve({ text: 'Too late', turns: [] });
+    await settle();
+    expect(synthesizer.spoken).toEqual([]);
+    expect(status()).toBe('idle');
+  });
+
+  it('forgets the dialogue on reset', async () => {
+    const { recognizer, synthesizer, conversation, histories, states } = setUp();
+    conversation.start();
+    recognizer.say('first');
+    await settle();
+    conversation.reset();
+    expect(synthesizer.speaking()).toBe(false);
+    expect(states.at(-1)).toMatchObject({ status: 'idle', transcript: '', reply: '' });
+    conversation.start();
+    recognizer.say('second');
+    await settle();
+    expect(histories[1]).toEqual([]);
+  });
+
+  it('stops with a notice when recognition fails', () => {
+    const { recognizer, conversation, states } = setUp();
+    conversation.start();
+    recognizer.fail('not-allowed');
+    expect(states.at(-1)).toMatchObject({ status: 'idle', notice: expect.stringContaining('Microphone access is blocked') });
+
+    conversation.start();
+    recognizer.fail('something-new');
+    expect(states.at(-1)?.notice).toBe("Sorry, I couldn't understand. Please try again.");
+  });
+
+  it('stops when nothing was heard', () => {
+    const { recognizer, conversation, states } = setUp();
+    conversation.start();
+    recognizer.finish();
+    expect(states.at(-1)).toMatchObject({ status: 'idle', notice: expect.stringContaining("didn't hear anything") });
+  });
+
+  it('keeps speaking through recognition errors while the reply plays', async () => {
+    const { recognizer, synthesizer, conversation, status } = setUp();
+    conversation.start();
+    recognizer.say('hello');
+    await settle();
+    recognizer.fail('no-speech');
+    recognizer.finish();
+    expect(status()).toBe('speaking');
+    expect(recognizer.listening()).toBe(true);
+    synthesizer.finish();
+    expect(status()).toBe('listening');
+  });
+
+  it('listens again when the speech fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const { recognizer, synthesizer, conversation, status } = setUp();
+      conversation.start();
+      recognizer.say('hello');
+      await settle();
+      synthesizer.fail('synthesis-failed');
+      expect(status()).toBe('listening');
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
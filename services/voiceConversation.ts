@@ -0,0 +1,184 @@
+import { ChatTurn, VoiceReply } from "../types";
+import { SpeakingVoice, SpeechRecognizer, SpeechSynthesizer } from "./speech";
+
+// A spoken conversation: listen, answer, speak the answer, then listen again.
+// The dialogue so far is sent with every utterance so follow-up questions keep
+// their context. While a reply is spoken the microphone stays open, and the user
+// talking over it stops the speech and starts their next turn.
+
+export type VoiceConversationStatus = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export interface VoiceConversationState {
+  status: VoiceConversationStatus;
+  // What has been heard of the utterance in progress
+  interimTranscript: string;
+  // The user's last complete utterance
+  transcript: string;
+  reply: string;
+  // Why the conversation stopped by itself, e.g. nothing was heard
+  notice: string | null;
+}
+
+export interface VoiceConversationOptions {
+  recognizer: SpeechRecognizer;
+  synthesizer: SpeechSynthesizer;
+  respond: (transcript: string, history: ChatTurn[], signal: AbortSignal) => Promise<VoiceReply>;
+  // Read on every turn, so changed settings apply from the next one; the
+  // recognizer listens in the voice's locale
+  voice: () => SpeakingVoice;
+  // When false the conversation ends after each reply instead of listening again
+  keepListening: () => boolean;
+  onChange: (state: VoiceConversationState) => void;
+}
+
+export interface VoiceConversation {
+  // Starts listening. While listening it ends the utterance, and while a reply is
+  // spoken it cuts the reply short and listens.
+  start(): void;
+  // Ends the conversation; the dialogue is kept for the next start()
+  stop(): void;
+  // Ends the conversation and forgets the dialogue
+  reset(): void;
+}
+
+export const INITIAL_VOICE_STATE: VoiceConversationState = {
+  status: 'idle',
+  interimTranscript: '',
+  transcript: '',
+  reply: '',
+  notice: null,
+};
+
+const RECOGNITION_ERRORS: Record<string, string> = {
+  'no-speech': "I didn't hear anything. Tap the mic to talk again.",
+  'not-allowed': 'Microphone access is blocked. Allow it in your browser settings to talk to the assistant.',
+  'audio-capture': 'No microphone was found.',
+  network: 'Speech recognition needs an internet connection.',
+};
+
+// Below this share of words not found in the reply, what the microphone heard is
+// taken to be the reply itself coming out of the speakers
+const BARGE_IN_MIN_NEW_WORDS = 0.4;
+
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean);
+
+const isEcho = (heard: string, reply: string) => {
+  const heardWords = words(heard);
+  const replyWords = new Set(words(reply));
+  const newWords = heardWords.filter(word => !replyWords.has(word)).length;
+  return heardWords.length === 0 || newWords / heardWords.length < BARGE_IN_MIN_NEW_WORDS;
+};
+
+export const createVoiceConversation = (options: VoiceConversationOptions): VoiceConversation => {
+  const { recognizer, synthesizer } = options;
+  let state = INITIAL_VOICE_STATE;
+  let history: ChatTurn[] = [];
+  let active = false;
+  let recognizing = false;
+  let pendingReply: AbortController | null = null;
+
+  const update = (changes: Partial<VoiceConversationState>) => {
+    state = { ...state, ...changes };
+    options.onChange(state);
+  };
+
+  const end = (notice: string | null = null) => {
+    active = false;
+    pendingReply?.abort();
+    pendingReply = null;
+    recognizer.abort();
+    synthesizer.cancel();
+    update({ status: 'idle', interimTranscript: '', notice });
+  };
+
+  const listen = () => {
+    recognizing = true;
+    recognizer.start(options.voice().locale, {
+      onInterim: (transcript) => {
+        if (state.status === 'speaking') {
+          if (isEcho(transcript, state.reply)) return;
+          synthesizer.cancel();
+        }
+        update({ status: 'listening', interimTranscript: transcript });
+      },
+      onFinal: (transcript) => {
+        if (!transcript || (state.status === 'speaking' && isEcho(transcript, state.reply))) return;
+        synthesizer.cancel();
+        void answer(transcript);
+      },
+      onError: (error) => {
+        // Silence while the reply is spoken just means nobody interrupted
+        if (!active || error === 'aborted' || state.status === 'speaking') return;
+        end(RECOGNITION_ERRORS[error] ?? "Sorry, I couldn't understand. Please try again.");
+      },
+      onEnd: () => {
+        recognizing = false;
+        if (!active) return;
+        if (state.status === 'speaking') {
+          // Keep watching for the user talking over the reply until it is finished
+          listen();
+        } else if (state.status === 'listening') {
+          end(RECOGNITION_ERRORS['no-speech']);
+        }
+      },
+    });
+  };
+
+  const afterReply = () => {
+    if (!active) return;
+    if (!options.keepListening()) {
+      end();
+      return;
+    }
+    update({ status: 'listening', interimTranscript: '' });
+    if (!recognizing) listen();
+  };
+
+  const answer = async (transcript: string) => {
+    pendingReply?.abort();
+    const controller = new AbortController();
+    pendingReply = controller;
+    update({ status: 'thinking', transcript, interimTranscript: '', reply: '' });
+    const reply = await options.respond(transcript, history, controller.signal);
+    if (controller.signal.aborted || !active) return;
+    pendingReply = null;
+    history = [...history, ...reply.turns];
+    if (!reply.text) {
+      afterReply();
+      return;
+    }
+    update({ status: 'speaking', reply: reply.text });
+    synthesizer.speak(reply.text, options.voice(), {
+      onEnd: afterReply,
+      onError: (error) => {
+        console.error('Speech synthesis error:', error);
+        afterReply();
+      },
+    });
+    if (!recognizing) listen();
+  };
+
+  return {
+    start: () => {
+      if (!active) {
+        active = true;
+        update({ ...INITIAL_VOICE_STATE, status: 'listening' });
+        listen();
+      } else if (state.status === 'speaking') {
+        synthesizer.cancel();
+        update({ status: 'listening', interimTranscript: '' });
+        if (!recognizing) listen();
+      } else if (state.status === 'listening') {
+        recognizer.stop();
+      }
+    },
+    stop: () => {
+      if (active) end();
+    },
+    reset: () => {
+      if (active) end();
+      history = [];
+      update(INITIAL_VOICE_STATE);
+    },
+  };
+};
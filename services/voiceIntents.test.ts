@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LanguageCode, LastResult } from '../types';
+import { LANGUAGE_CODES } from './language';
+import { recordLastResult } from './resultHistory';
+import { setUsageUser } from './usageTracker';
+import { describeLastResult, matchVoiceIntent, runVoiceCommand } from './voiceIntents';
+import { VOICE_REPLIES } from './voiceReplies';
+
+vi.mock('./geminiService', () => ({
+  getVoiceConversationReply: vi.fn(async (text: string) => ({ text: `Model reply to ${text}`, turns: [] })),
+}));
+
+const destination = (transcript: string) => {
+  const intent = matchVoiceIntent(transcript);
+  return intent.type === 'navigate' ? intent.page : intent.type;
+};
+
+describe('matchVoiceIntent', () => {
+  it('opens a page for a verb followed by its target', () => {
+    expect(destination('Open the SMS checker')).toBe('dashboard/sms');
+    expect(destination('show me trending scams')).toBe('dashboard/trending');
+    expect(destination('please take me to my profile')).toBe('profile');
+    expect(destination('can you go back to the dashboard')).toBe('dashboard');
+    expect(destination('go home')).toBe('home');
+    expect(destination('open AI voice detection')).toBe('dashboard/aivoice');
+    expect(destination('open batch images')).toBe('dashboard/batch');
+  });
+
+  it('opens a page for a Hindi target followed by its verb', () => {
+    expect(destination('SMS kholo')).toBe('dashboard/sms');
+    expect(destination('mera profile dikhao')).toBe('profile');
+    expect(destination('SMS checker open karo')).toBe('dashboard/sms');
+    expect(destination('फोटो दिखाओ')).toBe('dashboard/image');
+    expect(destination('डैशबोर्ड पर ले चलो')).toBe('dashboard');
+  });
+
+  it('asks the model when the verb and target do not make a command', () => {
+    expect(destination('How do scammers use SMS?')).toBe('ask');
+    expect(destination('show me how scammers call people')).toBe('ask');
+    expect(destination('What does the SMS checker show?')).toBe('ask');
+    expect(destination('open')).toBe('ask');
+    expect(destination('switch to dark mode')).toBe('ask');
+    expect(destination('smsc open')).toBe('ask');
+  });
+
+  it('reads the last result when asked to', () => {
+    expect(matchVoiceIntent('Read my last result')).toEqual({ type: 'read-last-result' });
+    expect(matchVoiceIntent("What's my latest SMS check?")).toEqual({ type: 'read-last-result' });
+    expect(matchVoiceIntent('pichla result batao')).toEqual({ type: 'read-last-result' });
+    expect(matchVoiceIntent('पिछला नतीजा सुनाओ')).toEqual({ type: 'read-last-result' });
+  });
+
+  it('does not read the last result for questions that mention it', () => {
+    expect(matchVoiceIntent('check my last message').type).toBe('ask');
+    expect(matchVoiceIntent('is the last call report I got real').type).toBe('ask');
+    expect(matchVoiceIntent('tell me about the latest scam report').type).toBe('ask');
+  });
+});
+
+describe('describeLastResult', () => {
+  it('has every reply in every language', () => {
+    expect(Object.keys(VOICE_REPLIES).sort()).toEqual([...LANGUAGE_CODES].sort());
+  });
+
+  it('speaks the verdict in the given language', () => {
+    const last: LastResult = { tool: 'sms', result: { classification: 'fraud', explanation: 'It asks for your OTP.' }, timestamp: '' };
+    expect(describeLastResult(last)).toBe(
+      'Your last SMS check found signs of fraud. It asks for your OTP. If you have lost money, call the cybercrime helpline on 1930.',
+    );
+    expect(describeLastResult(last, 'hi')).toBe(`${VOICE_REPLIES.hi.smsFraud} It asks for your OTP. ${VOICE_REPLIES.hi.helpline}`);
+  });
+
+  it('names the article risk in the given language', () => {
+    const last: LastResult = {
+      tool: 'article',
+      result: { riskLevel: 'High', credibilityScore: 20, tags: [], summary: 'Unsourced claims.', claims: [] },
+      timestamp: '',
+    };
+    expect(describeLastResult(last)).toBe('Your last article check rated it high risk, with a credibility score of 20 out of 100. Unsourced claims.');
+    expect(describeLastResult(last, 'mr')).toContain('जास्त');
+  });
+});
+
+describe('runVoiceCommand', () => {
+  afterEach(() => {
+    setUsageUser(null);
+  });
+
+  const run = (transcript: string, language: LanguageCode = 'en') => {
+    const navigate = vi.fn();
+    return { navigate, reply: runVoiceCommand(transcript, { navigate }, [], { language }) };
+  };
+
+  it('navigates and answers in the response language', async () => {
+    const { navigate, reply } = run('SMS kholo', 'hi');
+    expect(navigate).toHaveBeenCalledWith('dashboard/sms');
+    expect((await reply).text).toBe('SMS fraud checker खोल रहे हैं।');
+  });
+
+  it('says there is nothing to read before the first check', async () => {
+    setUsageUser('asha@example.com');
+    expect((await run('read my last result', 'ta').reply).text).toBe(VOICE_REPLIES.ta.nothingChecked);
+  });
+
+  it('reads the last result back and keeps it in the dialogue', async () => {
+    setUsageUser('asha@example.com');
+    recordLastResult('image', { classification: 'Authentic', confidence: 80, explanation: 'Natural lighting.', findings: [] }, '');
+    const { text, turns } = await run('read my last result').reply;
+    expect(text).toBe('Your last image check rated the image Authentic, with 80 percent confidence. Natural lighting.');
+    expect(turns).toEqual([{ role: 'user', text: 'read my last result' }, { role: 'model', text }]);
+  });
+
+  it('asks the model anything else', async () => {
+    const { navigate, reply } = run('how do I report a scam call?');
+    expect((await reply).text).toBe('Model reply to how do I report a scam call?');
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import { ChatTurn, LanguageCode, LastResult, Page, VoiceReply } from "../types";
+import { getVoiceConversationReply, VoiceReplyOptions } from "./geminiService";
+import { DEFAULT_LANGUAGE, getResponseLanguage } from "./language";
+import { getLastResult } from "./resultHistory";
+import { VOICE_REPLIES } from "./voiceReplies";
+
+// Turns what the user said into something the app does: opening a page, reading
+// back the last verdict, or, for anything else, asking the model. A command needs
+// a verb and what it acts on, next to each other, so "open the SMS checker",
+// "show me trending scams" and "SMS kholo" work, while "how do scammers use SMS?"
+// goes to the model. Hindi speakers are matched in Latin and Devanagari script,
+// as speech recognition returns either. Replies are in the response language.
+
+export type VoiceIntent =
+  | { type: 'navigate'; page: Page; label: string }
+  | { type: 'read-last-result' }
+  | { type: 'ask'; text: string };
+
+// What a voice command can do in the app
+export interface VoiceActions {
+  navigate: (page: Page) => void;
+}
+
+// Checked in order, so the more specific destinations come first
+const DESTINATIONS: { page: Page; label: string; phrases: string[] }[] = [
+  { page: 'dashboard/aivoice', label: 'AI voice detection', phrases: ['ai voice', 'voice clone', 'cloned voice', 'fake voice', 'deepfake'] },
+  { page: 'dashboard/sms', label: 'SMS fraud checker', phrases: ['sms', 'text message', 'message checker', 'एसएमएस', 'मैसेज'] },
+  { page: 'dashboard/trending', label: 'trending scams', phrases: ['trending', 'trends', 'ट्रेंडिंग'] },
+  { page: 'dashboard/voice', label: 'call fraud detection', phrases: ['call', 'calls', 'phone call', 'कॉल'] },
+  { page: 'dashboard/batch', label: 'batch image check', phrases: ['batch', 'bulk', 'many images', 'folder'] },
+  { page: 'dashboard/image', label: 'image detection', phrases: ['image', 'images', 'photo', 'picture', 'फोटो', 'तस्वीर'] },
+  { page: 'dashboard/article', label: 'article analysis', phrases: ['article', 'news', 'fact check', 'खबर', 'न्यूज़'] },
+  { page: 'dashboard/templates', label: 'awareness templates', phrases: ['template', 'templates', 'poster', 'awareness'] },
+  { page: 'dashboard/insights', label: 'insights', phrases: ['insights', 'insight', 'usage', 'statistics', 'stats'] },
+  { page: 'profile', label: 'profile', phrases: ['profile', 'my account', 'प्रोफाइल'] },
+  { page: 'faq', label: 'FAQ', phrases: ['faq', 'frequently asked questions', 'help page'] },
+  { page: 'contact', label: 'contact page', phrases: ['contact', 'contact us'] },
+  { page: 'dashboard', label: 'dashboard', phrases: ['dashboard', 'tools', 'डैशबोर्ड'] },
+  { page: 'home', label: 'home page', phrases: ['home', 'home page', 'होम'] },
+];
+
+// English verbs come before what they act on; Hindi ones usually come after it
+// ("SMS kholo") but may come first too
+const NAVIGATION_VERBS = {
+  english: ['open', 'show', 'go', 'take', 'navigate', 'launch', 'switch', 'bring up'],
+  hindi: [
+    'kholo', 'khol do', 'dikhao', 'dikha do', 'chalo', 'le chalo', 'open karo', 'open kar do',
+    'खोलो', 'खोल दो', 'दिखाओ', 'दिखा दो', 'चलो', 'ले चलो', 'जाओ',
+  ],
+};
+const READ_VERBS = {
+  english: ['read', 'tell', 'repeat', 'say', 'what was', 'what is', 'what s', 'whats'],
+  hindi: ['batao', 'bataao', 'bata do', 'sunao', 'suna do', 'padho', 'बताओ', 'बता दो', 'सुनाओ', 'पढ़ो'],
+};
+// Said around a command without changing it
+const FILLERS = ['please', 'plz', 'can you', 'could you', 'i want to', 'hey', 'ok', 'okay', 'now', 'just', 'zara', 'jara', 'कृपया', 'ज़रा', 'जरा'];
+// May sit between a verb and what it acts on: "take me to the SMS checker", "SMS wala page kholo"
+const LINKS = [
+  'me', 'to', 'the', 'my', 'a', 'up', 'back', 'page', 'checker', 'tool', 'section', 'mera', 'meri', 'mujhe', 'wala', 'vala',
+  'ko', 'par', 'pe', 'मेरा', 'मेरी', 'मुझे', 'वाला', 'को', 'पर', 'पे',
+];
+const LAST_WORDS = ['last', 'latest', 'previous', 'recent', 'pichla', 'pichhla', 'aakhri', 'पिछला', 'आखिरी'];
+// May name the tool between "last" and "result": "my last SMS check"
+const TOOL_WORDS = ['sms', 'message', 'image', 'photo', 'picture', 'voice', 'call', 'article', 'news', 'एसएमएस', 'फोटो', 'कॉल', 'खबर'];
+const RESULT_WORDS = ['result', 'verdict', 'check', 'analysis', 'scan', 'report', 'nateeja', 'रिजल्ट', 'नतीजा'];
+
+// Lower-cased words separated by single spaces and padded, so patterns below
+// match whole words only: " sms " is found in " open sms checker " but not in " smsc "
+const normalize = (text: string) => ` ${text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(Boolean).join(' ')} `;
+
+const anyOf = (phrases: string[]) => `(?:${phrases.map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`;
+const repeated = (phrases: string[]) => `(?:${anyOf(phrases)} )*`;
+
+// A command starts with its verb, or ends with it in Hindi. Whatever comes after
+// the target in the first form, or before it in the second, is free.
+const commandPattern = ({ english, hindi }: { english: string[]; hindi: string[] }, targets: string[]) => new RegExp(
+  `^ ${repeated(FILLERS)}${anyOf([...english, ...hindi])} ${repeated(LINKS)}${anyOf(targets)} `
+  + `| ${anyOf(targets)} ${repeated(LINKS)}${anyOf(hindi)} ${repeated(FILLERS)}$`,
+  'u',
+);
+
+const DESTINATION_PATTERNS = DESTINATIONS.map(destination => ({ ...destination, pattern: commandPattern(NAVIGATION_VERBS, destination.phrases) }));
+
+// "read my last result", "what was the last SMS check", "pichla result batao"
+const READ_PATTERN = new RegExp(
+  `^ ${repeated(FILLERS)}${anyOf([...READ_VERBS.english, ...READ_VERBS.hindi])} | ${anyOf(READ_VERBS.hindi)} ${repeated(FILLERS)}$`,
+  'u',
+);
+const LAST_RESULT_PATTERN = new RegExp(` ${anyOf(LAST_WORDS)} (?:${anyOf(TOOL_WORDS)} )?${anyOf(RESULT_WORDS)} `, 'u');
+
+export const matchVoiceIntent = (transcript: string): VoiceIntent => {
+  const normalized = normalize(transcript);
+  if (READ_PATTERN.test(normalized) && LAST_RESULT_PATTERN.test(normalized)) {
+    return { type: 'read-last-result' };
+  }
+  const destination = DESTINATION_PATTERNS.find(({ pattern }) => pattern.test(normalized));
+  if (destination) return { type: 'navigate', page: destination.page, label: destination.label };
+  return { type: 'ask', text: transcript };
+};
+
+// A verdict as a couple of sentences for speaking aloud. The explanation is the
+// result's own, in whichever language the check was run in.
+export const describeLastResult = (last: LastResult, language: LanguageCode = DEFAULT_LANGUAGE): string => {
+  const text = VOICE_REPLIES[language];
+  switch (last.tool) {
+    case 'sms':
+      return last.result.classification === 'fraud'
+        ? `${text.smsFraud} ${last.result.explanation} ${text.helpline}`
+        : `${text.smsSafe} ${last.result.explanation}`;
+    case 'image':
+      return `${text.image(last.result.classification, last.result.confidence)} ${last.result.explanation}`;
+    case 'aivoice':
+      return `${text.voice(last.result.classification, last.result.confidence)} ${last.result.explanation}`;
+    case 'voice':
+      return `${text.calls[last.result.fraudAssessment]} ${last.result.explanation}`;
+    case 'article':
+      return `${text.article(text.risks[last.result.riskLevel], last.result.credibilityScore)} ${last.result.summary}`;
+  }
+};
+
+// Carries out a spoken command and returns what to say back. Commands are added
+// to the history too, so "what does that mean?" after a read-out has context.
+export const runVoiceCommand = async (
+  transcript: string,
+  actions: VoiceActions,
+  history: ChatTurn[] = [],
+  options: VoiceReplyOptions = {},
+): Promise<VoiceReply> => {
+  const intent = matchVoiceIntent(transcript);
+  const language = options.language ?? getResponseLanguage();
+  const answer = (text: string): VoiceReply => ({ text, turns: [{ role: 'user', text: transcript }, { role: 'model', text }] });
+  switch (intent.type) {
+    case 'navigate':
+      actions.navigate(intent.page);
+      return answer(VOICE_REPLIES[language].opening(intent.label));
+    case 'read-last-result': {
+      const last = getLastResult();
+      return answer(last ? describeLastResult(last, language) : VOICE_REPLIES[language].nothingChecked);
+    }
+    case 'ask':
+      return getVoiceConversationReply(intent.text, history, options);
+  }
+};
@@ -0,0 +1,182 @@
+import { CallFraudAnalysisResult, LanguageCode, RiskLevel } from "../types";
+
+// What the voice assistant says when it answers a command itself rather than
+// asking the model, in each language it can answer in. Page names and verdict
+// labels stay as the app shows them on screen. Commands are only matched in
+// English and Hindi, so the other languages suggest the English one.
+
+export interface VoiceReplyText {
+  opening: (page: string) => string;
+  nothingChecked: string;
+  smsFraud: string;
+  smsSafe: string;
+  helpline: string;
+  image: (classification: string, confidence: number) => string;
+  voice: (classification: string, confidence: number) => string;
+  calls: Record<CallFraudAnalysisResult['fraudAssessment'], string>;
+  article: (risk: string, score: number) => string;
+  risks: Record<RiskLevel, string>;
+}
+
+export const VOICE_REPLIES: Record<LanguageCode, VoiceReplyText> = {
+  en: {
+    opening: page => `Opening ${page}.`,
+    nothingChecked: 'You haven\'t checked anything yet. Say "open SMS checker" to start a check.',
+    smsFraud: 'Your last SMS check found signs of fraud.',
+    smsSafe: 'Your last SMS check found the message appears safe.',
+    helpline: 'If you have lost money, call the cybercrime helpline on 1930.',
+    image: (classification, confidence) => `Your last image check rated the image ${classification}, with ${confidence} percent confidence.`,
+    voice: (classification, confidence) => `Your last voice check rated the recording ${classification}, with ${confidence} percent confidence.`,
+    calls: {
+      'Fraudulent Call': 'Your last call check found the call was likely fraudulent.',
+      'Safe Call': 'Your last call check found the call appears safe.',
+      Uncertain: 'Your last call check could not tell whether the call was fraudulent.',
+    },
+    article: (risk, score) => `Your last article check rated it ${risk} risk, with a credibility score of ${score} out of 100.`,
+    risks: { Low: 'low', Medium: 'medium', High: 'high' },
+  },
+  hi: {
+    opening: page => `${page} खोल रहे हैं।`,
+    nothingChecked: 'आपने अभी तक कुछ भी जाँचा नहीं है। जाँच शुरू करने के लिए "SMS खोलो" कहें।',
+    smsFraud: 'आपकी पिछली SMS जाँच में धोखाधड़ी के संकेत मिले।',
+    smsSafe: 'आपकी पिछली SMS जाँच के अनुसार संदेश सुरक्षित लगता है।',
+    helpline: 'अगर आपके पैसे गए हैं, तो साइबर क्राइम हेल्पलाइन 1930 पर कॉल करें।',
+    image: (classification, confidence) => `आपकी पिछली इमेज जाँच ने इमेज को ${classification} बताया, ${confidence} प्रतिशत भरोसे के साथ।`,
+    voice: (classification, confidence) => `आपकी पिछली आवाज़ जाँच ने रिकॉर्डिंग को ${classification} बताया, ${confidence} प्रतिशत भरोसे के साथ।`,
+    calls: {
+      'Fraudulent Call': 'आपकी पिछली कॉल जाँच के अनुसार कॉल शायद धोखाधड़ी वाली थी।',
+      'Safe Call': 'आपकी पिछली कॉल जाँच के अनुसार कॉल सुरक्षित लगती है।',
+      Uncertain: 'आपकी पिछली कॉल जाँच यह तय नहीं कर पाई कि कॉल धोखाधड़ी वाली थी या नहीं।',
+    },
+    article: (risk, score) => `आपकी पिछली खबर जाँच ने इसे ${risk} जोखिम वाला बताया, विश्वसनीयता स्कोर 100 में से ${score} है।`,
+    risks: { Low: 'कम', Medium: 'मध्यम', High: 'ज़्यादा' },
+  },
+  bn: {
+    opening: page => `${page} খোলা হচ্ছে।`,
+    nothingChecked: 'আপনি এখনও কিছু যাচাই করেননি। যাচাই শুরু করতে "open SMS checker" বলুন।',
+    smsFraud: 'আপনার শেষ SMS যাচাইয়ে প্রতারণার লক্ষণ পাওয়া গেছে।',
+    smsSafe: 'আপনার শেষ SMS যাচাই অনুযায়ী বার্তাটি নিরাপদ মনে হচ্ছে।',
+    helpline: 'আপনি টাকা হারিয়ে থাকলে সাইবার ক্রাইম হেল্পলাইন 1930-এ ফোন করুন।',
+    image: (classification, confidence) => `আপনার শেষ ছবি যাচাইয়ে ছবিটিকে ${classification} বলা হয়েছে, ${confidence} শতাংশ নিশ্চয়তার সঙ্গে।`,
+    voice: (classification, confidence) => `আপনার শেষ কণ্ঠস্বর যাচাইয়ে রেকর্ডিংটিকে ${classification} বলা হয়েছে, ${confidence} শতাংশ নিশ্চয়তার সঙ্গে।`,
+    calls: {
+      'Fraudulent Call': 'আপনার শেষ কল যাচাই অনুযায়ী কলটি সম্ভবত প্রতারণামূলক ছিল।',
+      'Safe Call': 'আপনার শেষ কল যাচাই অনুযায়ী কলটি নিরাপদ মনে হচ্ছে।',
+      Uncertain: 'আপনার শেষ কল যাচাই বুঝতে পারেনি কলটি প্রতারণামূলক ছিল কি না।',
+    },
+    article: (risk, score) => `আপনার শেষ খবর যাচাইয়ে এটিকে ${risk} ঝুঁকির বলা হয়েছে, বিশ্বাসযোগ্যতা স্কোর 100-এর মধ্যে ${score}।`,
+    risks: { Low: 'কম', Medium: 'মাঝারি', High: 'উচ্চ' },
+  },
+  mr: {
+    opening: page => `${page} उघडत आहे.`,
+    nothingChecked: 'तुम्ही अजून काहीही तपासलेले नाही. तपासणी सुरू करण्यासाठी "open SMS checker" म्हणा.',
+    smsFraud: 'तुमच्या मागील SMS तपासणीत फसवणुकीची चिन्हे आढळली.',
+    smsSafe: 'तुमच्या मागील SMS तपासणीनुसार संदेश सुरक्षित दिसतो.',
+    helpline: 'तुमचे पैसे गेले असतील तर सायबर क्राइम हेल्पलाइन 1930 वर कॉल करा.',
+    image: (classification, confidence) => `तुमच्या मागील इमेज तपासणीने इमेजला ${classification} ठरवले, ${confidence} टक्के खात्रीने.`,
+    voice: (classification, confidence) => `तुमच्या मागील आवाज तपासणीने रेकॉर्डिंगला ${classification} ठरवले, ${confidence} टक्के खात्रीने.`,
+    calls: {
+      'Fraudulent Call': 'तुमच्या मागील कॉल तपासणीनुसार कॉल बहुधा फसवणुकीचा होता.',
+      'Safe Call': 'तुमच्या मागील कॉल तपासणीनुसार कॉल सुरक्षित दिसतो.',
+      Uncertain: 'तुमच्या मागील कॉल तपासणीला कॉल फसवणुकीचा होता की नाही हे ठरवता आले नाही.',
+    },
+    article: (risk, score) => `तुमच्या मागील बातमी तपासणीने तिला ${risk} धोका असल्याचे ठरवले, विश्वासार्हता गुण 100 पैकी ${score}.`,
+    risks: { Low: 'कमी', Medium: 'मध्यम', High: 'जास्त' },
+  },
+  ta: {
+    opening: page => `${page} திறக்கப்படுகிறது.`,
+    nothingChecked: 'நீங்கள் இதுவரை எதையும் சரிபார்க்கவில்லை. சரிபார்ப்பைத் தொடங்க "open SMS checker" என்று சொல்லுங்கள்.',
+    smsFraud: 'உங்கள் கடைசி SMS சரிபார்ப்பில் மோசடிக்கான அறிகுறிகள் கண்டறியப்பட்டன.',
+    smsSafe: 'உங்கள் கடைசி SMS சரிபார்ப்பின்படி இந்தச் செய்தி பாதுகாப்பானதாகத் தெரிகிறது.',
+    helpline: 'நீங்கள் பணத்தை இழந்திருந்தால், சைபர் குற்ற உதவி எண் 1930-ஐ அழைக்கவும்.',
+    image: (classification, confidence) => `உங்கள் கடைசி படச் சரிபார்ப்பு படத்தை ${classification} என மதிப்பிட்டது, ${confidence} சதவீத நம்பிக்கையுடன்.`,
+    voice: (classification, confidence) => `உங்கள் கடைசி குரல் சரிபார்ப்பு பதிவை ${classification} என மதிப்பிட்டது, ${confidence} சதவீத நம்பிக்கையுடன்.`,
+    calls: {
+      'Fraudulent Call': 'உங்கள் கடைசி அழைப்புச் சரிபார்ப்பின்படி அந்த அழைப்பு மோசடியாக இருக்கலாம்.',
+      'Safe Call': 'உங்கள் கடைசி அழைப்புச் சரிபார்ப்பின்படி அந்த அழைப்பு பாதுகாப்பானதாகத் தெரிகிறது.',
+      Uncertain: 'உங்கள் கடைசி அழைப்புச் சரிபார்ப்பால் அந்த அழைப்பு மோசடியா என்று சொல்ல முடியவில்லை.',
+    },
+    article: (risk, score) => `உங்கள் கடைசி செய்திச் சரிபார்ப்பு இதை ${risk} அபாயம் என மதிப்பிட்டது, நம்பகத்தன்மை மதிப்பெண் 100-க்கு ${score}.`,
+    risks: { Low: 'குறைந்த', Medium: 'நடுத்தர', High: 'அதிக' },
+  },
+  te: {
+    opening: page => `${page} తెరుస్తున్నాను.`,
+    nothingChecked: 'మీరు ఇంకా ఏదీ తనిఖీ చేయలేదు. తనిఖీ ప్రారంభించడానికి "open SMS checker" అని చెప్పండి.',
+    smsFraud: 'మీ చివరి SMS తనిఖీలో మోసం సంకేతాలు కనిపించాయి.',
+    smsSafe: 'మీ చివరి SMS తనిఖీ ప్రకారం సందేశం సురక్షితంగా కనిపిస్తోంది.',
+    helpline: 'మీరు డబ్బు పోగొట్టుకుంటే, సైబర్ క్రైమ్ హెల్ప్‌లైన్ 1930కి కాల్ చేయండి.',
+    image: (classification, confidence) => `మీ చివరి చిత్ర తనిఖీ చిత్రాన్ని ${classification} అని అంచనా వేసింది, ${confidence} శాతం నమ్మకంతో.`,
+    voice: (classification, confidence) => `మీ చివరి వాయిస్ తనిఖీ రికార్డింగ్‌ను ${classification} అని అంచనా వేసింది, ${confidence} శాతం నమ్మకంతో.`,
+    calls: {
+      'Fraudulent Call': 'మీ చివరి కాల్ తనిఖీ ప్రకారం ఆ కాల్ మోసపూరితమైనది కావచ్చు.',
+      'Safe Call': 'మీ చివరి కాల్ తనిఖీ ప్రకారం ఆ కాల్ సురక్షితంగా కనిపిస్తోంది.',
+      Uncertain: 'మీ చివరి కాల్ తనిఖీ ఆ కాల్ మోసపూరితమా కాదా అని చెప్పలేకపోయింది.',
+    },
+    article: (risk, score) => `మీ చివరి వార్తా తనిఖీ దీనిని ${risk} ప్రమాదంగా అంచనా వేసింది, విశ్వసనీయత స్కోరు 100కి ${score}.`,
+    risks: { Low: 'తక్కువ', Medium: 'మధ్యస్థ', High: 'అధిక' },
+  },
+  gu: {
+    opening: page => `${page} ખોલી રહ્યા છીએ.`,
+    nothingChecked: 'તમે હજી સુધી કંઈ તપાસ્યું નથી. તપાસ શરૂ કરવા માટે "open SMS checker" કહો.',
+    smsFraud: 'તમારી છેલ્લી SMS તપાસમાં છેતરપિંડીના સંકેતો મળ્યા.',
+    smsSafe: 'તમારી છેલ્લી SMS તપાસ મુજબ સંદેશ સુરક્ષિત લાગે છે.',
+    helpline: 'જો તમે પૈસા ગુમાવ્યા હોય, તો સાયબર ક્રાઇમ હેલ્પલાઇન 1930 પર કૉલ કરો.',
+    image: (classification, confidence) => `તમારી છેલ્લી છબી તપાસે છબીને ${classification} ગણાવી, ${confidence} ટકા વિશ્વાસ સાથે.`,
+    voice: (classification, confidence) => `તમારી છેલ્લી અવાજ તપાસે રેકોર્ડિંગને ${classification} ગણાવ્યું, ${confidence} ટકા વિશ્વાસ સાથે.`,
+    calls: {
+      'Fraudulent Call': 'તમારી છેલ્લી કૉલ તપાસ મુજબ કૉલ કદાચ છેતરપિંડીનો હતો.',
+      'Safe Call': 'તમારી છેલ્લી કૉલ તપાસ મુજબ કૉલ સુરક્ષિત લાગે છે.',
+      Uncertain: 'તમારી છેલ્લી કૉલ તપાસ નક્કી ન કરી શકી કે કૉલ છેતરપિંડીનો હતો કે નહીં.',
+    },
+    article: (risk, score) => `તમારી છેલ્લી સમાચાર તપાસે તેને ${risk} જોખમ ગણાવ્યું, વિશ્વસનીયતા સ્કોર 100 માંથી ${score}.`,
+    risks: { Low: 'ઓછું', Medium: 'મધ્યમ', High: 'ઊંચું' },
+  },
+  kn: {
+    opening: page => `${page} ತೆರೆಯುತ್ತಿದ್ದೇನೆ.`,
+    nothingChecked: 'ನೀವು ಇನ್ನೂ ಏನನ್ನೂ ಪರಿಶೀಲಿಸಿಲ್ಲ. ಪರಿಶೀಲನೆ ಆರಂಭಿಸಲು "open SMS checker" ಎಂದು ಹೇಳಿ.',
+    smsFraud: 'ನಿಮ್ಮ ಕೊನೆಯ SMS ಪರಿಶೀಲನೆಯಲ್ಲಿ ವಂಚನೆಯ ಸೂಚನೆಗಳು ಕಂಡುಬಂದಿವೆ.',
+    smsSafe: 'ನಿಮ್ಮ ಕೊನೆಯ SMS ಪರಿಶೀಲನೆಯ ಪ್ರಕಾರ ಸಂದೇಶ ಸುರಕ್ಷಿತವಾಗಿ ಕಾಣುತ್ತದೆ.',
+    helpline: 'ನೀವು ಹಣ ಕಳೆದುಕೊಂಡಿದ್ದರೆ, ಸೈಬರ್ ಅಪರಾಧ ಸಹಾಯವಾಣಿ 1930ಗೆ ಕರೆ ಮಾಡಿ.',
+    image: (classification, confidence) => `ನಿಮ್ಮ ಕೊನೆಯ ಚಿತ್ರ ಪರಿಶೀಲನೆ ಚಿತ್ರವನ್ನು ${classification} ಎಂದು ಗುರುತಿಸಿದೆ, ${confidence} ಶೇಕಡಾ ವಿಶ್ವಾಸದೊಂದಿಗೆ.`,
+    voice: (classification, confidence) => `ನಿಮ್ಮ ಕೊನೆಯ ಧ್ವನಿ ಪರಿಶೀಲನೆ ರೆಕಾರ್ಡಿಂಗ್ ಅನ್ನು ${classification} ಎಂದು ಗುರುತಿಸಿದೆ, ${confidence} ಶೇಕಡಾ ವಿಶ್ವಾಸದೊಂದಿಗೆ.`,
+    calls: {
+      'Fraudulent Call': 'ನಿಮ್ಮ ಕೊನೆಯ ಕರೆ ಪರಿಶೀಲನೆಯ ಪ್ರಕಾರ ಆ ಕರೆ ವಂಚನೆಯದ್ದಾಗಿರಬಹುದು.',
+      'Safe Call': 'ನಿಮ್ಮ ಕೊನೆಯ ಕರೆ ಪರಿಶೀಲನೆಯ ಪ್ರಕಾರ ಆ ಕರೆ ಸುರಕ್ಷಿತವಾಗಿ ಕಾಣುತ್ತದೆ.',
+      Uncertain: 'ನಿಮ್ಮ ಕೊನೆಯ ಕರೆ ಪರಿಶೀಲನೆಗೆ ಆ ಕರೆ ವಂಚನೆಯದ್ದೇ ಎಂದು ಹೇಳಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+    },
+    article: (risk, score) => `ನಿಮ್ಮ ಕೊನೆಯ ಸುದ್ದಿ ಪರಿಶೀಲನೆ ಇದನ್ನು ${risk} ಅಪಾಯ ಎಂದು ಗುರುತಿಸಿದೆ, ವಿಶ್ವಾಸಾರ್ಹತೆ ಅಂಕ 100ರಲ್ಲಿ ${score}.`,
+    risks: { Low: 'ಕಡಿಮೆ', Medium: 'ಮಧ್ಯಮ', High: 'ಹೆಚ್ಚಿನ' },
+  },
+  ml: {
+    opening: page => `${page} തുറക്കുന്നു.`,
+    nothingChecked: 'നിങ്ങൾ ഇതുവരെ ഒന്നും പരിശോധിച്ചിട്ടില്ല. പരിശോധന തുടങ്ങാൻ "open SMS checker" എന്ന് പറയൂ.',
+    smsFraud: 'നിങ്ങളുടെ അവസാന SMS പരിശോധനയിൽ തട്ടിപ്പിന്റെ സൂചനകൾ കണ്ടെത്തി.',
+    smsSafe: 'നിങ്ങളുടെ അവസാന SMS പരിശോധന പ്രകാരം സന്ദേശം സുരക്ഷിതമാണെന്ന് തോന്നുന്നു.',
+    helpline: 'നിങ്ങൾക്ക് പണം നഷ്ടപ്പെട്ടിട്ടുണ്ടെങ്കിൽ, സൈബർ ക്രൈം ഹെൽപ്‌ലൈൻ 1930-ൽ വിളിക്കൂ.',
+    image: (classification, confidence) => `നിങ്ങളുടെ അവസാന ചിത്ര പരിശോധന ചിത്രത്തെ ${classification} എന്ന് വിലയിരുത്തി, ${confidence} ശതമാനം ഉറപ്പോടെ.`,
+    voice: (classification, confidence) => `നിങ്ങളുടെ അവസാന ശബ്ദ പരിശോധന റെക്കോർഡിംഗിനെ ${classification} എന്ന് വിലയിരുത്തി, ${confidence} ശതമാനം ഉറപ്പോടെ.`,
+    calls: {
+      'Fraudulent Call': 'നിങ്ങളുടെ അവസാന കോൾ പരിശോധന പ്രകാരം ആ കോൾ തട്ടിപ്പായിരിക്കാം.',
+      'Safe Call': 'നിങ്ങളുടെ അവസാന കോൾ പരിശോധന പ്രകാരം ആ കോൾ സുരക്ഷിതമാണെന്ന് തോന്നുന്നു.',
+      Uncertain: 'ആ കോൾ തട്ടിപ്പാണോ എന്ന് നിങ്ങളുടെ അവസാന കോൾ പരിശോധനയ്ക്ക് പറയാൻ കഴിഞ്ഞില്ല.',
+    },
+    article: (risk, score) => `നിങ്ങളുടെ അവസാന വാർത്താ പരിശോധന ഇതിനെ ${risk} അപകടസാധ്യതയുള്ളതായി വിലയിരുത്തി, വിശ്വാസ്യത സ്കോർ 100-ൽ ${score}.`,
+    risks: { Low: 'കുറഞ്ഞ', Medium: 'ഇടത്തരം', High: 'ഉയർന്ന' },
+  },
+  pa: {
+    opening: page => `${page} ਖੋਲ੍ਹ ਰਹੇ ਹਾਂ।`,
+    nothingChecked: 'ਤੁਸੀਂ ਅਜੇ ਤੱਕ ਕੁਝ ਵੀ ਜਾਂਚਿਆ ਨਹੀਂ ਹੈ। ਜਾਂਚ ਸ਼ੁਰੂ ਕਰਨ ਲਈ "open SMS checker" ਕਹੋ।',
+    smsFraud: 'ਤੁਹਾਡੀ ਪਿਛਲੀ SMS ਜਾਂਚ ਵਿੱਚ ਧੋਖਾਧੜੀ ਦੇ ਸੰਕੇਤ ਮਿਲੇ।',
+    smsSafe: 'ਤੁਹਾਡੀ ਪਿਛਲੀ SMS ਜਾਂਚ ਮੁਤਾਬਕ ਸੁਨੇਹਾ ਸੁਰੱਖਿਅਤ ਲੱਗਦਾ ਹੈ।',
+    helpline: "ਜੇ ਤੁਹਾਡੇ ਪੈਸੇ ਗਏ ਹਨ, ਤਾਂ ਸਾਈਬਰ ਕ੍ਰਾਈਮ ਹੈਲਪਲਾਈਨ 1930 'ਤੇ ਕਾਲ ਕਰੋ।",
+    image: (classification, confidence) => `ਤੁਹਾਡੀ ਪਿਛਲੀ ਤਸਵੀਰ ਜਾਂਚ ਨੇ ਤਸਵੀਰ ਨੂੰ ${classification} ਦੱਸਿਆ, ${confidence} ਪ੍ਰਤੀਸ਼ਤ ਭਰੋਸੇ ਨਾਲ।`,
+    voice: (classification, confidence) => `ਤੁਹਾਡੀ ਪਿਛਲੀ ਆਵਾਜ਼ ਜਾਂਚ ਨੇ ਰਿਕਾਰਡਿੰਗ ਨੂੰ ${classification} ਦੱਸਿਆ, ${confidence} ਪ੍ਰਤੀਸ਼ਤ ਭਰੋਸੇ ਨਾਲ।`,
+    calls: {
+      'Fraudulent Call': 'ਤੁਹਾਡੀ ਪਿਛਲੀ ਕਾਲ ਜਾਂਚ ਮੁਤਾਬਕ ਕਾਲ ਸ਼ਾਇਦ ਧੋਖਾਧੜੀ ਵਾਲੀ ਸੀ।',
+      'Safe Call': 'ਤੁਹਾਡੀ ਪਿਛਲੀ ਕਾਲ ਜਾਂਚ ਮੁਤਾਬਕ ਕਾਲ ਸੁਰੱਖਿਅਤ ਲੱਗਦੀ ਹੈ।',
+      Uncertain: 'ਤੁਹਾਡੀ ਪਿਛਲੀ ਕਾਲ ਜਾਂਚ ਇਹ ਨਹੀਂ ਦੱਸ ਸਕੀ ਕਿ ਕਾਲ ਧੋਖਾਧੜੀ ਵਾਲੀ ਸੀ ਜਾਂ ਨਹੀਂ।',
+    },
+    article: (risk, score) => `ਤੁਹਾਡੀ ਪਿਛਲੀ ਖ਼ਬਰ ਜਾਂਚ ਨੇ ਇਸਨੂੰ ${risk} ਖ਼ਤਰੇ ਵਾਲੀ ਦੱਸਿਆ, ਭਰੋਸੇਯੋਗਤਾ ਸਕੋਰ 100 ਵਿੱਚੋਂ ${score}।`,
+    risks: { Low: 'ਘੱਟ', Medium: 'ਦਰਮਿਆਨਾ', High: 'ਉੱਚ' },
+  },
+};
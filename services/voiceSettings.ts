@@ -0,0 +1,45 @@
+import { VoiceSettings } from "../types";
+import { isLanguageCode } from "./language";
+
+// Each user's voice assistant settings, remembered on this device
+
+const STORAGE_KEY = 'codehustlers-voice-settings';
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = { language: null, voiceURI: null, rate: 1, pitch: 1 };
+
+export const RATE_RANGE = { min: 0.5, max: 2 };
+export const PITCH_RANGE = { min: 0, max: 2 };
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Stored settings may come from an older version of the app, so each field is checked
+const readSettings = (stored: Partial<VoiceSettings> | undefined): VoiceSettings => ({
+  language: isLanguageCode(stored?.language) ? stored.language : DEFAULT_VOICE_SETTINGS.language,
+  voiceURI: typeof stored?.voiceURI === 'string' ? stored.voiceURI : DEFAULT_VOICE_SETTINGS.voiceURI,
+  rate: clamp(stored?.rate, RATE_RANGE, DEFAULT_VOICE_SETTINGS.rate),
+  pitch: clamp(stored?.pitch, PITCH_RANGE, DEFAULT_VOICE_SETTINGS.pitch),
+});
+
+// Falls back to memory where localStorage is unavailable (Node, some private modes)
+const memorySettings: Record<string, VoiceSettings> = {};
+
+const readAll = (): Record<string, Partial<VoiceSettings>> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, Partial<VoiceSettings>>;
+  } catch {
+    return memorySettings;
+  }
+};
+
+export const loadVoiceSettings = (userId: string): VoiceSettings => readSettings(readAll()[userId]);
+
+export const saveVoiceSettings = (userId: string, settings: VoiceSettings): VoiceSettings => {
+  const saved = readSettings(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [userId]: saved }));
+  } catch {
+    memorySettings[userId] = saved;
+  }
+  return saved;
+};
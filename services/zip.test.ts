@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Lists the entries of a stored (uncompressed) archive through its central directory
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries: { name: string; data: string; crc: number }[] = [];
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const local = view.getUint32(offset + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    entries.push({
+      name: decoder.decode(zip.subarray(offset + 46, offset + 46 + nameLength)),
+      data: decoder.decode(zip.subarray(dataStart, dataStart + size)),
+      crc: view.getUint32(offset + 16, true),
+    });
+    offset += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry with its name, data and checksum', () => {
+    const zip = createZip([
+      { name: 'report.html', data: encoder.encode('<p>Report</p>') },
+      { name: 'thumbnails/001.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]) },
+      { name: 'résumé.txt', data: encoder.encode('') },
+    ], new Date(2025, 4, 3, 10, 30, 12));
+    const entries = readZip(zip);
+    expect(entries.map(entry => entry.name)).toEqual(['report.html', 'thumbnails/001.jpg', 'résumé.txt']);
+    expect(entries[0].data).toBe('<p>Report</p>');
+    expect(entries[0].crc).toBe(crc32(encoder.encode('<p>Report</p>')));
+  });
+
+  it('records the modification time in MS-DOS format', () => {
+    const zip = createZip([{ name: 'a.txt', data: encoder.encode('a') }], new Date(2025, 4, 3, 10, 30, 12));
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(10, true)).toBe((10 << 11) | (30 << 5) | 6);
+    expect(view.getUint16(12, true)).toBe(((2025 - 1980) << 9) | (5 << 5) | 3);
+  });
+
+  it('writes an empty archive as just the end record', () => {
+    expect(readZip(createZip([]))).toEqual([]);
+  });
+});
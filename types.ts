@@ -4,6 +4,102 @@ export interface ImageDetectionResult {
   classification: 'AI-generated' | 'Authentic' | 'Uncertain';
   confidence: number;
   explanation: string;
+  // Flaws the model located in the image; empty for prompt versions that do not ask for them
+  findings: ImageFinding[];
+  // What the file's own metadata says, found without the model
+  metadataEvidence?: MetadataEvidence[];
+  // The model's verdict from the pixels alone, set when metadata evidence changed it
+  modelVerdict?: { classification: ImageDetectionResult['classification']; confidence: number };
+  // The kind of image the verdict was reached for; absent from verdicts made before detection modes
+  mode?: ImageMode;
+}
+
+// The kinds of image the image tool has a protocol for
+export type ImageType = 'photograph' | 'illustration' | 'portrait' | 'screenshot' | 'document';
+
+export interface ImageMode {
+  type: ImageType;
+  // Whether the model picked the type or the user did
+  source: 'detected' | 'chosen';
+  // The model's reason for its pick; null when the user chose
+  reason: string | null;
+}
+
+export type ImageFindingCategory = 'hands' | 'face' | 'background' | 'line-art' | 'lighting' | 'text' | 'layout';
+
+export type FindingSeverity = 'low' | 'medium' | 'high';
+
+// A region as fractions (0-1) of the image's width and height, from the top left corner
+export interface NormalizedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageFinding {
+  category: ImageFindingCategory;
+  severity: FindingSeverity;
+  box: NormalizedBox;
+  description: string;
+  // The sentence of the explanation that describes this flaw, or null if the model gave none
+  excerpt: string | null;
+}
+
+export type BatchItemStatus = 'queued' | 'reading' | 'analyzing' | 'done' | 'failed' | 'cancelled';
+
+// One image in a batch check
+export interface BatchItem {
+  id: string;
+  // File name, with its path inside a dropped folder
+  name: string;
+  size: number;
+  status: BatchItemStatus;
+  // Set once the analysis has finished, including analyses that failed
+  envelope: AnalysisEnvelope<ImageDetectionResult> | null;
+  // Why the item failed or was cancelled
+  error: string | null;
+}
+
+// Heatmaps of an image computed in the browser: error level analysis, noise
+// residual and copy-move detection
+export type ForensicView = 'ela' | 'noise' | 'copy-move';
+
+// Where in an image file a piece of metadata was stored
+export type MetadataSource = 'EXIF' | 'XMP' | 'IPTC' | 'PNG text' | 'C2PA';
+
+export interface MetadataField {
+  source: MetadataSource;
+  label: string;
+  value: string;
+}
+
+// The active manifest of the file's Content Credentials. Signatures are not verified.
+export interface C2paManifest {
+  claimGenerator: string | null;
+  title: string | null;
+  // Action names such as 'c2pa.created' or 'c2pa.edited'
+  actions: string[];
+  // IPTC digital source types, e.g. ".../digitalsourcetype/trainedAlgorithmicMedia"
+  digitalSourceTypes: string[];
+  softwareAgents: string[];
+  assertions: string[];
+}
+
+export interface ImageMetadata {
+  format: 'jpeg' | 'png' | 'webp' | 'unknown';
+  fields: MetadataField[];
+  c2pa: C2paManifest | null;
+}
+
+// What a piece of metadata suggests about the image: made by an AI generator,
+// partly made by one, edited in software, or taken with a camera
+export type MetadataSignal = 'ai-generated' | 'ai-edited' | 'edited' | 'camera';
+
+export interface MetadataEvidence {
+  signal: MetadataSignal;
+  source: MetadataSource;
+  description: string;
 }
 
 export interface CallFraudAnalysisResult {
@@ -20,12 +116,55 @@ export interface AiVoiceDetectionResult {
   explanation: string;
 }
 
+export type RiskLevel = 'Low' | 'Medium' | 'High';
+
+// A web page the model's answer was grounded in
+export interface SourceLink {
+  url: string;
+  title: string;
+}
+
+export type ClaimVerdict = 'supported' | 'refuted' | 'misleading' | 'unverifiable';
+
+export interface ClaimCheck {
+  claim: string;
+  // Both missing from article-factcheck@1, which only verified claims in prose
+  verdict?: ClaimVerdict;
+  // 0-100, how sure the model is of the verdict
+  confidence?: number;
+  // What the sources say about the claim
+  verification: string;
+  // From Google Search grounding; empty when no search result backed the verdict
+  sources: SourceLink[];
+}
+
 export interface ArticleAnalysisResult {
-  riskLevel: 'Low' | 'Medium' | 'High';
+  riskLevel: RiskLevel;
   credibilityScore: number;
   tags: string[];
   summary: string;
-  claims: { claim: string; verification: string }[];
+  claims: ClaimCheck[];
+}
+
+// What has arrived of an article analysis that is still streaming. The verdict
+// (risk level and credibility score) is only shown once the full result is in,
+// and claim sources only arrive after the last claim.
+export interface PartialArticleAnalysis {
+  summary?: string;
+  tags: string[];
+  claims: ArticleAnalysisResult['claims'];
+}
+
+// An article imported from a URL. Anything the page does not state is null.
+export interface ExtractedArticle {
+  // Where the article was found, after redirects
+  url: string;
+  headline: string | null;
+  author: string | null;
+  publisher: string | null;
+  // ISO timestamp
+  publishedAt: string | null;
+  body: string;
 }
 
 export interface SmsAnalysisResult {
@@ -33,6 +172,155 @@ export interface SmsAnalysisResult {
   explanation: string;
 }
 
+export interface AwarenessTemplateContent {
+  title: string;
+  highlights: string[];
+  tips: string[];
+}
+
+export interface TrendingTopic {
+  topic: string;
+  // Not asked for by trending-topics@1
+  summary?: string;
+  // YYYY-MM-DD, or null when the model could not date the narrative
+  firstSeen: string | null;
+  risk: RiskLevel;
+  score: number;
+  // From Google Search grounding; empty when no search result backed the topic
+  sources: SourceLink[];
+}
+
+export type AnalysisTool = 'image' | 'article' | 'voice' | 'sms' | 'aivoice' | 'template' | 'trending' | 'chat';
+
+// The result type of each tool that checks something the user gave it
+export interface CheckResults {
+  image: ImageDetectionResult;
+  aivoice: AiVoiceDetectionResult;
+  voice: CallFraudAnalysisResult;
+  article: ArticleAnalysisResult;
+  sms: SmsAnalysisResult;
+}
+
+// The signed-in user's most recent verdict, whichever tool produced it
+export type LastResult = {
+  [K in keyof CheckResults]: { tool: K; result: CheckResults[K]; timestamp: string };
+}[keyof CheckResults];
+
+export type AnalysisStatus = 'ok' | 'error' | 'invalid' | 'cancelled' | 'quota';
+
+// Languages the app can answer in
+export type LanguageCode = 'en' | 'hi' | 'bn' | 'mr' | 'ta' | 'te' | 'gu' | 'kn' | 'ml' | 'pa';
+
+// What an input was written in; Hinglish is Hindi mixed with English in Latin script
+export type InputLanguage = LanguageCode | 'hinglish';
+
+interface AnalysisMetadata {
+  modelId: string;
+  promptVersion: string;
+  latencyMs: number;
+  timestamp: string;
+  // The language free-text fields were written in, and the detected language of
+  // text inputs (null for files or when it could not be told)
+  language?: { output: LanguageCode; input: InputLanguage | null };
+  // Set when the envelope was served from the local result cache; timestamp is then when it was first produced
+  fromCache?: boolean;
+}
+
+// Every analyzer resolves to an envelope. Only an 'ok' envelope carries a verdict;
+// 'error' (the request failed), 'invalid' (the model output failed validation),
+// 'cancelled' (the user stopped it) and 'quota' (the daily limit was reached) must
+// never be rendered as one.
+export type AnalysisEnvelope<T> = AnalysisMetadata & (
+  | { status: 'ok'; result: T; error?: undefined }
+  | { status: 'error' | 'invalid' | 'cancelled' | 'quota'; result: null; error: string }
+);
+
+// A request from the model to run one of the chat tools
+export interface ChatToolCall {
+  // Set by models that match results to calls by id
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// What the app hands back to the model after running a tool call
+export interface ChatToolResult {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// One message of a conversation, as replayed to a provider that starts a chat mid-way.
+// Model turns may carry the tool calls the model made, and the user turn after
+// them the results, in which case text may be empty.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  toolCalls?: ChatToolCall[];
+  toolResults?: ChatToolResult[];
+}
+
+// A check the chatbot ran for the user, shown inline in the conversation
+export type ChatAnalysis =
+  | { tool: 'sms'; envelope: AnalysisEnvelope<SmsAnalysisResult> }
+  | { tool: 'article'; envelope: AnalysisEnvelope<ArticleAnalysisResult> };
+
+// One message as shown in the chat window
+export interface ChatMessage {
+  sender: 'user' | 'bot';
+  text: string;
+  // Checks the bot ran while answering
+  analyses?: ChatAnalysis[];
+  // The user stopped the reply before it was finished
+  stopped?: boolean;
+}
+
+export interface ChatbotReply {
+  text: string;
+  analyses: ChatAnalysis[];
+  // The exchange as the model saw it, to be added to the thread's history; empty
+  // when the reply is an error message
+  turns: ChatTurn[];
+  stopped: boolean;
+}
+
+// The voice assistant's answer to one utterance, with the exchange to add to the
+// conversation's history (empty when the answer is an error message)
+export interface VoiceReply {
+  text: string;
+  turns: ChatTurn[];
+}
+
+// How the voice assistant listens and speaks, chosen per user
+export interface VoiceSettings {
+  // Language to listen and answer in; null follows the language picked in the header
+  language: LanguageCode | null;
+  // A speechSynthesis voice; null uses the browser's default voice for the language
+  voiceURI: string | null;
+  // SpeechSynthesisUtterance rate (0.5 to 2) and pitch (0 to 2); 1 is normal
+  rate: number;
+  pitch: number;
+}
+
+// A saved conversation. messages is what the user sees; turns is what the model
+// is given to carry on the conversation, tool calls included.
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  turns: ChatTurn[];
+}
+
+// Today's usage of one tool; limit and remaining are null when it is unlimited
+export interface ToolUsage {
+  tool: AnalysisTool;
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
 export interface UserHistoryItem {
   id: string;
   type: 'image' | 'article' | 'voice' | 'sms' | 'aivoice';
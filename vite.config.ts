@@ -8,11 +8,16 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Model requests go to the backend in server/, which holds the API key
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.DETECTION_PROVIDER': JSON.stringify(env.DETECTION_PROVIDER),
+        // Quotas are enforced by the server; the app only needs them to show what is left
+        'process.env.USAGE_QUOTAS': JSON.stringify(env.USAGE_QUOTAS)
       },
       resolve: {
         alias: {